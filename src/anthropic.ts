@@ -0,0 +1,223 @@
+import { ResolvedModel, TokenUsage } from "./types.js";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+/**
+ * A failed call to a Messages endpoint. `status` is the HTTP status (or the
+ * closest one for an error event inside a stream) and is undefined when the
+ * server could not be reached at all.
+ */
+export class AnthropicAPIError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly headers?: Headers
+  ) {
+    super(message);
+    this.name = "AnthropicAPIError";
+  }
+}
+
+// Error events sent mid-stream carry a type instead of an HTTP status.
+const STREAM_ERROR_STATUS: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+};
+
+interface MessagesUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+}
+
+interface MessagesErrorBody {
+  error?: { type?: string; message?: string };
+}
+
+export interface MessagesReply {
+  content: string;
+  /** Undefined when the server sent no usage block. */
+  usage?: TokenUsage;
+  stopReason?: string;
+}
+
+export interface MessagesCallOptions {
+  signal: AbortSignal;
+  headers?: Record<string, string>;
+  stream: boolean;
+  /** Called with each text delta as it streams in. */
+  onText?: (text: string) => void;
+}
+
+function apiKeyFor(model: ResolvedModel): string | undefined {
+  if (model.apiKeyEnvVar === "NONE") return undefined;
+  const apiKey = process.env[model.apiKeyEnvVar];
+  if (!apiKey) {
+    throw new Error(
+      `Missing API key: environment variable ${model.apiKeyEnvVar} is not set. ` +
+        `Configure it in your .mcp.json env section.`
+    );
+  }
+  return apiKey;
+}
+
+/**
+ * Cache reads and writes are reported apart from `input_tokens`; all three
+ * are prompt tokens, and reads are the ones billed at the cached rate.
+ */
+function usageFrom(usage: MessagesUsage): TokenUsage | undefined {
+  if (usage.input_tokens === undefined && usage.output_tokens === undefined) {
+    return undefined;
+  }
+  const cacheRead = usage.cache_read_input_tokens ?? 0;
+  return {
+    promptTokens:
+      (usage.input_tokens ?? 0) +
+      cacheRead +
+      (usage.cache_creation_input_tokens ?? 0),
+    completionTokens: usage.output_tokens ?? 0,
+    ...(cacheRead ? { cachedTokens: cacheRead } : {}),
+  };
+}
+
+async function errorFromResponse(response: Response): Promise<AnthropicAPIError> {
+  const text = await response.text().catch(() => "");
+  let detail = text.trim() || response.statusText;
+  try {
+    const parsed = JSON.parse(text) as MessagesErrorBody;
+    if (parsed.error?.message) detail = parsed.error.message;
+  } catch {
+    // Not JSON — keep the raw body.
+  }
+  return new AnthropicAPIError(
+    `${response.status} ${detail}`,
+    response.status,
+    response.headers
+  );
+}
+
+/** Parse a server-sent event stream into its `data:` payloads. */
+async function* sseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? "" : events.pop()!;
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).trimStart())
+          .join("\n");
+        if (data) yield data;
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function readStream(
+  body: ReadableStream<Uint8Array>,
+  onText?: (text: string) => void
+): Promise<MessagesReply> {
+  let content = "";
+  let stopReason: string | undefined;
+  const usage: MessagesUsage = {};
+
+  for await (const data of sseData(body)) {
+    const event = JSON.parse(data);
+    switch (event.type) {
+      case "message_start":
+        Object.assign(usage, event.message?.usage);
+        break;
+      case "content_block_delta":
+        // Thinking and tool-use deltas are not part of the answer.
+        if (event.delta?.type === "text_delta" && event.delta.text) {
+          content += event.delta.text;
+          onText?.(event.delta.text);
+        }
+        break;
+      case "message_delta":
+        if (event.delta?.stop_reason) stopReason = event.delta.stop_reason;
+        // Final counts; some compatible servers only report input here.
+        Object.assign(usage, event.usage);
+        break;
+      case "error": {
+        const { type = "api_error", message = "stream error" } =
+          (event as MessagesErrorBody).error ?? {};
+        throw new AnthropicAPIError(message, STREAM_ERROR_STATUS[type] ?? 500);
+      }
+    }
+  }
+
+  return { content, usage: usageFrom(usage), stopReason };
+}
+
+/**
+ * POST one request to `{baseURL}/v1/messages`. Errors are thrown as
+ * AnthropicAPIError so the retry policy can read their status and
+ * Retry-After; an abort propagates unchanged.
+ */
+export async function createMessage(
+  model: ResolvedModel,
+  body: Record<string, unknown>,
+  options: MessagesCallOptions
+): Promise<MessagesReply> {
+  const apiKey = apiKeyFor(model);
+  const url = `${model.baseURL.replace(/\/+$/, "")}/v1/messages`;
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "anthropic-version": ANTHROPIC_VERSION,
+        ...(apiKey ? { "x-api-key": apiKey } : {}),
+        ...options.headers,
+      },
+      body: JSON.stringify(options.stream ? { ...body, stream: true } : body),
+      signal: options.signal,
+    });
+  } catch (err) {
+    if (options.signal.aborted) throw err;
+    const cause = err instanceof Error && err.cause instanceof Error ? err.cause : err;
+    throw new AnthropicAPIError(
+      `Connection error: ${cause instanceof Error ? cause.message : String(cause)}`
+    );
+  }
+
+  if (!response.ok) throw await errorFromResponse(response);
+
+  // A server that ignores `stream` answers with plain JSON instead.
+  const contentType = response.headers.get("content-type") ?? "";
+  if (options.stream && response.body && contentType.includes("event-stream")) {
+    return readStream(response.body, options.onText);
+  }
+
+  const message = (await response.json()) as {
+    content?: { type: string; text?: string }[];
+    usage?: MessagesUsage;
+    stop_reason?: string;
+  };
+  return {
+    content: (message.content ?? [])
+      .filter((block) => block.type === "text")
+      .map((block) => block.text ?? "")
+      .join(""),
+    usage: message.usage ? usageFrom(message.usage) : undefined,
+    stopReason: message.stop_reason,
+  };
+}
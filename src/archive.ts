@@ -0,0 +1,157 @@
+import { randomBytes } from "crypto";
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { ArchiveEntry, ArchiveKind, DebateResult } from "./types.js";
+import { expandHome, getConfigSection } from "./models.js";
+
+const DEFAULT_ARCHIVE_DIR = join(homedir(), ".brainstorm", "archive");
+
+// Ids are user input on the way back in (brainstorm_get), so they must match
+// what newArchiveId() produces before they touch the filesystem.
+const ARCHIVE_ID_PATTERN = /^\d{8}-\d{6}-[0-9a-f]{6}$/;
+
+export interface ArchiveFilter {
+  kind?: ArchiveKind;
+  /** Inclusive lower bound, epoch ms. */
+  since?: number;
+  /** Inclusive upper bound, epoch ms. */
+  until?: number;
+  /** Case-insensitive substring of any participating model id. */
+  model?: string;
+  style?: string;
+  /** Case-insensitive substring of topic, synthesis or any response. */
+  keyword?: string;
+  limit?: number;
+}
+
+/**
+ * Directory to archive into, or undefined when archiving is switched off via
+ * BRAINSTORM_ARCHIVE=off or `"archive": { "enabled": false }`.
+ */
+function archiveDir(): string | undefined {
+  const config = getConfigSection("archive") || {};
+  const env = (process.env.BRAINSTORM_ARCHIVE || "").trim().toLowerCase();
+  if (env === "off" || env === "false" || env === "0") return undefined;
+  if (!env && config.enabled === false) return undefined;
+  return expandHome(
+    process.env.BRAINSTORM_ARCHIVE_DIR || config.dir || DEFAULT_ARCHIVE_DIR
+  );
+}
+
+function newArchiveId(now: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const date = `${now.getUTCFullYear()}${pad(now.getUTCMonth() + 1)}${pad(now.getUTCDate())}`;
+  const time = `${pad(now.getUTCHours())}${pad(now.getUTCMinutes())}${pad(now.getUTCSeconds())}`;
+  return `${date}-${time}-${randomBytes(3).toString("hex")}`;
+}
+
+/**
+ * Persist a finished run. Archiving is best-effort: a full disk or a
+ * read-only home directory is logged, never surfaced as a tool failure.
+ * Returns the archive id, or undefined when nothing was written.
+ */
+export function archiveResult(
+  kind: ArchiveKind,
+  result: DebateResult,
+  meta: { models: string[]; style?: string; mode?: ArchiveEntry["mode"]; owner?: string }
+): string | undefined {
+  const dir = archiveDir();
+  if (!dir) return undefined;
+
+  const now = new Date();
+  const entry: ArchiveEntry = {
+    id: newArchiveId(now),
+    kind,
+    createdAt: now.getTime(),
+    topic: result.topic,
+    models: meta.models,
+    style: meta.style,
+    mode: meta.mode,
+    ...(meta.owner !== undefined ? { owner: meta.owner } : {}),
+    result,
+  };
+
+  try {
+    mkdirSync(dir, { recursive: true });
+    const path = join(dir, `${entry.id}.json`);
+    const tmp = `${path}.${process.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(entry, null, 2), "utf-8");
+    renameSync(tmp, path);
+    return entry.id;
+  } catch (err) {
+    console.error(
+      `[brainstorm] Could not archive ${kind} result: ${err instanceof Error ? err.message : String(err)}`
+    );
+    return undefined;
+  }
+}
+
+function readEntry(path: string): ArchiveEntry | undefined {
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as ArchiveEntry;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * An archived run by id. `owner` is the calling client over HTTP; another
+ * client's run is reported as missing rather than forbidden.
+ */
+export function getArchiveEntry(id: string, owner?: string): ArchiveEntry | undefined {
+  const dir = archiveDir();
+  if (!dir || !ARCHIVE_ID_PATTERN.test(id)) return undefined;
+  const path = join(dir, `${id}.json`);
+  const entry = existsSync(path) ? readEntry(path) : undefined;
+  return entry && entry.owner === owner ? entry : undefined;
+}
+
+function matchesKeyword(entry: ArchiveEntry, needle: string): boolean {
+  const haystacks = [
+    entry.topic,
+    entry.result.synthesis,
+    ...entry.result.rounds.flat().map((r) => r.content),
+  ];
+  return haystacks.some((h) => h?.toLowerCase().includes(needle));
+}
+
+/** Newest first; only the runs `owner` produced (see getArchiveEntry). */
+export function listArchive(filter: ArchiveFilter = {}, owner?: string): ArchiveEntry[] {
+  const dir = archiveDir();
+  if (!dir || !existsSync(dir)) return [];
+
+  const model = filter.model?.toLowerCase();
+  const keyword = filter.keyword?.toLowerCase();
+
+  // Ids sort chronologically, so the file listing already gives us order
+  // without opening every file first.
+  const files = readdirSync(dir)
+    .filter((f) => f.endsWith(".json"))
+    .sort()
+    .reverse();
+
+  const out: ArchiveEntry[] = [];
+  for (const file of files) {
+    const entry = readEntry(join(dir, file));
+    if (!entry || entry.owner !== owner) continue;
+    if (filter.kind && entry.kind !== filter.kind) continue;
+    if (filter.since !== undefined && entry.createdAt < filter.since) continue;
+    if (filter.until !== undefined && entry.createdAt > filter.until) continue;
+    if (filter.style && (entry.style || "freeform") !== filter.style) continue;
+    if (model && !entry.models.some((m) => m.toLowerCase().includes(model))) {
+      continue;
+    }
+    if (keyword && !matchesKeyword(entry, keyword)) continue;
+    out.push(entry);
+    if (filter.limit && out.length >= filter.limit) break;
+  }
+  return out;
+}
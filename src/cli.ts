@@ -1,4 +1,4 @@
-import { spawn } from "node:child_process";
+import { ChildProcess, spawn, spawnSync } from "node:child_process";
 import {
   accessSync,
   constants,
@@ -9,7 +9,8 @@ import {
 } from "node:fs";
 import { delimiter, join } from "node:path";
 import { tmpdir } from "node:os";
-import { CliSpec } from "./types.js";
+import { CancelledError, throwIfCancelled } from "./retry.js";
+import { CliSpec, ProgressCallback } from "./types.js";
 
 const DEFAULT_CLI_TIMEOUT_MS = Number(
   process.env.BRAINSTORM_CLI_TIMEOUT_MS || 300_000
@@ -309,13 +310,62 @@ interface SpawnResult {
   stderr: string;
   code: number | null;
   timedOut: boolean;
+  /** Killed because the caller's abort signal fired. */
+  cancelled: boolean;
+}
+
+// Agent CLIs start helpers of their own (MCP servers, language servers, a
+// shell per tool call). On POSIX each CLI leads its own process group so the
+// whole tree can be killed at once; Windows has taskkill /T for the same.
+const OWN_PROCESS_GROUP = process.platform !== "win32";
+
+/** CLI children still running, killed if this process exits first. */
+const liveChildren = new Set<ChildProcess>();
+let exitHookInstalled = false;
+
+/** Kill a CLI and everything it started, even if the CLI itself has already exited. */
+function killTree(child: ChildProcess): void {
+  if (child.pid === undefined) return;
+  if (!OWN_PROCESS_GROUP) {
+    // spawnSync so this also works from the exit hook.
+    const result = spawnSync("taskkill", ["/pid", String(child.pid), "/t", "/f"], {
+      stdio: "ignore",
+      windowsHide: true,
+    });
+    if (result.status !== 0) child.kill("SIGKILL");
+    return;
+  }
+  try {
+    process.kill(-child.pid, "SIGKILL");
+  } catch {
+    // The group is already gone; make sure the leader is too.
+    child.kill("SIGKILL");
+  }
+}
+
+/**
+ * Children in their own process group miss the terminal's Ctrl-C and
+ * outlive us unless killed on the way out.
+ */
+function track(child: ChildProcess): void {
+  if (!exitHookInstalled) {
+    exitHookInstalled = true;
+    process.on("exit", () => {
+      for (const live of liveChildren) killTree(live);
+    });
+  }
+  liveChildren.add(child);
+  // "close", not "exit": stdio stays open while anything the CLI started still runs.
+  child.once("close", () => liveChildren.delete(child));
 }
 
 function spawnCli(
   spec: CliSpec,
   args: string[],
   stdinData: string | undefined,
-  timeoutMs: number
+  timeoutMs: number,
+  onSpawn?: (pid: number) => void,
+  signal?: AbortSignal
 ): Promise<SpawnResult> {
   return new Promise((resolve, reject) => {
     const env = { ...process.env };
@@ -339,17 +389,30 @@ function spawnCli(
       env,
       stdio: ["pipe", "pipe", "pipe"],
       shell: false,
+      detached: OWN_PROCESS_GROUP,
+      windowsHide: true,
     });
+    // pid is undefined when the spawn itself failed; the error handler reports that.
+    if (child.pid !== undefined) {
+      track(child);
+      onSpawn?.(child.pid);
+    }
 
     let stdout = "";
     let stderr = "";
     let timedOut = false;
+    let cancelled = false;
     let settled = false;
 
     const timer = setTimeout(() => {
       timedOut = true;
-      child.kill("SIGKILL");
+      killTree(child);
     }, timeoutMs);
+    const onAbort = () => {
+      cancelled = true;
+      killTree(child);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
 
     child.stdout.on("data", (chunk) => {
       stdout += chunk.toString();
@@ -362,6 +425,7 @@ function spawnCli(
       if (settled) return;
       settled = true;
       clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
       if (err.code === "ENOENT") {
         reject(
           new Error(
@@ -377,7 +441,8 @@ function spawnCli(
       if (settled) return;
       settled = true;
       clearTimeout(timer);
-      resolve({ stdout, stderr, code, timedOut });
+      signal?.removeEventListener("abort", onAbort);
+      resolve({ stdout, stderr, code, timedOut, cancelled });
     });
 
     if (stdinData !== undefined) {
@@ -393,6 +458,7 @@ function spawnCli(
 
 /**
  * Run one prompt through a locally installed agent CLI and return its text.
+ * The child is killed when `signal` fires.
  */
 export async function callCliModel(
   spec: CliSpec,
@@ -400,8 +466,12 @@ export async function callCliModel(
   label: string,
   systemMessage: string,
   userMessage: string,
-  timeoutMs?: number
+  timeoutMs?: number,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
 ): Promise<string> {
+  throwIfCancelled(signal);
+  const log = onProgress || (() => {});
   const effectiveTimeout =
     timeoutMs ?? spec.timeoutMs ?? DEFAULT_CLI_TIMEOUT_MS;
   const model =
@@ -452,7 +522,33 @@ export async function callCliModel(
 
     if (spec.extraArgs?.length) args = [...args, ...spec.extraArgs];
 
-    const result = await spawnCli(spec, args, stdinData, effectiveTimeout);
+    const started = Date.now();
+    const result = await spawnCli(
+      spec,
+      args,
+      stdinData,
+      effectiveTimeout,
+      (pid) =>
+        log(`${label}: spawned ${spec.command} (pid ${pid})`, {
+          type: "cli_spawn",
+          modelId: label,
+        }),
+      signal
+    );
+    log(
+      `${label}: ${spec.command} exited ` +
+        (result.cancelled
+          ? "on cancellation"
+          : result.timedOut
+            ? "on timeout"
+            : `with code ${result.code}`) +
+        ` after ${((Date.now() - started) / 1000).toFixed(1)}s`,
+      { type: "cli_exit", modelId: label }
+    );
+
+    if (result.cancelled) {
+      throw new CancelledError(`Model ${label} cancelled (CLI: ${spec.command} killed)`);
+    }
 
     if (result.timedOut) {
       throw new Error(
@@ -9,6 +9,11 @@ export function getClient(model: ResolvedModel): OpenAI {
       `Provider ${model.provider} is a CLI provider and has no HTTP client.`
     );
   }
+  if (model.kind === "anthropic") {
+    throw new Error(
+      `Provider ${model.provider} speaks the Anthropic Messages API, not the OpenAI one.`
+    );
+  }
 
   const cacheKey = `${model.baseURL}::${model.apiKeyEnvVar}`;
 
@@ -30,6 +35,9 @@ export function getClient(model: ResolvedModel): OpenAI {
   const client = new OpenAI({
     apiKey,
     baseURL: model.baseURL,
+    // Retries are driven by our own policy (src/retry.ts) so they can be
+    // configured per provider and reported as progress.
+    maxRetries: 0,
   });
 
   clientCache.set(cacheKey, client);
@@ -0,0 +1,491 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs, ParseArgsConfig } from "node:util";
+import { runDebate, runQuick } from "./debate.js";
+import { CancelledError } from "./retry.js";
+import { DEFAULT_REVIEW_CHUNK_CHARS, DEFAULT_REVIEW_CONCURRENCY, runReview } from "./review.js";
+import { CATEGORIES } from "./findings.js";
+import { toSarif } from "./export.js";
+import { describeChange, gitDiff, STAGED, WORKING_TREE } from "./git.js";
+import { loadReviewRules } from "./rules.js";
+import { resolveRoles } from "./roles.js";
+import { getDefaultModels, listProviders } from "./models.js";
+import { archiveResult } from "./archive.js";
+import { formatArchiveNote, formatQuickResult, formatResult, formatReviewResult } from "./format.js";
+import { formatProviderList } from "./tools/list-models.js";
+import {
+  ArchiveKind,
+  DebateResult,
+  FallbackMap,
+  FindingCategory,
+  ProgressCallback,
+  ReviewVerdict,
+} from "./types.js";
+
+/** Success; for `review`, a verdict below the --fail-on threshold. */
+export const EXIT_OK = 0;
+/** `review` only: the verdict reached the --fail-on threshold. */
+export const EXIT_REVIEW_FAILED = 1;
+/** Bad arguments or unreadable input; nothing ran. */
+export const EXIT_USAGE = 2;
+/** The run failed: an error, or no participant answered. */
+export const EXIT_FAILED = 3;
+/** Stopped with Ctrl-C or SIGTERM; the conventional 128 + SIGINT. */
+export const EXIT_INTERRUPTED = 130;
+
+export const COMMANDS = ["debate", "quick", "review", "providers", "help"] as const;
+type Command = (typeof COMMANDS)[number];
+
+const STYLES = ["freeform", "redteam", "socratic"];
+
+/** Verdicts at or above each --fail-on level fail the command. */
+const FAIL_ON: Record<string, ReviewVerdict[]> = {
+  "needs-changes": ["needs changes"],
+  warnings: ["approve with warnings", "needs changes"],
+  never: [],
+};
+
+const USAGE = `Usage: brainstorm-mcp [command] [options]
+
+Without a command, runs the MCP server on stdio, or over HTTP with --http.
+
+Commands:
+  debate [topic]     Multi-round debate between models, then a synthesis
+  quick [topic]      Every model answers once, in parallel
+  review             Multi-model code review of a diff or a git range
+  providers          List configured providers
+
+The topic is the remaining arguments, --topic-file, or stdin.
+
+Common options:
+  -m, --models <ids>         Comma-separated provider:model ids (default: every provider)
+      --fallback <id=ids>    Substitutes for a participant, e.g. openai:gpt-5.4=deepseek:deepseek-chat
+      --max-cost <usd>       Spend ceiling
+  -f, --format <fmt>         markdown (default) or json
+  -q, --quiet                No progress on stderr
+
+debate / quick:
+      --topic-file <path>    Read the topic from a file ('-' for stdin)
+      --context-file <path>  Code, docs or logs the models should see
+  -s, --style <style>        freeform (default), redteam or socratic
+
+debate:
+  -r, --rounds <n>           Rounds (default 3, at most 10)
+      --synthesizer <id>     Model that writes the synthesis (default: the first)
+      --system-prompt <text> Replaces the round 1 system prompt
+      --consensus <mode>     track — report how positions converge; stop or
+                             until — also end once they do
+      --consensus-threshold <0-1>
+      --role <id=role>       A role preset or persona for a participant (repeatable)
+
+review:
+      --diff <path>          Unified diff to review ('-' for stdin, the default)
+      --repo <path>          Review a git repository instead; with --base/--head
+      --base <ref>           Ref to review against
+      --head <ref>           Ref to review (default HEAD), '${STAGED}' or '${WORKING_TREE}'
+      --include-files        Attach the new contents of touched files (with --repo)
+      --title <text>         PR title or change summary
+      --description <text>   PR description
+      --instructions <text>  Extra review instructions
+      --no-rules             Ignore repository and config review rules
+      --focus <list>         Comma-separated: ${CATEGORIES.join(", ")}
+  -r, --rounds <n>           Review rounds (default 1, at most 5)
+      --max-chunk-chars <n>  Split diffs longer than this (default ${DEFAULT_REVIEW_CHUNK_CHARS})
+      --concurrency <n>      Parts of a split diff reviewed at once (default ${DEFAULT_REVIEW_CONCURRENCY})
+      --sarif <path>         Also write the findings as SARIF 2.1.0
+      --fail-on <level>      needs-changes (default), warnings or never
+
+Exit codes: ${EXIT_OK} success, ${EXIT_REVIEW_FAILED} review verdict at --fail-on, ${EXIT_USAGE} usage error, ${EXIT_FAILED} run failed, ${EXIT_INTERRUPTED} interrupted.
+`;
+
+const COMMON_OPTIONS = {
+  models: { type: "string", short: "m" },
+  fallback: { type: "string", multiple: true },
+  "max-cost": { type: "string" },
+  format: { type: "string", short: "f", default: "markdown" },
+  quiet: { type: "boolean", short: "q" },
+  help: { type: "boolean", short: "h" },
+} satisfies ParseArgsConfig["options"];
+
+const TOPIC_OPTIONS = {
+  ...COMMON_OPTIONS,
+  "topic-file": { type: "string" },
+  "context-file": { type: "string" },
+  style: { type: "string", short: "s", default: "freeform" },
+} satisfies ParseArgsConfig["options"];
+
+const OPTIONS = {
+  debate: {
+    ...TOPIC_OPTIONS,
+    rounds: { type: "string", short: "r", default: "3" },
+    synthesizer: { type: "string" },
+    "system-prompt": { type: "string" },
+    consensus: { type: "string" },
+    "consensus-threshold": { type: "string" },
+    role: { type: "string", multiple: true },
+  },
+  quick: TOPIC_OPTIONS,
+  review: {
+    ...COMMON_OPTIONS,
+    diff: { type: "string" },
+    repo: { type: "string" },
+    base: { type: "string" },
+    head: { type: "string" },
+    "include-files": { type: "boolean" },
+    title: { type: "string" },
+    description: { type: "string" },
+    instructions: { type: "string" },
+    "no-rules": { type: "boolean" },
+    focus: { type: "string" },
+    rounds: { type: "string", short: "r", default: "1" },
+    "max-chunk-chars": { type: "string" },
+    concurrency: { type: "string" },
+    sarif: { type: "string" },
+    "fail-on": { type: "string", default: "needs-changes" },
+  },
+  providers: COMMON_OPTIONS,
+} satisfies Record<Exclude<Command, "help">, ParseArgsConfig["options"]>;
+
+/** Bad arguments or input: reported with the usage hint, exit code EXIT_USAGE. */
+class UsageError extends Error {}
+
+export function isCommand(arg: string | undefined): boolean {
+  return (
+    arg !== undefined &&
+    ((COMMANDS as readonly string[]).includes(arg) || arg === "--help" || arg === "-h")
+  );
+}
+
+/** `path`'s contents, or stdin for "-". */
+function readInput(path: string, what: string): string {
+  try {
+    return readFileSync(path === "-" ? 0 : path, "utf-8");
+  } catch (err) {
+    throw new UsageError(
+      `Cannot read ${what} from ${path === "-" ? "stdin" : path}: ` +
+        (err instanceof Error ? err.message : String(err))
+    );
+  }
+}
+
+function list(value: string | undefined): string[] | undefined {
+  const items = value?.split(",").map((s) => s.trim()).filter(Boolean);
+  return items?.length ? items : undefined;
+}
+
+function number(
+  value: string | undefined,
+  flag: string,
+  integer = false,
+  max = Infinity
+): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0 || (integer && !Number.isInteger(n))) {
+    throw new UsageError(`--${flag} must be a positive ${integer ? "integer" : "number"}, got "${value}"`);
+  }
+  if (n > max) throw new UsageError(`--${flag} must be at most ${max}, got "${value}"`);
+  return n;
+}
+
+/** A share from 0 to 1, both ends included. */
+function fraction(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!value.trim() || !(n >= 0 && n <= 1)) {
+    throw new UsageError(`--${flag} must be between 0 and 1, got "${value}"`);
+  }
+  return n;
+}
+
+function oneOf(value: string, allowed: string[], flag: string): string {
+  if (!allowed.includes(value)) {
+    throw new UsageError(`--${flag} must be one of ${allowed.join(", ")}, got "${value}"`);
+  }
+  return value;
+}
+
+/** `["a=b", "c=d"]` → { a: "b", c: "d" }; values may contain "=" themselves. */
+function pairs(values: string[] | undefined, flag: string): Record<string, string> | undefined {
+  if (!values?.length) return undefined;
+  const record: Record<string, string> = {};
+  for (const value of values) {
+    const eq = value.indexOf("=");
+    if (eq <= 0) throw new UsageError(`--${flag} takes id=value, got "${value}"`);
+    record[value.slice(0, eq).trim()] = value.slice(eq + 1).trim();
+  }
+  return record;
+}
+
+function fallbackMap(values: string[] | undefined): FallbackMap | undefined {
+  const record = pairs(values, "fallback");
+  if (!record) return undefined;
+  return Object.fromEntries(Object.entries(record).map(([id, subs]) => [id, list(subs) ?? []]));
+}
+
+/** Topic from the positional arguments, --topic-file, or stdin when it is piped. */
+function readTopic(positionals: string[], topicFile: string | undefined): string {
+  const topic =
+    topicFile !== undefined
+      ? readInput(topicFile, "the topic")
+      : positionals.length
+        ? positionals.join(" ")
+        : !process.stdin.isTTY
+          ? readInput("-", "the topic")
+          : "";
+  if (!topic.trim()) throw new UsageError("No topic: pass it as arguments, --topic-file or stdin");
+  return topic.trim();
+}
+
+function modelsFrom(value: string | undefined, minimum: number): string[] {
+  const models = list(value) ?? getDefaultModels();
+  if (models.length < minimum) {
+    throw new UsageError(
+      `Need at least ${minimum} model(s); ${models.length} configured. ` +
+        "Pass --models or add providers to brainstorm.config.json."
+    );
+  }
+  return models;
+}
+
+/** Progress on stderr, without the streamed text. */
+function progressLogger(quiet: boolean | undefined): ProgressCallback {
+  return (message, event) => {
+    if (quiet || event?.type === "model_delta") return;
+    console.error(`[brainstorm] ${message}`);
+  };
+}
+
+/** --help and --format, shared by every command. True when the usage was printed instead. */
+function printedHelp(values: { help?: boolean; format: string }): boolean {
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return true;
+  }
+  oneOf(values.format, ["markdown", "json"], "format");
+  return false;
+}
+
+/** Markdown, or the same payload the MCP tools attach as structured content. */
+function print(
+  format: string,
+  kind: ArchiveKind,
+  result: DebateResult,
+  markdown: (result: DebateResult) => string
+): void {
+  const archiveId = archiveResult(kind, result, {
+    models: [...new Set(result.rounds[0]?.map((r) => r.fallbackFor ?? r.modelId) ?? [])],
+    mode: "api",
+  });
+  if (format === "json") {
+    const payload = { kind, result, archiveId, ...(result.verdict ? { verdict: result.verdict } : {}) };
+    process.stdout.write(JSON.stringify(payload, null, 2) + "\n");
+  } else {
+    process.stdout.write(markdown(result) + formatArchiveNote(archiveId) + "\n");
+  }
+}
+
+/** Participants that failed in some round go to stderr; none answering at all is a failed run. */
+function exitCodeFor(result: DebateResult): number {
+  if (result.modelsFailed.length) {
+    console.error(`[brainstorm] Failed in some rounds: ${result.modelsFailed.join(", ")}`);
+  }
+  return result.rounds.some((round) => round.some((r) => !r.error)) ? EXIT_OK : EXIT_FAILED;
+}
+
+async function debate(args: string[], signal: AbortSignal): Promise<number> {
+  const { values, positionals } = parseArgs({ args, options: OPTIONS.debate, allowPositionals: true });
+  if (printedHelp(values)) return EXIT_OK;
+  const topic = readTopic(positionals, values["topic-file"]);
+  const models = modelsFrom(values.models, 2);
+  const consensus = values.consensus
+    ? (oneOf(values.consensus, ["track", "stop", "until"], "consensus") as
+        | "track"
+        | "stop"
+        | "until")
+    : undefined;
+  const threshold = fraction(values["consensus-threshold"], "consensus-threshold");
+
+  const result = await runDebate(topic, models, number(values.rounds, "rounds", true, 10)!, {
+    synthesizer: values.synthesizer,
+    systemPrompt: values["system-prompt"],
+    onProgress: progressLogger(values.quiet),
+    style: oneOf(values.style, STYLES, "style"),
+    context: values["context-file"] && readInput(values["context-file"], "the context"),
+    fallbacks: fallbackMap(values.fallback),
+    maxCostUsd: number(values["max-cost"], "max-cost"),
+    consensus,
+    consensusThreshold: threshold,
+    roles: resolveRoles(pairs(values.role, "role"), models),
+    signal,
+  });
+  print(values.format, "debate", result, formatResult);
+  return exitCodeFor(result);
+}
+
+async function quick(args: string[], signal: AbortSignal): Promise<number> {
+  const { values, positionals } = parseArgs({ args, options: OPTIONS.quick, allowPositionals: true });
+  if (printedHelp(values)) return EXIT_OK;
+  const topic = readTopic(positionals, values["topic-file"]);
+  const result = await runQuick(topic, modelsFrom(values.models, 1), {
+    context: values["context-file"] && readInput(values["context-file"], "the context"),
+    style: oneOf(values.style, STYLES, "style"),
+    onProgress: progressLogger(values.quiet),
+    fallbacks: fallbackMap(values.fallback),
+    maxCostUsd: number(values["max-cost"], "max-cost"),
+    signal,
+  });
+  print(values.format, "quick", result, formatQuickResult);
+  return exitCodeFor(result);
+}
+
+async function review(args: string[], signal: AbortSignal): Promise<number> {
+  const { values, positionals } = parseArgs({ args, options: OPTIONS.review, allowPositionals: true });
+  if (printedHelp(values)) return EXIT_OK;
+  if (positionals.length) throw new UsageError(`review takes no arguments, got "${positionals[0]}"`);
+  if (values.diff !== undefined && values.repo !== undefined) {
+    throw new UsageError("Pass either --diff or --repo, not both");
+  }
+  if (values["include-files"] && values.repo === undefined) {
+    throw new UsageError("--include-files needs --repo");
+  }
+  const failOn = FAIL_ON[oneOf(values["fail-on"], Object.keys(FAIL_ON), "fail-on")];
+  const focus = list(values.focus)?.map(
+    (c) => oneOf(c, [...CATEGORIES], "focus") as FindingCategory
+  );
+  const models = modelsFrom(values.models, 1);
+
+  let diff: string;
+  let title = values.title;
+  let description = values.description;
+  let fileContents: Record<string, string> | undefined;
+  let root = process.cwd();
+  if (values.repo !== undefined) {
+    const fromGit = await gitDiff({
+      repoPath: values.repo,
+      base: values.base,
+      head: values.head,
+      includeFileContents: values["include-files"],
+    });
+    if (!fromGit.diff.trim()) {
+      console.error(`[brainstorm] Nothing to review: no changes in ${fromGit.range}.`);
+      return EXIT_OK;
+    }
+    diff = fromGit.diff;
+    root = fromGit.root;
+    fileContents = fromGit.fileContents;
+    const described = describeChange(fromGit);
+    title ??= described.title;
+    description ??= described.description;
+  } else {
+    if (values.diff === undefined && process.stdin.isTTY) {
+      throw new UsageError("No diff: pass --diff, --repo, or pipe one to stdin");
+    }
+    diff = readInput(values.diff ?? "-", "the diff");
+    if (!diff.trim()) throw new UsageError("The diff is empty");
+  }
+
+  const result = await runReview(
+    {
+      diff,
+      title,
+      description,
+      instructions: values.instructions,
+      focus,
+      fileContents,
+      rules: values["no-rules"] ? undefined : loadReviewRules(root),
+    },
+    models,
+    {
+      onProgress: progressLogger(values.quiet),
+      fallbacks: fallbackMap(values.fallback),
+      maxCostUsd: number(values["max-cost"], "max-cost"),
+      maxChunkChars: number(values["max-chunk-chars"], "max-chunk-chars", true),
+      concurrency: number(values.concurrency, "concurrency", true),
+      rounds: number(values.rounds, "rounds", true, 5),
+      signal,
+    }
+  );
+  if (values.sarif) {
+    writeFileSync(values.sarif, JSON.stringify(toSarif(result), null, 2) + "\n", "utf-8");
+  }
+  print(values.format, "review", result, formatReviewResult);
+
+  const code = exitCodeFor(result);
+  if (code !== EXIT_OK) return code;
+  return result.verdict && failOn.includes(result.verdict) ? EXIT_REVIEW_FAILED : EXIT_OK;
+}
+
+function providers(args: string[]): number {
+  const { values, positionals } = parseArgs({ args, options: OPTIONS.providers, allowPositionals: true });
+  if (printedHelp(values)) return EXIT_OK;
+  if (positionals.length) throw new UsageError(`providers takes no arguments, got "${positionals[0]}"`);
+
+  if (values.format === "json") {
+    const described = listProviders().map((p) => ({
+      name: p.name,
+      kind: p.kind,
+      defaultModel: p.defaultModel,
+      ...(p.kind === "cli"
+        ? { command: p.cli?.command || p.name }
+        : {
+            baseURL: p.baseURL,
+            apiKeyEnv: p.apiKeyEnvVar,
+            apiKeyConfigured: p.apiKeyEnvVar === "NONE" || !!process.env[p.apiKeyEnvVar],
+          }),
+    }));
+    process.stdout.write(JSON.stringify(described, null, 2) + "\n");
+  } else {
+    process.stdout.write(formatProviderList() + "\n");
+  }
+  return EXIT_OK;
+}
+
+/**
+ * Run one command from the command line (`argv` without node and the
+ * script) and return the process exit code. Providers must already be loaded.
+ */
+export async function runCommand(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+  // CLI providers run in process groups of their own, out of reach of the
+  // terminal's Ctrl-C; cancelling the run is what stops them.
+  const interrupt = new AbortController();
+  const onSignal = () => {
+    if (interrupt.signal.aborted) process.exit(EXIT_INTERRUPTED);
+    console.error("[brainstorm] Interrupted — stopping model calls (again to quit at once)");
+    interrupt.abort();
+  };
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
+  try {
+    switch (command) {
+      case "debate":
+        return await debate(args, interrupt.signal);
+      case "quick":
+        return await quick(args, interrupt.signal);
+      case "review":
+        return await review(args, interrupt.signal);
+      case "providers":
+        return providers(args);
+      default:
+        process.stdout.write(USAGE);
+        return EXIT_OK;
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    // parseArgs rejects unknown or malformed flags with ERR_PARSE_ARGS_* errors.
+    const code = (err as NodeJS.ErrnoException).code ?? "";
+    if (err instanceof UsageError || code.startsWith("ERR_PARSE_ARGS")) {
+      console.error(`brainstorm-mcp ${command}: ${message}\nRun 'brainstorm-mcp help' for usage.`);
+      return EXIT_USAGE;
+    }
+    if (err instanceof CancelledError) {
+      console.error(`brainstorm-mcp ${command}: interrupted`);
+      return EXIT_INTERRUPTED;
+    }
+    console.error(`brainstorm-mcp ${command} failed: ${message}`);
+    return EXIT_FAILED;
+  } finally {
+    process.off("SIGINT", onSignal);
+    process.off("SIGTERM", onSignal);
+  }
+}
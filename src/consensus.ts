@@ -0,0 +1,144 @@
+import { PairAgreement, RoundConvergence, RoundResponse } from "./types.js";
+
+/** Round agreement at or above which a debate counts as converged. */
+export const DEFAULT_CONSENSUS_THRESHOLD = 0.55;
+
+/** How far `consensus: "until"` may extend a debate. */
+export const MAX_CONSENSUS_ROUNDS = 10;
+
+/**
+ * Appended to each round's system prompt in debates that track convergence,
+ * so positions can be compared. Other debates' prompts leave it out.
+ */
+export const POSITION_INSTRUCTIONS =
+  "\n\nEnd your response with a `## Position` section: your current stance in one " +
+  "sentence, then up to five key claims as `- ` bullets.";
+
+/** A participant's stance and key claims in one round. */
+export interface ModelPosition {
+  stance: string;
+  claims: string[];
+}
+
+const POSITION_HEADING = /^#{1,4}\s*(?:my\s+|final\s+)?position\b.*$/im;
+
+const STOPWORDS = new Set(
+  (
+    "the and for are but not you all any can had her was one our out has have this that " +
+    "with from they will would there their what which when who how why its than then them " +
+    "these those into onto also just more most some such only other over very should could " +
+    "may might must does did been being about because while where each both same use " +
+    "using used make makes like well yes"
+  ).split(" ")
+);
+
+function stripMarkdown(line: string): string {
+  return line
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/, "")
+    .replace(/[*_`>#]/g, "")
+    .trim();
+}
+
+/**
+ * The `## Position` section of a response. Answers without one — custom
+ * system prompts, the host's own turns — fall back to their first paragraph
+ * and their bullet points.
+ */
+export function extractPosition(text: string): ModelPosition {
+  const heading = [...text.matchAll(new RegExp(POSITION_HEADING, "gim"))].at(-1);
+  const section =
+    heading?.index !== undefined ? text.slice(heading.index + heading[0].length) : undefined;
+  const lines = (section ?? text).split(/\r?\n/);
+
+  const claims = lines
+    .filter((l) => /^\s*(?:[-*+]|\d+[.)])\s+/.test(l))
+    .map(stripMarkdown)
+    .filter(Boolean);
+  const stance =
+    lines.map((l) => l.trim()).find((l) => l && !/^(?:[-*+]|\d+[.)])\s|^#/.test(l)) ?? "";
+  return {
+    stance: stripMarkdown(stance),
+    claims: section ? claims.slice(0, 5) : claims.slice(0, 8),
+  };
+}
+
+/** Content words with a crude suffix strip, so "caches" and "caching" meet. */
+function terms(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9+#.-]*/g) ?? [])
+    .map((w) => w.replace(/[.-]+$/, ""))
+    .filter((w) => w.length > 2 && !STOPWORDS.has(w))
+    .map((w) => w.replace(/(?:ing|ed|es|s)$/, "") || w);
+}
+
+function termVector(position: ModelPosition): Map<string, number> {
+  const vector = new Map<string, number>();
+  // The stance counts double: it is the one-line answer to the question.
+  for (const [text, weight] of [
+    [position.stance, 2],
+    ...position.claims.map((c) => [c, 1] as const),
+  ] as const) {
+    for (const t of terms(text)) vector.set(t, (vector.get(t) ?? 0) + weight);
+  }
+  return vector;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const [t, w] of a) {
+    normA += w * w;
+    dot += w * (b.get(t) ?? 0);
+  }
+  for (const w of b.values()) normB += w * w;
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Per round, how closely the participants' positions agree (mean pairwise
+ * cosine similarity of their stance and claims, 0–1) and how far each
+ * participant moved since the round before. Failed responses are left out;
+ * rounds with fewer than two positions get no entry.
+ */
+export function measureConvergence(rounds: RoundResponse[][]): RoundConvergence[] {
+  const trajectory: RoundConvergence[] = [];
+  let previous = new Map<string, Map<string, number>>();
+
+  for (const [i, round] of rounds.entries()) {
+    const vectors = new Map<string, Map<string, number>>();
+    for (const resp of round) {
+      if (resp.error || !resp.content.trim()) continue;
+      vectors.set(resp.fallbackFor ?? resp.modelId, termVector(extractPosition(resp.content)));
+    }
+
+    const models = [...vectors.keys()];
+    const pairs: PairAgreement[] = [];
+    for (let a = 0; a < models.length; a++) {
+      for (let b = a + 1; b < models.length; b++) {
+        pairs.push({
+          models: [models[a], models[b]],
+          agreement: round2(cosine(vectors.get(models[a])!, vectors.get(models[b])!)),
+        });
+      }
+    }
+    const shift: Record<string, number> = {};
+    for (const [model, vector] of vectors) {
+      const before = previous.get(model);
+      if (before) shift[model] = round2(1 - cosine(before, vector));
+    }
+    previous = vectors;
+
+    if (pairs.length === 0) continue;
+    trajectory.push({
+      round: round[0]?.round ?? i + 1,
+      agreement: round2(pairs.reduce((sum, p) => sum + p.agreement, 0) / pairs.length),
+      pairs,
+      ...(Object.keys(shift).length ? { shift } : {}),
+    });
+  }
+  return trajectory;
+}
@@ -1,25 +1,66 @@
 import OpenAI from "openai";
 import { getClient } from "./client.js";
 import { callCliModel } from "./cli.js";
-import { isCliModel, resolveModel } from "./models.js";
+import { resolveModel } from "./models.js";
+import { acquireSlot, pauseProvider } from "./scheduler.js";
 import {
+  CancelledError,
+  fallbacksFor,
+  retryPolicyFor,
+  throwIfCancelled,
+  withRetry,
+} from "./retry.js";
+import { buildCompletionRequest, buildMessagesRequest } from "./generation.js";
+import { createMessage } from "./anthropic.js";
+import { withRole } from "./roles.js";
+import {
+  DEFAULT_CONSENSUS_THRESHOLD,
+  MAX_CONSENSUS_ROUNDS,
+  measureConvergence,
+  POSITION_INSTRUCTIONS,
+} from "./consensus.js";
+import {
+  callCost,
+  costOfResponses,
+  describeCost,
+  expectedCompletionTokens,
+  formatUsd,
+  projectCallCost,
+} from "./pricing.js";
+import {
+  CostBudget,
+  FallbackMap,
+  GenerationOptions,
+  ParticipantRole,
   ResolvedModel,
   RoundResponse,
   DebateResult,
   DebateStats,
+  ModelReply,
+  ModelUsageStats,
   ProgressCallback,
+  SynthesisResult,
+  TokenUsage,
 } from "./types.js";
 
-const DEFAULT_TIMEOUT_MS = 300_000; // 5 minutes per model call (gpt-5.x reasoning models can run long on rich prompts)
+const DEFAULT_TIMEOUT_MS = Number(
+  process.env.BRAINSTORM_TIMEOUT_MS || 300_000
+); // 5 minutes per model call (gpt-5.x reasoning models can run long on rich prompts)
 const MAX_CONTEXT_CHARS = 12_000; // truncate history per response beyond this
 
 // --- Style-aware prompt helpers ---
 
+/**
+ * `positions` asks for the `## Position` section measureConvergence reads —
+ * only when convergence is tracked, and after a custom prompt too.
+ */
 export function getRound1System(
   style?: string,
-  customSystemPrompt?: string
+  customSystemPrompt?: string,
+  positions = false
 ): string {
-  if (customSystemPrompt) return customSystemPrompt;
+  const ending = positions ? POSITION_INSTRUCTIONS : "";
+  if (customSystemPrompt) return customSystemPrompt + ending;
 
   switch (style) {
     case "redteam":
@@ -28,20 +69,23 @@ export function getRound1System(
         "Your job is to find flaws, risks, and weaknesses in the given topic or proposal. " +
         "Be critical, thorough, and specific. Challenge assumptions, identify edge cases, " +
         "and propose failure scenarios. Do not be agreeable — your value comes from finding " +
-        "problems others miss."
+        "problems others miss." +
+        ending
       );
     case "socratic":
       return (
         "You are participating in a Socratic dialogue. Rather than stating positions, " +
         "focus on asking probing questions that expose assumptions, contradictions, and gaps " +
         "in reasoning. When you do take a position, defend it by addressing the strongest " +
-        "counterarguments. Push for deeper understanding, not consensus."
+        "counterarguments. Push for deeper understanding, not consensus." +
+        ending
       );
     default:
       return (
         "You are participating in a multi-model brainstorming debate. " +
         "Provide your best thinking on the given topic. " +
-        "Be specific, creative, and substantive."
+        "Be specific, creative, and substantive." +
+        ending
       );
   }
 }
@@ -49,8 +93,10 @@ export function getRound1System(
 export function getRoundNSystem(
   roundNumber: number,
   totalRounds: number,
-  style?: string
+  style?: string,
+  positions = false
 ): string {
+  const ending = positions ? POSITION_INSTRUCTIONS : "";
   const base =
     `You are in round ${roundNumber} of ${totalRounds} of a multi-model brainstorming debate. ` +
     `You can see all previous responses from all participants. `;
@@ -61,20 +107,23 @@ export function getRoundNSystem(
         base +
         "Continue your adversarial analysis. Challenge the strongest arguments from the " +
         "previous round. Look for overlooked risks, unstated assumptions, and potential failure modes. " +
-        "If others found valid flaws, acknowledge them and dig deeper."
+        "If others found valid flaws, acknowledge them and dig deeper." +
+        ending
       );
     case "socratic":
       return (
         base +
         "Continue the Socratic dialogue. Ask deeper questions based on previous responses. " +
         "Challenge the strongest-seeming answers. Push toward fundamental principles and " +
-        "uncover hidden assumptions."
+        "uncover hidden assumptions." +
+        ending
       );
     default:
       return (
         base +
         "Build upon the best ideas, challenge weak reasoning, add new perspectives, " +
-        "and refine your position. Be specific about what you agree/disagree with and why."
+        "and refine your position. Be specific about what you agree/disagree with and why." +
+        ending
       );
   }
 }
@@ -117,147 +166,469 @@ export function buildEffectiveTopic(
   return `Context:\n${context}\n\nTopic: ${topic}`;
 }
 
-// Rough cost per 1M tokens (input + output blended estimate)
-const COST_PER_MILLION: Record<string, number> = {
-  "gpt-4o": 5,
-  "gpt-4.1": 4,
-  "gpt-5": 10,
-  "gpt-5-mini": 1.5,
-  "gpt-5-nano": 0.5,
-  "gpt-5-pro": 30,
-  "gpt-5.1": 12,
-  "gpt-5.2": 15,
-  "gpt-5.2-pro": 40,
-  "gpt-5.3-codex": 20,
-  "gpt-5.4": 10,
-  "gpt-5.4-pro": 50,
-  "o3": 20,
-  "o4-mini": 2,
-  "deepseek-chat": 0.5,
-  "deepseek-reasoner": 2,
-  "gemini-2.5-pro": 5,
-  "gemini-2.5-flash": 0.5,
-  "gemini-2.0-flash": 0.3,
-};
-const DEFAULT_COST_PER_MILLION = 3;
+/**
+ * User message for rounds 2+. Shared by the API, interactive and hosted
+ * paths so a debate reads the same whichever way it is executed.
+ */
+export function buildRoundUserMessage(
+  effectiveTopic: string,
+  history: string,
+  roundNumber: number
+): string {
+  return (
+    `Original topic: ${effectiveTopic}\n\n${history}\n\n` +
+    `Now provide your refined response for round ${roundNumber}. Consider all perspectives above.`
+  );
+}
+
+export function buildSynthesisUserMessage(
+  effectiveTopic: string,
+  history: string
+): string {
+  return (
+    `Original topic: ${effectiveTopic}\n\n${history}\n\n` +
+    `Please synthesize the above debate into a structured verdict.`
+  );
+}
 
 export function estimateTokens(text: string): number {
   return Math.ceil(text.length / 4);
 }
 
-export function estimateCost(models: string[], totalTokens: number): string {
-  if (!models.length) return "~$0.0000";
+/** Usage for a call the provider didn't meter for us. */
+export function estimateUsage(promptText: string, completionText: string): TokenUsage {
+  return {
+    promptTokens: estimateTokens(promptText),
+    completionTokens: estimateTokens(completionText),
+    estimated: true,
+  };
+}
+
+// Some OpenAI-compatible servers (older Ollama builds, proxies) omit usage.
+function usageFromOpenAI(usage: OpenAI.CompletionUsage | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  const reasoning = usage.completion_tokens_details?.reasoning_tokens;
+  const cached = usage.prompt_tokens_details?.cached_tokens;
+  return {
+    promptTokens: usage.prompt_tokens ?? 0,
+    completionTokens: usage.completion_tokens ?? 0,
+    ...(reasoning ? { reasoningTokens: reasoning } : {}),
+    ...(cached ? { cachedTokens: cached } : {}),
+  };
+}
+
+function addUsage(into: TokenUsage, usage: TokenUsage): void {
+  into.promptTokens += usage.promptTokens;
+  into.completionTokens += usage.completionTokens;
+  if (usage.reasoningTokens) {
+    into.reasoningTokens = (into.reasoningTokens ?? 0) + usage.reasoningTokens;
+  }
+  if (usage.cachedTokens) {
+    into.cachedTokens = (into.cachedTokens ?? 0) + usage.cachedTokens;
+  }
+  if (usage.estimated) into.estimated = true;
+}
+
+/**
+ * Aggregate per-call usage into debate stats. Responses without a usage block
+ * (the host's own turns, hosted-mode responses) are counted from their text.
+ */
+export function buildDebateStats(
+  rounds: RoundResponse[][],
+  synthesis: SynthesisResult | undefined,
+  modelIdentifiers: string[],
+  totalDurationMs: number
+): DebateStats {
+  const total: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+  const perModel: Record<string, ModelUsageStats> = {};
+  const perRound: TokenUsage[] = [];
+  let costUsd = 0;
+  let queueWaitMs = 0;
+
+  const record = (modelId: string, usage: TokenUsage, queuedMs = 0) => {
+    addUsage(total, usage);
+    const entry = (perModel[modelId] ??= {
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      costUsd: 0,
+    });
+    entry.calls++;
+    addUsage(entry, usage);
+    const cost = callCost(modelId, usage);
+    entry.costUsd = (entry.costUsd ?? 0) + cost;
+    costUsd += cost;
+    if (queuedMs) {
+      entry.queueWaitMs = (entry.queueWaitMs ?? 0) + queuedMs;
+      queueWaitMs += queuedMs;
+    }
+  };
 
-  let totalCostPerMillion = 0;
-  let cliCount = 0;
-  for (const id of models) {
-    // CLI providers run on an existing subscription — no metered API spend.
-    if (isCliModel(id)) {
-      cliCount++;
-      continue;
+  for (const round of rounds) {
+    const roundUsage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+    for (const resp of round) {
+      if (resp.error && !resp.usage) continue;
+      const usage = resp.usage ?? estimateUsage("", resp.content);
+      addUsage(roundUsage, usage);
+      record(resp.modelId, usage, resp.queuedMs);
     }
-    const modelName = id.split(":")[1] || id;
-    totalCostPerMillion +=
-      COST_PER_MILLION[modelName] ?? DEFAULT_COST_PER_MILLION;
+    perRound.push(roundUsage);
+  }
+
+  let synthesisUsage: TokenUsage | undefined;
+  // A synthesis skipped for budget never ran, so there is nothing to count.
+  if (synthesis?.content && !synthesis.budgetNote) {
+    synthesisUsage = synthesis.usage ?? estimateUsage("", synthesis.content);
+    record(synthesis.modelId ?? "synthesis", synthesisUsage, synthesis.queuedMs);
   }
 
-  const avgCostPerMillion = totalCostPerMillion / models.length;
-  const cost = (totalTokens / 1_000_000) * avgCostPerMillion;
-  const suffix =
-    cliCount === models.length
-      ? " (all models via CLI subscriptions)"
-      : cliCount
-        ? ` (${cliCount} of ${models.length} via CLI subscriptions)`
-        : "";
-  return `~$${cost.toFixed(4)}${suffix}`;
+  const totalTokens = total.promptTokens + total.completionTokens;
+  return {
+    totalDurationMs,
+    estimatedTokens: totalTokens,
+    estimatedCost: describeCost(costUsd, modelIdentifiers),
+    costUsd,
+    promptTokens: total.promptTokens,
+    completionTokens: total.completionTokens,
+    ...(total.reasoningTokens ? { reasoningTokens: total.reasoningTokens } : {}),
+    usageEstimated: !!total.estimated,
+    perModel,
+    perRound,
+    ...(synthesisUsage ? { synthesisUsage } : {}),
+    ...(queueWaitMs ? { queueWaitMs } : {}),
+  };
 }
 
+/**
+ * One call to `model`, queued behind its provider's limits (see
+ * scheduler.ts). Each API attempt queues on its own, so a retry counts as a
+ * fresh request and no slot is held through a backoff.
+ */
 async function callModel(
   model: ResolvedModel,
   label: string,
   systemMessage: string,
   userMessage: string,
-  timeoutOverrideMs?: number
-): Promise<string> {
+  timeoutOverrideMs?: number,
+  onProgress?: ProgressCallback,
+  generation?: GenerationOptions,
+  signal?: AbortSignal
+): Promise<ModelReply> {
+  let queuedMs = 0;
+  const scheduled = async (call: () => Promise<ModelReply>): Promise<ModelReply> => {
+    const slot = await acquireSlot(
+      model,
+      estimateTokens(systemMessage + userMessage),
+      signal,
+      (position) =>
+        onProgress?.(`${label} queued for ${model.provider} limits (position ${position})`, {
+          type: "model_queued",
+          modelId: label,
+        })
+    );
+    queuedMs += slot.queuedMs;
+    try {
+      const reply = await call();
+      slot.release(reply.usage.promptTokens + reply.usage.completionTokens);
+      return reply;
+    } catch (err) {
+      slot.release();
+      throw err;
+    }
+  };
+
+  let reply: ModelReply;
   if (model.kind === "cli") {
-    if (!model.cli) {
+    const cli = model.cli;
+    if (!cli) {
       throw new Error(`Provider ${model.provider} is missing its CLI configuration`);
     }
-    // CLI timeouts default separately (BRAINSTORM_CLI_TIMEOUT_MS) — agent CLIs
-    // spin up a whole session per call and run longer than a raw API request.
-    return callCliModel(
-      model.cli,
-      model.modelId,
-      label,
+    reply = await scheduled(async () => {
+      // CLI timeouts default separately (BRAINSTORM_CLI_TIMEOUT_MS) — agent CLIs
+      // spin up a whole session per call and run longer than a raw API request.
+      const content = await callCliModel(
+        cli,
+        model.modelId,
+        label,
+        systemMessage,
+        userMessage,
+        timeoutOverrideMs,
+        onProgress,
+        signal
+      );
+      // CLIs print text only — no usage block to read.
+      return {
+        content,
+        usage: estimateUsage(systemMessage + userMessage, content),
+      };
+    });
+  } else {
+    const policy = retryPolicyFor(model);
+    reply = await withRetry(
+      policy,
+      () =>
+        scheduled(() =>
+          callApiModel(
+            model,
+            label,
+            systemMessage,
+            userMessage,
+            timeoutOverrideMs ?? DEFAULT_TIMEOUT_MS,
+            onProgress,
+            generation,
+            signal
+          )
+        ),
+      ({ attempt, delayMs, reason, status }) => {
+        // The other calls queued for this provider would only be refused too.
+        if (status === 429) pauseProvider(model, delayMs);
+        onProgress?.(
+          `${label} ${reason} — retrying in ${(delayMs / 1000).toFixed(1)}s ` +
+            `(attempt ${attempt}/${policy.maxAttempts})`,
+          { type: "model_retry", modelId: label, attempt, delayMs, error: reason }
+        );
+      },
+      signal
+    );
+  }
+  return queuedMs ? { ...reply, queuedMs } : reply;
+}
+
+/**
+ * Streaming is on unless the provider sets `"stream": false` or
+ * BRAINSTORM_STREAM=off. Some OpenAI-compatible servers mishandle
+ * `stream_options`, hence the per-provider switch.
+ */
+function streamingEnabled(model: ResolvedModel): boolean {
+  if (model.stream !== undefined) return model.stream;
+  return !/^(0|false|no|off)$/i.test(process.env.BRAINSTORM_STREAM || "");
+}
+
+// Streamed text is forwarded in batches — one progress message per model per
+// interval, not one per token.
+const STREAM_PROGRESS_INTERVAL_MS = 1_000;
+const STREAM_PROGRESS_MAX_CHARS = 200;
+
+/** One-line excerpt of freshly streamed text for a progress message. */
+function deltaExcerpt(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > STREAM_PROGRESS_MAX_CHARS
+    ? "…" + flat.slice(-STREAM_PROGRESS_MAX_CHARS)
+    : flat;
+}
+
+/**
+ * Batch streamed text into `model_delta` progress events, appending it to
+ * `partial` as it arrives so a timeout can still hand back whatever was
+ * written. Call `flush` once the stream ends.
+ */
+function deltaReporter(
+  label: string,
+  partial: { content: string },
+  onProgress?: ProgressCallback
+): { push(text: string): void; flush(): void } {
+  let pending = "";
+  let lastReport = Date.now();
+
+  const flush = () => {
+    if (!pending.trim()) return;
+    onProgress?.(
+      `${label} (${partial.content.length} chars): ${deltaExcerpt(pending)}`,
+      {
+        type: "model_delta",
+        modelId: label,
+        chars: partial.content.length,
+        delta: pending,
+      }
+    );
+    pending = "";
+    lastReport = Date.now();
+  };
+
+  return {
+    push(text: string) {
+      partial.content += text;
+      pending += text;
+      if (Date.now() - lastReport >= STREAM_PROGRESS_INTERVAL_MS) flush();
+    },
+    flush,
+  };
+}
+
+async function streamCompletion(
+  client: OpenAI,
+  body: OpenAI.ChatCompletionCreateParamsNonStreaming,
+  requestOptions: OpenAI.RequestOptions,
+  onText: (text: string) => void
+): Promise<{ usage?: OpenAI.CompletionUsage; finishReason?: string; refusal: string }> {
+  const stream = await client.chat.completions.create(
+    { ...body, stream: true, stream_options: { include_usage: true } },
+    requestOptions
+  );
+
+  let usage: OpenAI.CompletionUsage | undefined;
+  let finishReason: string | undefined;
+  let refusal = "";
+
+  for await (const chunk of stream) {
+    // The usage chunk arrives last, with an empty choices array.
+    if (chunk.usage) usage = chunk.usage;
+    const choice = chunk.choices[0];
+    if (!choice) continue;
+    if (choice.finish_reason) finishReason = choice.finish_reason;
+    if (choice.delta?.refusal) refusal += choice.delta.refusal;
+    if (choice.delta?.content) onText(choice.delta.content);
+  }
+
+  return { usage, finishReason, refusal };
+}
+
+/**
+ * One attempt against an OpenAI-compatible endpoint, or an Anthropic
+ * Messages endpoint for "anthropic" providers.
+ */
+async function completeOnce(
+  model: ResolvedModel,
+  systemMessage: string,
+  userMessage: string,
+  signal: AbortSignal,
+  onText: (text: string) => void,
+  generation?: GenerationOptions
+): Promise<{
+  content?: string | null;
+  usage?: TokenUsage;
+  finishReason?: string;
+  refusal?: string | null;
+}> {
+  const stream = streamingEnabled(model);
+
+  if (model.kind === "anthropic") {
+    const { body, headers } = buildMessagesRequest(
+      model,
       systemMessage,
       userMessage,
-      timeoutOverrideMs
+      generation
     );
+    const reply = await createMessage(model, body, {
+      signal,
+      headers,
+      stream,
+      onText,
+    });
+    return { ...reply, finishReason: reply.stopReason };
   }
 
-  const timeoutMs = timeoutOverrideMs ?? DEFAULT_TIMEOUT_MS;
   const client = getClient(model);
+  const messages: OpenAI.ChatCompletionMessageParam[] = [
+    { role: "system", content: systemMessage },
+    { role: "user", content: userMessage },
+  ];
+  const { body, headers } = buildCompletionRequest(model, messages, generation);
+
+  if (stream) {
+    const { usage, finishReason, refusal } = await streamCompletion(
+      client,
+      body,
+      { signal, headers },
+      onText
+    );
+    return { usage: usageFromOpenAI(usage), finishReason, refusal };
+  }
+
+  const response = await client.chat.completions.create(body, { signal, headers });
+  const choice = response.choices[0];
+  return {
+    content: choice?.message?.content,
+    usage: usageFromOpenAI(response.usage),
+    finishReason: choice?.finish_reason,
+    refusal: choice?.message?.refusal,
+  };
+}
+
+/**
+ * A single HTTP attempt, with the per-call timeout and partial-output rescue.
+ * `signal` aborts the request outright: a cancelled call keeps nothing.
+ */
+async function callApiModel(
+  model: ResolvedModel,
+  label: string,
+  systemMessage: string,
+  userMessage: string,
+  timeoutMs: number,
+  onProgress?: ProgressCallback,
+  generation?: GenerationOptions,
+  signal?: AbortSignal
+): Promise<ModelReply> {
+  throwIfCancelled(signal);
   const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  const partial = { content: "" };
+  const seconds = Math.round(timeoutMs / 1000);
+  const deltas = deltaReporter(label, partial, onProgress);
+
+  // A streamed answer that ran out of time is still worth reading.
+  const truncatedReply = (): ModelReply => {
+    onProgress?.(
+      `${label} timed out after ${seconds}s — keeping ${partial.content.length} chars of partial output`
+    );
+    return {
+      content: partial.content,
+      usage: estimateUsage(systemMessage + userMessage, partial.content),
+      truncated: true,
+    };
+  };
 
   try {
-    const useNewTokenParam =
-      /^(gpt-5|o[0-9])/.test(model.modelId);
-
-    const messages: OpenAI.ChatCompletionMessageParam[] = [
-      { role: "system", content: systemMessage },
-      { role: "user", content: userMessage },
-    ];
-
-    // gpt-5.x and o-series reasoning models reject non-default temperature
-    // ("Only the default (1) value is supported."). They also use
-    // max_completion_tokens instead of max_tokens. Older models (gpt-4.x
-    // etc.) still accept the temperature: 0.7 we want for brainstorm
-    // creativity. Branch accordingly.
-    const response = useNewTokenParam
-      ? await client.chat.completions.create(
-          {
-            model: model.modelId,
-            messages,
-            max_completion_tokens: 8192,
-          },
-          { signal: controller.signal }
-        )
-      : await client.chat.completions.create(
-          {
-            model: model.modelId,
-            messages,
-            temperature: 0.7,
-            max_tokens: 4096,
-          },
-          { signal: controller.signal }
-        );
+    const reply = await completeOnce(
+      model,
+      systemMessage,
+      userMessage,
+      controller.signal,
+      deltas.push,
+      generation
+    );
+    deltas.flush();
+    // Depending on timing, an abort can end a stream quietly rather than
+    // throw.
+    if (signal?.aborted) throw new CancelledError(`Model ${label} cancelled`);
+    if (timedOut) {
+      if (partial.content) return truncatedReply();
+      throw new Error(`Model ${label} timed out after ${seconds}s`);
+    }
 
-    const choice = response.choices[0];
-    const content = choice?.message?.content;
+    const content = reply.content ?? partial.content;
     if (!content) {
-      const finishReason = choice?.finish_reason || "unknown";
-      const refusal = (choice?.message as any)?.refusal;
-      const detail = refusal
-        ? `refusal: ${refusal}`
-        : `finish_reason: ${finishReason}`;
+      const detail = reply.refusal
+        ? `refusal: ${reply.refusal}`
+        : `finish_reason: ${reply.finishReason || "unknown"}`;
       throw new Error(
         `Model ${label} returned an empty response (${detail})`
       );
     }
-    return content;
+    return {
+      content,
+      usage: reply.usage ?? estimateUsage(systemMessage + userMessage, content),
+    };
   } catch (err: unknown) {
+    if (signal?.aborted) throw new CancelledError(`Model ${label} cancelled`);
     if (
-      err instanceof Error &&
-      (err.name === "AbortError" || err.message.includes("aborted"))
+      timedOut ||
+      (err instanceof Error &&
+        (err.name === "AbortError" || err.message.includes("aborted")))
     ) {
-      throw new Error(
-        `Model ${label} timed out after ${Math.round(timeoutMs / 1000)}s`
-      );
+      if (partial.content) return truncatedReply();
+      throw new Error(`Model ${label} timed out after ${seconds}s`);
     }
     throw err;
   } finally {
     clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
   }
 }
 
@@ -293,7 +664,12 @@ export function buildHistoryContext(rounds: RoundResponse[][]): string {
             content.slice(0, maxPerResponse) +
             "\n[...truncated for context limits]";
         }
-        roundLines.push(`[${resp.modelId}]:\n${content}\n`);
+        let who = resp.fallbackFor
+          ? `${resp.modelId}, standing in for ${resp.fallbackFor}`
+          : resp.modelId;
+        if (resp.role) who += ` — ${resp.role}`;
+        if (resp.truncated) content += "\n[...cut off at the time limit]";
+        roundLines.push(`[${who}]:\n${content}\n`);
       }
     }
     sections.push(roundLines.join("\n"));
@@ -302,8 +678,15 @@ export function buildHistoryContext(rounds: RoundResponse[][]): string {
   return `=== Previous Responses ===\n\n${sections.join("\n\n")}`;
 }
 
+/** A participant's reply, and which model actually gave it. */
+interface RoundReply extends ModelReply {
+  modelId: string;
+  /** The participant's own error, when a fallback answered instead. */
+  fallbackReason?: string;
+}
+
 function collectRoundResponses(
-  results: PromiseSettledResult<string>[],
+  results: PromiseSettledResult<RoundReply>[],
   models: { resolved: ResolvedModel; label: string }[],
   round: number,
   failedSet: Set<string>
@@ -311,7 +694,18 @@ function collectRoundResponses(
   return results.map((result, idx) => {
     const label = models[idx].label;
     if (result.status === "fulfilled") {
-      return { modelId: label, round, content: result.value };
+      const reply = result.value;
+      return {
+        modelId: reply.modelId,
+        round,
+        content: reply.content,
+        usage: reply.usage,
+        ...(reply.truncated ? { truncated: true } : {}),
+        ...(reply.queuedMs ? { queuedMs: reply.queuedMs } : {}),
+        ...(reply.modelId !== label
+          ? { fallbackFor: label, fallbackReason: reply.fallbackReason }
+          : {}),
+      };
     } else {
       const errMsg =
         result.reason instanceof Error
@@ -323,6 +717,235 @@ function collectRoundResponses(
   });
 }
 
+function replySize(reply: ModelReply): string {
+  return `${reply.content.length} chars${reply.truncated ? ", cut off at the time limit" : ""}`;
+}
+
+/**
+ * One participant's call within a round, bracketed by start/finish progress
+ * events so hosts see each model land as it finishes rather than all at once.
+ * When the participant fails for good, its fallbacks are tried in order and
+ * the first to answer takes its seat for this round. A cancelled call is
+ * not handed to a fallback.
+ */
+async function callRoundModel(
+  m: { resolved: ResolvedModel; label: string },
+  round: number,
+  totalRounds: number,
+  systemMessage: string,
+  userMessage: string,
+  log: ProgressCallback,
+  fallbacks: string[] = [],
+  generation?: GenerationOptions,
+  signal?: AbortSignal
+): Promise<RoundReply> {
+  const base = { modelId: m.label, round, totalRounds };
+  log(`Round ${round}: ${m.label} thinking...`, { type: "model_start", ...base });
+
+  let primaryError: string;
+  try {
+    const reply = await callModel(
+      m.resolved,
+      m.label,
+      systemMessage,
+      userMessage,
+      undefined,
+      log,
+      generation,
+      signal
+    );
+    log(`Round ${round}: ${m.label} responded (${replySize(reply)})`, {
+      type: "model_done",
+      ...base,
+      chars: reply.content.length,
+    });
+    return { ...reply, modelId: m.label };
+  } catch (err) {
+    primaryError = err instanceof Error ? err.message : String(err);
+    if (!fallbacks.length || err instanceof CancelledError) {
+      log(`Round ${round}: ${m.label} failed — ${primaryError}`, {
+        type: "model_failed",
+        ...base,
+        error: primaryError,
+      });
+      throw err;
+    }
+  }
+
+  let lastError = primaryError;
+  for (const id of fallbacks) {
+    log(`Round ${round}: ${m.label} failed (${lastError}) — falling back to ${id}`, {
+      type: "model_fallback",
+      ...base,
+      fallbackModelId: id,
+      error: lastError,
+    });
+    try {
+      const reply = await callModel(
+        resolveModel(id),
+        id,
+        systemMessage,
+        userMessage,
+        undefined,
+        log,
+        generation,
+        signal
+      );
+      log(
+        `Round ${round}: ${id} responded for ${m.label} (${replySize(reply)})`,
+        { type: "model_done", ...base, chars: reply.content.length }
+      );
+      return { ...reply, modelId: id, fallbackReason: primaryError };
+    } catch (err) {
+      if (err instanceof CancelledError) throw err;
+      lastError = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  const error = `${primaryError} (fallbacks ${fallbacks.join(", ")} also failed)`;
+  log(`Round ${round}: ${m.label} failed — ${error}`, {
+    type: "model_failed",
+    ...base,
+    error,
+  });
+  throw new Error(error);
+}
+
+/** System and user message every participant receives in a given round. */
+function roundMessages(
+  topic: string,
+  roundNumber: number,
+  totalRounds: number,
+  previousRounds: RoundResponse[][],
+  systemPrompt?: string,
+  style?: string,
+  positions?: boolean
+): { system: string; user: string } {
+  if (roundNumber === 1) {
+    return { system: getRound1System(style, systemPrompt, positions), user: topic };
+  }
+  // Rounds 2+: refinement with full history
+  const history = buildHistoryContext(previousRounds);
+  return {
+    system: getRoundNSystem(roundNumber, totalRounds, style, positions),
+    user: buildRoundUserMessage(topic, history, roundNumber),
+  };
+}
+
+function synthesisMessages(
+  topic: string,
+  allRounds: RoundResponse[][],
+  style?: string,
+  customSynthesisPrompt?: string
+): { system: string; user: string } {
+  return {
+    system: customSynthesisPrompt || getSynthesisSystem(style),
+    user: buildSynthesisUserMessage(topic, buildHistoryContext(allRounds)),
+  };
+}
+
+/**
+ * Expected USD for one round: the prompt each participant would be sent, plus
+ * an answer as long as that model's average so far.
+ */
+export function projectRoundCost(
+  topic: string,
+  modelIdentifiers: string[],
+  roundNumber: number,
+  totalRounds: number,
+  previousRounds: RoundResponse[][],
+  systemPrompt?: string,
+  style?: string,
+  positions?: boolean
+): number {
+  const { system, user } = roundMessages(
+    topic,
+    roundNumber,
+    totalRounds,
+    previousRounds,
+    systemPrompt,
+    style,
+    positions
+  );
+  const promptTokens = estimateTokens(system + user);
+  return modelIdentifiers.reduce(
+    (sum, id) =>
+      sum +
+      projectCallCost(id, promptTokens, expectedCompletionTokens(id, previousRounds)),
+    0
+  );
+}
+
+/**
+ * Expected USD for the synthesis call. The history it sees is capped at
+ * MAX_CONTEXT_CHARS, so projecting from the rounds so far stays close even
+ * before the last round has run.
+ */
+export function projectSynthesisCost(
+  topic: string,
+  allRounds: RoundResponse[][],
+  synthesizerIdentifier: string,
+  style?: string,
+  customSynthesisPrompt?: string
+): number {
+  const { system, user } = synthesisMessages(
+    topic,
+    allRounds,
+    style,
+    customSynthesisPrompt
+  );
+  return projectCallCost(
+    synthesizerIdentifier,
+    estimateTokens(system + user),
+    expectedCompletionTokens(synthesizerIdentifier, allRounds)
+  );
+}
+
+/**
+ * Why spending `projectedUsd` more would break the budget, or undefined when
+ * it fits (or there is no budget).
+ */
+export function checkBudget(
+  budget: CostBudget | undefined,
+  projectedUsd: number
+): string | undefined {
+  if (!budget || budget.spentUsd + projectedUsd <= budget.maxCostUsd) {
+    return undefined;
+  }
+  return (
+    `projected spend ${formatUsd(budget.spentUsd + projectedUsd)} ` +
+    `would exceed the ${formatUsd(budget.maxCostUsd)} budget`
+  );
+}
+
+/** Refusal for a run whose first step alone would already break the budget. */
+export function overBudgetError(reason: string): Error {
+  return new Error(
+    `${reason} before anything ran — raise maxCostUsd or use fewer or cheaper models.`
+  );
+}
+
+export interface RoundOptions {
+  systemPrompt?: string;
+  onProgress?: ProgressCallback;
+  style?: string;
+  /** Per-participant substitutes, on top of the `fallbacks` config section. */
+  fallbacks?: FallbackMap;
+  /** Per-call request options, layered over each model's configured ones. */
+  generation?: GenerationOptions;
+  /**
+   * Exact messages for every participant, instead of the debate's round
+   * prompts (e.g. a review's cross-examination rounds).
+   */
+  messages?: { system: string; user: string };
+  /** Participant → role, stated at the top of that participant's system message. */
+  roles?: Record<string, ParticipantRole>;
+  /** Ask for a `## Position` section, for debates that track convergence. */
+  positions?: boolean;
+  /** Aborts every call in the round; the round then throws CancelledError. */
+  signal?: AbortSignal;
+}
+
 /**
  * Run a single round with external models. Used by the interactive flow.
  */
@@ -332,10 +955,11 @@ export async function runExternalRound(
   roundNumber: number,
   totalRounds: number,
   previousRounds: RoundResponse[][],
-  systemPrompt?: string,
-  onProgress?: ProgressCallback
+  options: RoundOptions = {}
 ): Promise<{ responses: RoundResponse[]; failedModels: string[] }> {
-  const log = onProgress || (() => {});
+  const { systemPrompt, style, signal } = options;
+  throwIfCancelled(signal);
+  const log = options.onProgress || (() => {});
   const failedSet = new Set<string>();
 
   const models = modelIdentifiers.map((id) => ({
@@ -344,55 +968,74 @@ export async function runExternalRound(
   }));
 
   log(
-    `Round ${roundNumber}/${totalRounds}: ${models.map((m) => m.label).join(", ")} responding...`
+    `Round ${roundNumber}/${totalRounds}: ${models.map((m) => m.label).join(", ")} responding...`,
+    { type: "round_start", round: roundNumber, totalRounds }
   );
 
-  if (roundNumber === 1) {
-    const round1System = getRound1System(undefined, systemPrompt);
-
-    const results = await Promise.allSettled(
-      models.map((m) => callModel(m.resolved, m.label, round1System, topic))
+  const { system, user } =
+    options.messages ??
+    roundMessages(
+      topic,
+      roundNumber,
+      totalRounds,
+      previousRounds,
+      systemPrompt,
+      style,
+      options.positions
     );
-    const responses = collectRoundResponses(results, models, roundNumber, failedSet);
-
-    for (const r of responses) {
-      if (r.error) {
-        log(`Round ${roundNumber}: ${r.modelId} failed — ${r.error}`);
-      } else {
-        log(`Round ${roundNumber}: ${r.modelId} responded (${r.content.length} chars)`);
-      }
-    }
-
-    return { responses, failedModels: Array.from(failedSet) };
-  }
-
-  // Rounds 2+: refinement with full history
-  const history = buildHistoryContext(previousRounds);
-
-  const roundSystem = getRoundNSystem(roundNumber, totalRounds);
-
-  const roundUserMessage =
-    `Original topic: ${topic}\n\n${history}\n\n` +
-    `Now provide your refined response for round ${roundNumber}. Consider all perspectives above.`;
 
   const results = await Promise.allSettled(
     models.map((m) =>
-      callModel(m.resolved, m.label, roundSystem, roundUserMessage)
+      callRoundModel(
+        m,
+        roundNumber,
+        totalRounds,
+        withRole(system, options.roles?.[m.label]),
+        user,
+        log,
+        fallbacksFor(m.label, options.fallbacks),
+        options.generation,
+        signal
+      )
     )
   );
+  // Half a round is no use to anyone; the caller keeps the rounds before it.
+  throwIfCancelled(signal);
   const responses = collectRoundResponses(results, models, roundNumber, failedSet);
-
-  for (const r of responses) {
-    if (r.error) {
-      log(`Round ${roundNumber}: ${r.modelId} failed — ${r.error}`);
-    } else {
-      log(`Round ${roundNumber}: ${r.modelId} responded (${r.content.length} chars)`);
+  if (options.roles) {
+    for (const resp of responses) {
+      const role = options.roles[resp.fallbackFor ?? resp.modelId];
+      if (role) resp.role = role.name;
     }
   }
 
   return { responses, failedModels: Array.from(failedSet) };
 }
 
+/** The synthesis text travels on as a plain string, so truncation is marked inline. */
+function synthesisFrom(reply: ModelReply, modelId: string): SynthesisResult {
+  return {
+    content: reply.truncated
+      ? `${reply.content}\n\n*[Synthesis cut off at the time limit.]*`
+      : reply.content,
+    usage: reply.usage,
+    ...(reply.queuedMs ? { queuedMs: reply.queuedMs } : {}),
+    modelId,
+  };
+}
+
+export interface SynthesisOptions {
+  onProgress?: ProgressCallback;
+  style?: string;
+  /** Replaces the style's synthesis system prompt (e.g. for reviews). */
+  customSynthesisPrompt?: string;
+  /** Skip the synthesis rather than overshoot this budget. */
+  budget?: CostBudget;
+  generation?: GenerationOptions;
+  /** Aborts the synthesis call, which then throws CancelledError. */
+  signal?: AbortSignal;
+}
+
 /**
  * Run the synthesis step. Used by the interactive flow after all rounds.
  */
@@ -401,55 +1044,137 @@ export async function runSynthesis(
   allRounds: RoundResponse[][],
   synthesizerIdentifier: string,
   modelIdentifiers: string[],
-  onProgress?: ProgressCallback,
-  style?: string,
-  customSynthesisPrompt?: string
-): Promise<string> {
-  const log = onProgress || (() => {});
-  const fullHistory = buildHistoryContext(allRounds);
-
-  const synthesisSystem = customSynthesisPrompt || getSynthesisSystem(style);
-
-  const synthesisUserMessage =
-    `Original topic: ${topic}\n\n${fullHistory}\n\n` +
-    `Please synthesize the above debate into a structured verdict.`;
+  options: SynthesisOptions = {}
+): Promise<SynthesisResult> {
+  const { style, customSynthesisPrompt, budget, generation, signal } = options;
+  throwIfCancelled(signal);
+  const log = options.onProgress || (() => {});
+  const { system: synthesisSystem, user: synthesisUserMessage } =
+    synthesisMessages(topic, allRounds, style, customSynthesisPrompt);
+
+  const overBudget = checkBudget(
+    budget,
+    projectSynthesisCost(
+      topic,
+      allRounds,
+      synthesizerIdentifier,
+      style,
+      customSynthesisPrompt
+    )
+  );
+  if (overBudget) {
+    log(`Skipping synthesis: ${overBudget}`, {
+      type: "synthesis_done",
+      error: "over budget",
+    });
+    return {
+      content:
+        "Synthesis skipped — running it would exceed the cost budget. " +
+        "Please review the raw debate rounds above.",
+      budgetNote: `Synthesis skipped: ${overBudget}.`,
+    };
+  }
 
-  log(`Synthesizing final output using ${synthesizerIdentifier}...`);
+  log(`Synthesizing final output using ${synthesizerIdentifier}...`, {
+    type: "synthesis_start",
+    modelId: synthesizerIdentifier,
+  });
 
   try {
     const synthesizerModel = resolveModel(synthesizerIdentifier);
-    return await callModel(
+    const reply = await callModel(
       synthesizerModel,
       synthesizerIdentifier,
       synthesisSystem,
-      synthesisUserMessage
+      synthesisUserMessage,
+      undefined,
+      log,
+      generation,
+      signal
     );
-  } catch {
+    log(`Synthesis complete (${reply.content.length} chars)`, {
+      type: "synthesis_done",
+      modelId: synthesizerIdentifier,
+      chars: reply.content.length,
+    });
+    return synthesisFrom(reply, synthesizerIdentifier);
+  } catch (err) {
+    if (err instanceof CancelledError) throw err;
     log(`Synthesizer ${synthesizerIdentifier} failed, trying fallback models...`);
     // Try fallback models
     for (const id of modelIdentifiers) {
       if (id === synthesizerIdentifier) continue;
       try {
         const fallback = resolveModel(id);
-        const result = await callModel(
+        const reply = await callModel(
           fallback,
           id,
           synthesisSystem,
-          synthesisUserMessage
+          synthesisUserMessage,
+          undefined,
+          log,
+          generation,
+          signal
         );
-        log(`Synthesis completed by fallback model ${id}`);
-        return result;
-      } catch {
+        log(`Synthesis completed by fallback model ${id}`, {
+          type: "synthesis_done",
+          modelId: id,
+          chars: reply.content.length,
+        });
+        return synthesisFrom(reply, id);
+      } catch (err) {
+        if (err instanceof CancelledError) throw err;
         continue;
       }
     }
-    return (
-      "Synthesis failed — all models encountered errors during the synthesis step. " +
-      "Please review the raw debate rounds above."
-    );
+    log("Synthesis failed on every model", {
+      type: "synthesis_done",
+      error: "all models failed",
+    });
+    return {
+      content:
+        "Synthesis failed — all models encountered errors during the synthesis step. " +
+        "Please review the raw debate rounds above.",
+      usage: { promptTokens: 0, completionTokens: 0 },
+    };
   }
 }
 
+export interface DebateOptions {
+  /** Defaults to the first model. */
+  synthesizer?: string;
+  systemPrompt?: string;
+  onProgress?: ProgressCallback;
+  style?: string;
+  context?: string;
+  fallbacks?: FallbackMap;
+  generation?: GenerationOptions;
+  /**
+   * Spend ceiling in USD. The debate is aborted if even round 1 and the
+   * synthesis would not fit, and stops early (straight to synthesis, or
+   * without one) once the next step would overshoot.
+   */
+  maxCostUsd?: number;
+  /**
+   * Track how the participants' positions converge. "track" only reports
+   * it; "stop" also ends the debate early, within `rounds`; "until" also
+   * runs past `rounds`, up to MAX_CONSENSUS_ROUNDS, until they agree. Never
+   * stops before round 2. Unset leaves positions out of the prompts.
+   */
+  consensus?: "track" | "stop" | "until";
+  /** Round agreement that counts as consensus. Default DEFAULT_CONSENSUS_THRESHOLD. */
+  consensusThreshold?: number;
+  /** Participant → role, kept through every round. See resolveRoles. */
+  roles?: Record<string, ParticipantRole>;
+  /** Called as each round completes, e.g. to show partial results while the debate runs. */
+  onRound?: (responses: RoundResponse[], round: number) => void;
+  /**
+   * Calls off the debate: in-flight requests are aborted, CLI children
+   * killed, and runDebate throws CancelledError.
+   */
+  signal?: AbortSignal;
+}
+
 /**
  * Run a complete non-interactive debate. Used when participate=false.
  */
@@ -457,172 +1182,210 @@ export async function runDebate(
   topic: string,
   modelIdentifiers: string[],
   rounds: number,
-  synthesizerIdentifier?: string,
-  systemPrompt?: string,
-  onProgress?: ProgressCallback
+  options: DebateOptions = {}
 ): Promise<DebateResult> {
+  const { systemPrompt, style, context, maxCostUsd, consensus } = options;
+  const threshold = options.consensusThreshold ?? DEFAULT_CONSENSUS_THRESHOLD;
+  const lastRound = consensus === "until" ? Math.max(rounds, MAX_CONSENSUS_ROUNDS) : rounds;
+  const positions = consensus !== undefined;
   const startTime = Date.now();
-  const log = onProgress || (() => {});
-  let totalCharsProcessed = 0;
-
-  const models: { resolved: ResolvedModel; label: string }[] = [];
-  for (const id of modelIdentifiers) {
-    models.push({ resolved: resolveModel(id), label: id });
-  }
-
-  const synthesizerLabel = synthesizerIdentifier || modelIdentifiers[0];
-  const synthesizerModel = resolveModel(synthesizerLabel);
-
-  const estimatedTokensPerRound = models.length * 4096;
-  const inputTokensEstimate = models.length * estimateTokens(topic) * rounds;
-  const totalEstTokens =
-    estimatedTokensPerRound * (rounds + 1) + inputTokensEstimate;
-  const estCost = estimateCost(modelIdentifiers, totalEstTokens);
-
-  log(
-    `Starting brainstorm: ${models.length} models, ${rounds} rounds. Estimated cost: ${estCost}`
+  // Models see the context; the result and logs keep the bare topic.
+  const effectiveTopic = buildEffectiveTopic(topic, context);
+  const log = options.onProgress || (() => {});
+
+  const synthesizerLabel = options.synthesizer || modelIdentifiers[0];
+  // Fail fast on a bad id instead of after every round has run.
+  for (const id of modelIdentifiers) resolveModel(id);
+  resolveModel(synthesizerLabel);
+
+  const budget: CostBudget | undefined =
+    maxCostUsd !== undefined ? { maxCostUsd, spentUsd: 0 } : undefined;
+
+  // Every round after the first re-sends the (capped) history, so round 1's
+  // projection is a floor for the rest.
+  const round1Cost = projectRoundCost(
+    effectiveTopic,
+    modelIdentifiers,
+    1,
+    lastRound,
+    [],
+    systemPrompt,
+    style,
+    positions
   );
+  const synthesisCost = projectSynthesisCost(effectiveTopic, [], synthesizerLabel, style);
 
-  const allRounds: RoundResponse[][] = [];
-  const failedSet = new Set<string>();
-
-  // Round 1
   log(
-    `Round 1/${rounds}: ${models.map((m) => m.label).join(", ")} responding...`
-  );
-
-  const round1System = getRound1System(undefined, systemPrompt);
-
-  const round1Results = await Promise.allSettled(
-    models.map((m) => callModel(m.resolved, m.label, round1System, topic))
+    `Starting brainstorm: ${modelIdentifiers.length} models, ${rounds} rounds` +
+      (consensus === "until" ? ` (up to ${lastRound} until consensus). ` : ". ") +
+      `Estimated cost: ${describeCost(round1Cost * rounds + synthesisCost, modelIdentifiers)}` +
+      (budget ? `, budget ${formatUsd(budget.maxCostUsd)}` : "")
   );
 
-  const round1Responses = collectRoundResponses(
-    round1Results,
-    models,
-    1,
-    failedSet
-  );
-  allRounds.push(round1Responses);
-
-  for (const r of round1Responses) {
-    totalCharsProcessed += r.content.length;
-    if (r.error) {
-      log(`Round 1: ${r.modelId} failed — ${r.error}`);
-    } else {
-      log(`Round 1: ${r.modelId} responded (${r.content.length} chars)`);
-    }
+  const tooExpensive = checkBudget(budget, round1Cost + synthesisCost);
+  if (tooExpensive) {
+    throw overBudgetError(`Round 1 and synthesis: ${tooExpensive}`);
   }
 
-  // Rounds 2-N
-  for (let r = 2; r <= rounds; r++) {
-    log(
-      `Round ${r}/${rounds}: ${models.map((m) => m.label).join(", ")} refining...`
-    );
-
-    const history = buildHistoryContext(allRounds);
-
-    const roundSystem = getRoundNSystem(r, rounds);
-
-    const roundUserMessage =
-      `Original topic: ${topic}\n\n${history}\n\n` +
-      `Now provide your refined response for round ${r}. Consider all perspectives above.`;
-
-    const roundResults = await Promise.allSettled(
-      models.map((m) =>
-        callModel(m.resolved, m.label, roundSystem, roundUserMessage)
-      )
-    );
+  const allRounds: RoundResponse[][] = [];
+  const failedSet = new Set<string>();
+  let roundsNote: string | undefined;
+  let consensusNote: string | undefined;
+
+  for (let r = 1; r <= lastRound; r++) {
+    if (r > 1) {
+      const overBudget = checkBudget(
+        budget,
+        projectRoundCost(
+          effectiveTopic,
+          modelIdentifiers,
+          r,
+          lastRound,
+          allRounds,
+          systemPrompt,
+          style,
+          positions
+        ) + projectSynthesisCost(effectiveTopic, allRounds, synthesizerLabel, style)
+      );
+      if (overBudget) {
+        roundsNote = `Stopped after round ${r - 1} of ${lastRound}: ${overBudget}.`;
+        log(roundsNote);
+        break;
+      }
+    }
 
-    const roundResponses = collectRoundResponses(
-      roundResults,
-      models,
+    const { responses, failedModels } = await runExternalRound(
+      effectiveTopic,
+      modelIdentifiers,
       r,
-      failedSet
+      lastRound,
+      allRounds,
+      {
+        systemPrompt,
+        onProgress: log,
+        style,
+        fallbacks: options.fallbacks,
+        generation: options.generation,
+        roles: options.roles,
+        positions,
+        signal: options.signal,
+      }
     );
-    allRounds.push(roundResponses);
-
-    for (const resp of roundResponses) {
-      totalCharsProcessed += resp.content.length;
-      if (resp.error) {
-        log(`Round ${r}: ${resp.modelId} failed — ${resp.error}`);
-      } else {
-        log(
-          `Round ${r}: ${resp.modelId} responded (${resp.content.length} chars)`
-        );
+    allRounds.push(responses);
+    options.onRound?.(responses, r);
+    for (const f of failedModels) failedSet.add(f);
+    if (budget) budget.spentUsd += costOfResponses([responses]);
+
+    if ((consensus === "stop" || consensus === "until") && r >= 2) {
+      const latest = measureConvergence(allRounds).at(-1);
+      if (latest?.round === r && latest.agreement >= threshold) {
+        consensusNote =
+          `Consensus reached in round ${r} (agreement ${latest.agreement} ≥ ${threshold}).`;
+        log(consensusNote);
+        break;
+      }
+      if (r === lastRound) {
+        consensusNote =
+          `No consensus after ${r} rounds` +
+          (latest ? ` (agreement ${latest.agreement} < ${threshold}).` : ".");
       }
     }
   }
 
   // Synthesis
-  log(`Synthesizing final output using ${synthesizerLabel}...`);
-
-  const fullHistory = buildHistoryContext(allRounds);
-
-  const synthesisSystem = getSynthesisSystem();
-
-  const synthesisUserMessage =
-    `Original topic: ${topic}\n\n${fullHistory}\n\n` +
-    `Please synthesize the above debate into a structured verdict.`;
-
-  let synthesis: string;
-  try {
-    synthesis = await callModel(
-      synthesizerModel,
-      synthesizerLabel,
-      synthesisSystem,
-      synthesisUserMessage
-    );
-    totalCharsProcessed += synthesis.length;
-  } catch {
-    log(
-      `Synthesizer ${synthesizerLabel} failed, trying fallback models...`
-    );
-    synthesis = "";
-    for (const m of models) {
-      if (m.label === synthesizerLabel) continue;
-      try {
-        synthesis = await callModel(
-          m.resolved,
-          m.label,
-          synthesisSystem,
-          synthesisUserMessage
-        );
-        totalCharsProcessed += synthesis.length;
-        log(`Synthesis completed by fallback model ${m.label}`);
-        break;
-      } catch {
-        continue;
-      }
+  const synthesis = await runSynthesis(
+    effectiveTopic,
+    allRounds,
+    synthesizerLabel,
+    modelIdentifiers,
+    {
+      onProgress: log,
+      style,
+      budget,
+      generation: options.generation,
+      signal: options.signal,
     }
-    if (!synthesis) {
-      synthesis =
-        "Synthesis failed — all models encountered errors during the synthesis step. " +
-        "Please review the raw debate rounds above.";
-    }
-  }
+  );
 
   const totalDurationMs = Date.now() - startTime;
-  const estimatedTokens = estimateTokens(
-    topic.repeat(rounds) + totalCharsProcessed.toString()
-  ) + Math.ceil(totalCharsProcessed / 4);
-
-  const stats: DebateStats = {
-    totalDurationMs,
-    estimatedTokens,
-    estimatedCost: estimateCost(modelIdentifiers, estimatedTokens),
-  };
+  const stats = buildDebateStats(
+    allRounds,
+    synthesis,
+    modelIdentifiers,
+    totalDurationMs
+  );
+  const budgetNote = [roundsNote, synthesis.budgetNote].filter(Boolean).join(" ");
+  if (budgetNote) stats.budgetNote = budgetNote;
+  const convergence = positions ? measureConvergence(allRounds) : [];
+  if (convergence.length) stats.convergence = convergence;
+  if (consensusNote) stats.consensusNote = consensusNote;
 
   log(
     `Brainstorm complete in ${(totalDurationMs / 1000).toFixed(1)}s. ` +
-      `~${estimatedTokens.toLocaleString()} tokens, ${stats.estimatedCost}`
+      `${stats.usageEstimated ? "~" : ""}${stats.estimatedTokens.toLocaleString()} tokens, ${stats.estimatedCost}`
   );
 
   return {
     topic,
     rounds: allRounds,
-    synthesis,
+    synthesis: synthesis.content,
     modelsFailed: Array.from(failedSet),
     stats,
   };
 }
+
+export interface QuickOptions {
+  context?: string;
+  style?: string;
+  onProgress?: ProgressCallback;
+  fallbacks?: FallbackMap;
+  /** Refuse before any model runs if the projected cost would exceed this. */
+  maxCostUsd?: number;
+  /** Aborts every call; runQuick then throws CancelledError. */
+  signal?: AbortSignal;
+}
+
+/**
+ * One round, every model in parallel, no synthesis. Used by
+ * brainstorm_quick and the `quick` command.
+ */
+export async function runQuick(
+  topic: string,
+  modelIdentifiers: string[],
+  options: QuickOptions = {}
+): Promise<DebateResult> {
+  const { style, maxCostUsd } = options;
+  const startTime = Date.now();
+  const effectiveTopic = buildEffectiveTopic(topic, options.context);
+
+  if (maxCostUsd !== undefined) {
+    const tooExpensive = checkBudget(
+      { maxCostUsd, spentUsd: 0 },
+      projectRoundCost(effectiveTopic, modelIdentifiers, 1, 1, [], undefined, style)
+    );
+    if (tooExpensive) throw overBudgetError(tooExpensive);
+  }
+
+  // Single round, no cross-model interaction
+  const { responses, failedModels } = await runExternalRound(
+    effectiveTopic,
+    modelIdentifiers,
+    1,
+    1,
+    [],
+    {
+      onProgress: options.onProgress,
+      style,
+      fallbacks: options.fallbacks,
+      signal: options.signal,
+    }
+  );
+
+  return {
+    topic,
+    rounds: [responses],
+    synthesis: "",
+    modelsFailed: failedModels,
+    stats: buildDebateStats([responses], undefined, modelIdentifiers, Date.now() - startTime),
+  };
+}
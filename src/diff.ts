@@ -0,0 +1,317 @@
+import { normalizePath } from "./findings.js";
+import { ReviewFinding } from "./types.js";
+
+export interface DiffLine {
+  kind: "add" | "del" | "context";
+  text: string;
+  /** Line in the old file; absent on added lines. */
+  oldLine?: number;
+  /** Line in the new file; absent on deleted lines. */
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Text after the closing `@@`, usually the enclosing function. */
+  section: string;
+  lines: DiffLine[];
+}
+
+export interface DiffFile {
+  /** Path in the new tree (the old one for deleted files). */
+  path: string;
+  /** Set for renames. */
+  oldPath?: string;
+  status: "added" | "deleted" | "modified" | "renamed";
+  binary?: boolean;
+  hunks: DiffHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+/** `a/src/x.ts`, `"b/odd name.ts"` or `src/x.ts<TAB>2024-01-01` → `src/x.ts`. */
+function diffPath(raw: string): string | undefined {
+  let path = raw.split("\t")[0].trim();
+  if (path.startsWith('"') && path.endsWith('"')) path = path.slice(1, -1);
+  return path === "/dev/null" ? undefined : normalizePath(path);
+}
+
+/**
+ * Parse a unified diff — `git diff` output or a plain `diff -u` — into files
+ * and hunks with old/new line numbers. Anything that is not part of a file
+ * section (commit headers, stray prose) is skipped.
+ */
+export function parseDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  const lines = diff.split(/\r?\n/);
+  let file: DiffFile | undefined;
+  let hunk: DiffHunk | undefined;
+  // Lines still expected in the current hunk, old and new side.
+  let oldLeft = 0;
+  let newLeft = 0;
+  let oldLine = 0;
+  let newLine = 0;
+
+  const startFile = (path = ""): DiffFile => {
+    file = { path, status: "modified", hunks: [] };
+    files.push(file);
+    hunk = undefined;
+    return file;
+  };
+
+  for (const line of lines) {
+    if (hunk && (oldLeft > 0 || newLeft > 0)) {
+      const marker = line[0];
+      if (marker === "+") {
+        hunk.lines.push({ kind: "add", text: line.slice(1), newLine: newLine++ });
+        newLeft--;
+        continue;
+      }
+      if (marker === "-") {
+        hunk.lines.push({ kind: "del", text: line.slice(1), oldLine: oldLine++ });
+        oldLeft--;
+        continue;
+      }
+      if (marker === " " || line === "") {
+        hunk.lines.push({
+          kind: "context",
+          text: line.slice(1),
+          oldLine: oldLine++,
+          newLine: newLine++,
+        });
+        oldLeft--;
+        newLeft--;
+        continue;
+      }
+      if (marker === "\\") continue; // "\ No newline at end of file"
+      // Hunk shorter than its header claimed; fall through to the headers.
+      hunk = undefined;
+    }
+    if (line.startsWith("\\")) continue;
+
+    const git = line.match(/^diff --git ("?a\/.+?"?) ("?b\/.+"?)$/);
+    if (git) {
+      const f = startFile(diffPath(git[2]) ?? "");
+      const oldPath = diffPath(git[1]);
+      if (oldPath && oldPath !== f.path) f.oldPath = oldPath;
+      continue;
+    }
+    if (line.startsWith("--- ")) {
+      // A plain unified diff starts its file section here.
+      const current = file && file.hunks.length === 0 ? file : startFile();
+      const oldPath = diffPath(line.slice(4));
+      if (!oldPath) current.status = "added";
+      else if (!current.path) current.path = oldPath;
+      continue;
+    }
+    if (line.startsWith("+++ ") && file) {
+      const newPath = diffPath(line.slice(4));
+      if (newPath) file.path = newPath;
+      else file.status = "deleted";
+      continue;
+    }
+    if (!file) continue;
+    if (line.startsWith("new file mode")) file.status = "added";
+    else if (line.startsWith("deleted file mode")) file.status = "deleted";
+    else if (line.startsWith("rename from ")) {
+      file.oldPath = normalizePath(line.slice("rename from ".length));
+      file.status = "renamed";
+    } else if (line.startsWith("rename to ")) {
+      file.path = normalizePath(line.slice("rename to ".length));
+      file.status = "renamed";
+    } else if (line.startsWith("Binary files ") || line === "GIT binary patch") {
+      file.binary = true;
+    } else {
+      const header = line.match(HUNK_HEADER);
+      if (!header) continue;
+      hunk = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] !== undefined ? Number(header[2]) : 1,
+        newStart: Number(header[3]),
+        newLines: header[4] !== undefined ? Number(header[4]) : 1,
+        section: header[5].trim(),
+        lines: [],
+      };
+      file.hunks.push(hunk);
+      oldLeft = hunk.oldLines;
+      newLeft = hunk.newLines;
+      oldLine = hunk.oldStart;
+      newLine = hunk.newStart;
+    }
+  }
+
+  for (const f of files) {
+    if (f.oldPath && f.oldPath !== f.path && f.status === "modified") f.status = "renamed";
+  }
+  return files.filter((f) => f.path);
+}
+
+function fileHeader(file: DiffFile): string {
+  const note =
+    file.status === "renamed"
+      ? ` (renamed from ${file.oldPath})`
+      : file.status !== "modified"
+        ? ` (${file.status})`
+        : "";
+  return `=== ${file.path}${note}${file.binary ? " — binary, not shown" : ""}`;
+}
+
+/**
+ * Render parsed files for a reviewer, with each line's new-file number in a
+ * left gutter so findings can cite real lines. Deleted lines have no new
+ * number and show a blank gutter.
+ */
+export function annotateDiff(files: DiffFile[]): string {
+  const width = String(
+    Math.max(1, ...files.flatMap((f) => f.hunks.map((h) => h.newStart + h.newLines)))
+  ).length;
+  const blank = " ".repeat(width);
+  const out: string[] = [];
+  for (const file of files) {
+    out.push(fileHeader(file));
+    for (const hunk of file.hunks) {
+      out.push(
+        `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@` +
+          (hunk.section ? ` ${hunk.section}` : "")
+      );
+      for (const line of hunk.lines) {
+        const gutter =
+          line.newLine !== undefined ? String(line.newLine).padStart(width) : blank;
+        const marker = line.kind === "add" ? "+" : line.kind === "del" ? "-" : " ";
+        out.push(`${gutter} ${marker}${line.text}`);
+      }
+    }
+    out.push("");
+  }
+  return out.join("\n").trimEnd();
+}
+
+/** Lines of the new file a hunk shows, as an inclusive range; undefined for pure deletions. */
+function newRange(hunk: DiffHunk): [number, number] | undefined {
+  return hunk.newLines > 0
+    ? [hunk.newStart, hunk.newStart + hunk.newLines - 1]
+    : undefined;
+}
+
+/** The diff file a reviewer meant, tolerating a missing or extra leading directory. */
+function findFile(files: DiffFile[], path: string): DiffFile | undefined {
+  const exact = files.find((f) => f.path === path || f.oldPath === path);
+  if (exact) return exact;
+  const suffixed = files.filter(
+    (f) => f.path.endsWith(`/${path}`) || path.endsWith(`/${f.path}`)
+  );
+  return suffixed.length === 1 ? suffixed[0] : undefined;
+}
+
+/** `src/x.ts:12` or `src/x.ts:12–15`. */
+function where(path: string, start: number, end: number): string {
+  return start === end ? `${path}:${start}` : `${path}:${start}–${end}`;
+}
+
+function withoutLines(finding: ReviewFinding): ReviewFinding {
+  const copy = { ...finding };
+  delete copy.startLine;
+  delete copy.endLine;
+  return copy;
+}
+
+/**
+ * Check a finding's location against the diff. A file that is not in the
+ * diff loses its location; lines outside every hunk are removed; a range
+ * that runs past its hunk is clamped to it. Whatever was changed is
+ * explained in `locationNote`, and `valid` is false for the first two cases.
+ */
+export function anchorFinding(
+  finding: ReviewFinding,
+  files: DiffFile[]
+): { finding: ReviewFinding; valid: boolean } {
+  if (!finding.file) return { finding, valid: true };
+
+  const file = findFile(files, finding.file);
+  if (!file) {
+    const unplaced = withoutLines(finding);
+    delete unplaced.file;
+    unplaced.locationNote = `${finding.file} is not part of the diff`;
+    return { finding: unplaced, valid: false };
+  }
+
+  const anchored: ReviewFinding = { ...finding, file: file.path };
+  if (finding.startLine === undefined) return { finding: anchored, valid: true };
+
+  const start = finding.startLine;
+  const end = finding.endLine ?? start;
+  const hunk = file.hunks.find((h) => {
+    const range = newRange(h);
+    return range !== undefined && start <= range[1] && end >= range[0];
+  });
+  if (!hunk) {
+    const unplaced = withoutLines(anchored);
+    unplaced.locationNote = `${where(file.path, start, end)} is outside the changed hunks`;
+    return { finding: unplaced, valid: false };
+  }
+
+  const [first, last] = newRange(hunk)!;
+  const clampedStart = Math.max(start, first);
+  const clampedEnd = Math.min(end, last);
+  if (clampedStart === start && clampedEnd === end) {
+    return { finding: anchored, valid: true };
+  }
+  return {
+    finding: {
+      ...anchored,
+      startLine: clampedStart,
+      endLine: clampedEnd,
+      locationNote:
+        `${where(file.path, start, end)} clamped to the hunk at ` +
+        where(file.path, first, last),
+    },
+    valid: true,
+  };
+}
+
+/**
+ * Split parsed files into chunks whose annotated text stays within
+ * `maxChars`, keeping files whole where they fit and in diff order. A file
+ * too big for one chunk is split between hunks; a single hunk bigger than
+ * `maxChars` still goes out whole, as its own chunk.
+ */
+export function chunkDiff(files: DiffFile[], maxChars: number): DiffFile[][] {
+  const chunks: DiffFile[][] = [];
+  let current: DiffFile[] = [];
+  let size = 0;
+
+  const add = (file: DiffFile, fileSize: number) => {
+    if (current.length > 0 && size + fileSize > maxChars) {
+      chunks.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(file);
+    size += fileSize + 1;
+  };
+
+  for (const file of files) {
+    const fileSize = annotateDiff([file]).length;
+    if (fileSize <= maxChars || file.hunks.length <= 1) {
+      add(file, fileSize);
+      continue;
+    }
+    // Too big whole: greedily pack its hunks into parts.
+    let part: DiffFile = { ...file, hunks: [] };
+    for (const hunk of file.hunks) {
+      const candidate = { ...part, hunks: [...part.hunks, hunk] };
+      if (part.hunks.length > 0 && annotateDiff([candidate]).length > maxChars) {
+        add(part, annotateDiff([part]).length);
+        part = { ...file, hunks: [hunk] };
+      } else {
+        part = candidate;
+      }
+    }
+    add(part, annotateDiff([part]).length);
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
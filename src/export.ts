@@ -0,0 +1,197 @@
+import { createHash } from "node:crypto";
+import { createRequire } from "node:module";
+import { CATEGORIES } from "./findings.js";
+import { DebateResult, FindingSeverity, MergedFinding } from "./types.js";
+
+const { version } = createRequire(import.meta.url)("../package.json") as {
+  version: string;
+};
+
+const INFORMATION_URI = "https://github.com/spranab/brainstorm-mcp";
+
+/** Review export formats for CI. */
+export type ReviewExportFormat = "sarif" | "github" | "github-review";
+
+const SARIF_LEVEL: Record<FindingSeverity, "error" | "warning" | "note"> = {
+  critical: "error",
+  high: "error",
+  medium: "warning",
+  low: "note",
+};
+
+const GITHUB_LEVEL: Record<FindingSeverity, "failure" | "warning" | "notice"> = {
+  critical: "failure",
+  high: "failure",
+  medium: "warning",
+  low: "notice",
+};
+
+/** Everything but the title, for formats that show the title on its own. */
+function findingDetails(f: MergedFinding): string {
+  return (
+    [f.explanation, f.suggestion ? `Suggestion: ${f.suggestion}` : ""]
+      .filter(Boolean)
+      .join("\n\n") + `\n\nReported by: ${f.models.join(", ")}`
+  );
+}
+
+function findingMessage(f: MergedFinding): string {
+  return `${f.title}\n\n${findingDetails(f)}`;
+}
+
+/** Findings worth reporting: all of them, less any that lost a cross-examination. */
+function reportedFindings(result: DebateResult): MergedFinding[] {
+  return (result.findings ?? []).filter((f) => f.agreement?.survived !== false);
+}
+
+/**
+ * Stable across runs for the same issue at the same place, so code scanning
+ * can track a finding instead of opening a new alert every time.
+ */
+function fingerprint(f: MergedFinding): string {
+  return createHash("sha256")
+    .update(`${f.category}\0${f.file ?? ""}\0${f.title.toLowerCase()}`)
+    .digest("hex")
+    .slice(0, 32);
+}
+
+/** SARIF 2.1.0 log with one rule per review category. */
+export function toSarif(result: DebateResult): Record<string, unknown> {
+  const findings = reportedFindings(result);
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "brainstorm-mcp",
+            version,
+            informationUri: INFORMATION_URI,
+            rules: CATEGORIES.map((category) => ({
+              id: category,
+              name: category[0].toUpperCase() + category.slice(1),
+              shortDescription: { text: `Multi-model review: ${category}` },
+            })),
+          },
+        },
+        results: findings.map((f) => ({
+          ruleId: f.category,
+          ruleIndex: CATEGORIES.indexOf(f.category),
+          level: SARIF_LEVEL[f.severity],
+          message: { text: findingMessage(f) },
+          ...(f.file
+            ? {
+                locations: [
+                  {
+                    physicalLocation: {
+                      artifactLocation: { uri: f.file },
+                      ...(f.startLine !== undefined
+                        ? {
+                            region: {
+                              startLine: f.startLine,
+                              endLine: f.endLine ?? f.startLine,
+                            },
+                          }
+                        : {}),
+                    },
+                  },
+                ],
+              }
+            : {}),
+          partialFingerprints: { "brainstormFinding/v1": fingerprint(f) },
+          properties: {
+            severity: f.severity,
+            models: f.models,
+            ...(f.locationNote ? { locationNote: f.locationNote } : {}),
+            ...(f.agreement ? { agreement: f.agreement } : {}),
+          },
+        })),
+        properties: {
+          title: result.topic,
+          ...(result.verdict ? { verdict: result.verdict } : {}),
+          reviewers: [...new Set((result.rounds[0] ?? []).map((r) => r.modelId))],
+        },
+      },
+    ],
+  };
+}
+
+export interface GithubAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: "failure" | "warning" | "notice";
+  title: string;
+  message: string;
+}
+
+/**
+ * Annotations for the GitHub check runs API. GitHub needs a path and line
+ * for every annotation, so findings without a file are left out; findings
+ * without lines are pinned to line 1 of their file.
+ */
+export function toGithubAnnotations(result: DebateResult): GithubAnnotation[] {
+  return reportedFindings(result)
+    .filter((f) => f.file)
+    .map((f) => ({
+      path: f.file!,
+      start_line: f.startLine ?? 1,
+      end_line: f.endLine ?? f.startLine ?? 1,
+      annotation_level: GITHUB_LEVEL[f.severity],
+      title: `[${f.severity}] ${f.title}`,
+      message: findingMessage(f),
+    }));
+}
+
+export interface GithubReviewComment {
+  path: string;
+  line: number;
+  /** First line of a multi-line comment. */
+  start_line?: number;
+  side: "RIGHT";
+  start_side?: "RIGHT";
+  body: string;
+}
+
+/**
+ * `comments` for the GitHub pull request reviews API, one per finding with a
+ * file and lines. Review locations are checked against the diff's hunks, so
+ * these land on lines GitHub accepts; findings without lines are left out.
+ */
+export function toGithubReviewComments(result: DebateResult): GithubReviewComment[] {
+  return reportedFindings(result)
+    .filter((f) => f.file && f.startLine !== undefined)
+    .map((f) => {
+      const end = f.endLine ?? f.startLine!;
+      return {
+        path: f.file!,
+        line: end,
+        ...(end !== f.startLine
+          ? { start_line: f.startLine!, start_side: "RIGHT" as const }
+          : {}),
+        side: "RIGHT" as const,
+        body: `**[${f.severity}] ${f.title}**\n\n${findingDetails(f)}`,
+      };
+    });
+}
+
+/** The requested exports of a review result, keyed as in structured output. */
+export function exportReview(
+  result: DebateResult,
+  formats: ReviewExportFormat[]
+): {
+  sarif?: Record<string, unknown>;
+  githubAnnotations?: GithubAnnotation[];
+  githubReviewComments?: GithubReviewComment[];
+} {
+  return {
+    ...(formats.includes("sarif") ? { sarif: toSarif(result) } : {}),
+    ...(formats.includes("github")
+      ? { githubAnnotations: toGithubAnnotations(result) }
+      : {}),
+    ...(formats.includes("github-review")
+      ? { githubReviewComments: toGithubReviewComments(result) }
+      : {}),
+  };
+}
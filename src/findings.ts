@@ -0,0 +1,405 @@
+import { z } from "zod";
+import {
+  FindingAgreement,
+  FindingAssessment,
+  FindingCategory,
+  FindingSeverity,
+  MergedFinding,
+  ReviewFinding,
+  ReviewVerdict,
+  RoundResponse,
+} from "./types.js";
+
+export const SEVERITIES = ["critical", "high", "medium", "low"] as const satisfies readonly FindingSeverity[];
+
+export const CATEGORIES = [
+  "correctness",
+  "security",
+  "performance",
+  "maintainability",
+  "tests",
+] as const satisfies readonly FindingCategory[];
+
+/** Strict shape of a finding, as stored and returned in structured output. */
+export const reviewFindingSchema = z.object({
+  severity: z.enum(SEVERITIES),
+  category: z.enum(CATEGORIES),
+  file: z.string().optional(),
+  startLine: z.number().int().positive().optional(),
+  endLine: z.number().int().positive().optional(),
+  title: z.string(),
+  explanation: z.string(),
+  suggestion: z.string().optional(),
+  locationNote: z.string().optional(),
+});
+
+const lowercase = (v: unknown) => (typeof v === "string" ? v.trim().toLowerCase() : v);
+const blankToUndefined = (v: unknown) =>
+  v === null || (typeof v === "string" && !v.trim()) ? undefined : v;
+
+/**
+ * What we accept from a model: the strict shape, but tolerant of casing,
+ * numeric strings and nulls — reviewers are not always tidy about JSON.
+ */
+const modelFindingSchema = z.object({
+  severity: z.preprocess(lowercase, reviewFindingSchema.shape.severity),
+  category: z.preprocess(lowercase, reviewFindingSchema.shape.category),
+  file: z.preprocess(blankToUndefined, z.string().trim().optional()),
+  startLine: z.preprocess(blankToUndefined, z.coerce.number().int().positive().optional()),
+  endLine: z.preprocess(blankToUndefined, z.coerce.number().int().positive().optional()),
+  title: z.string().trim().min(1),
+  explanation: z.preprocess((v) => v ?? "", z.string().trim()),
+  suggestion: z.preprocess(blankToUndefined, z.string().trim().optional()),
+});
+
+/** The JSON block the review prompt asks every reviewer to answer with. */
+export const FINDINGS_FORMAT_INSTRUCTIONS =
+  "Answer with a JSON object in a ```json fenced block, shaped like:\n" +
+  '{"findings": [{"severity": "high", "category": "security", "file": "src/auth.ts", ' +
+  '"startLine": 42, "endLine": 45, "title": "One-line summary", ' +
+  '"explanation": "Why this matters", "suggestion": "How to fix it"}]}\n\n' +
+  "- severity: critical / high / medium / low\n" +
+  "- category: correctness / security / performance / maintainability / tests\n" +
+  "- file, startLine, endLine: path and line numbers in the new version of the file; " +
+  "omit them if the diff does not show where the issue is\n\n" +
+  'If there are no significant issues, answer {"findings": []}. ' +
+  "You may add a short note after the block.";
+
+/** The last ```json block, or failing that the outermost {...} in the text. */
+export function extractJson(text: string): string | undefined {
+  const fenced = [...text.matchAll(/```(?:json)?\s*\n([\s\S]*?)```/g)];
+  for (let i = fenced.length - 1; i >= 0; i--) {
+    const body = fenced[i][1].trim();
+    if (body.startsWith("{") || body.startsWith("[")) return body;
+  }
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  return start !== -1 && end > start ? text.slice(start, end + 1) : undefined;
+}
+
+/**
+ * Read a reviewer's answer into findings. Entries that fail validation are
+ * dropped and counted in `error`; an answer with no readable JSON at all
+ * yields no findings and an error.
+ */
+export function parseFindings(text: string): {
+  findings: ReviewFinding[];
+  error?: string;
+} {
+  const json = extractJson(text);
+  if (!json) return { findings: [], error: "no JSON findings block in the answer" };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (err) {
+    return {
+      findings: [],
+      error: `findings block is not valid JSON (${err instanceof Error ? err.message : String(err)})`,
+    };
+  }
+
+  const raw = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { findings?: unknown })?.findings;
+  if (!Array.isArray(raw)) {
+    return { findings: [], error: 'findings block has no "findings" array' };
+  }
+
+  const findings: ReviewFinding[] = [];
+  let invalid = 0;
+  for (const entry of raw) {
+    const result = modelFindingSchema.safeParse(entry);
+    if (!result.success) {
+      invalid++;
+      continue;
+    }
+    const f = result.data;
+    // A reversed or one-sided range becomes a plain line span.
+    const startLine = f.startLine ?? f.endLine;
+    const endLine =
+      startLine !== undefined ? Math.max(startLine, f.endLine ?? startLine) : undefined;
+    findings.push({
+      severity: f.severity,
+      category: f.category,
+      ...(f.file ? { file: normalizePath(f.file) } : {}),
+      ...(startLine !== undefined ? { startLine, endLine } : {}),
+      title: f.title,
+      explanation: f.explanation,
+      ...(f.suggestion ? { suggestion: f.suggestion } : {}),
+    });
+  }
+
+  return {
+    findings,
+    ...(invalid
+      ? { error: `${invalid} of ${raw.length} finding(s) did not match the schema and were dropped` }
+      : {}),
+  };
+}
+
+/** Strip the `a/` / `b/` prefixes of git diffs and a leading `./`. */
+export function normalizePath(path: string): string {
+  return path.trim().replace(/^\.\//, "").replace(/^[ab]\//, "");
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// Plain code-unit order, so merging does not depend on the host's locale.
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function severityRank(severity: FindingSeverity): number {
+  return SEVERITIES.indexOf(severity);
+}
+
+/**
+ * Two reports describe the same issue when they share file and category and
+ * either their line ranges overlap or their titles match once normalized.
+ */
+function sameIssue(a: ReviewFinding, b: ReviewFinding): boolean {
+  if ((a.file ?? "") !== (b.file ?? "") || a.category !== b.category) return false;
+  if (
+    a.startLine !== undefined &&
+    b.startLine !== undefined &&
+    a.startLine <= (b.endLine ?? b.startLine) &&
+    b.startLine <= (a.endLine ?? a.startLine)
+  ) {
+    return true;
+  }
+  return normalizeTitle(a.title) === normalizeTitle(b.title);
+}
+
+/**
+ * Merge every reviewer's findings into one list. Reviewers are visited in
+ * model-id order and findings in the order given, so the same answers always
+ * merge the same way. A merged finding takes the wording of its most severe
+ * report (the first one on a tie), the widest line span, and the union of
+ * reviewers. Most severe first, then most agreed-on, then by location.
+ */
+export function mergeFindings(responses: RoundResponse[]): MergedFinding[] {
+  const reviewers = responses
+    .filter((r) => !r.error && r.findings?.length)
+    .sort((a, b) => compare(a.modelId, b.modelId));
+
+  const groups: { reports: ReviewFinding[]; models: Set<string> }[] = [];
+  for (const reviewer of reviewers) {
+    for (const finding of reviewer.findings!) {
+      const group = groups.find((g) => g.reports.some((r) => sameIssue(r, finding)));
+      if (group) {
+        group.reports.push(finding);
+        group.models.add(reviewer.modelId);
+      } else {
+        groups.push({ reports: [finding], models: new Set([reviewer.modelId]) });
+      }
+    }
+  }
+
+  const merged = groups.map(({ reports, models }): MergedFinding => {
+    const lead = reports.reduce((best, r) =>
+      severityRank(r.severity) < severityRank(best.severity) ? r : best
+    );
+    const starts = reports.flatMap((r) => (r.startLine !== undefined ? [r.startLine] : []));
+    const ends = reports.flatMap((r) =>
+      r.startLine !== undefined ? [r.endLine ?? r.startLine] : []
+    );
+    const suggestion = lead.suggestion ?? reports.find((r) => r.suggestion)?.suggestion;
+    return {
+      severity: lead.severity,
+      category: lead.category,
+      ...(lead.file ? { file: lead.file } : {}),
+      ...(starts.length
+        ? { startLine: Math.min(...starts), endLine: Math.max(...ends) }
+        : {}),
+      title: lead.title,
+      explanation: lead.explanation,
+      ...(suggestion ? { suggestion } : {}),
+      ...(lead.locationNote ? { locationNote: lead.locationNote } : {}),
+      models: [...models].sort(),
+    };
+  });
+
+  return sortFindings(merged);
+}
+
+/** Most severe first, then most agreed-on, then by location and title. */
+export function sortFindings(findings: MergedFinding[]): MergedFinding[] {
+  return findings.sort(
+    (a, b) =>
+      severityRank(a.severity) - severityRank(b.severity) ||
+      b.models.length - a.models.length ||
+      compare(a.file ?? "", b.file ?? "") ||
+      (a.startLine ?? 0) - (b.startLine ?? 0) ||
+      compare(a.title, b.title)
+  );
+}
+
+/** Id a finding is listed under in cross-examination prompts. */
+export function findingId(index: number): string {
+  return `F${index + 1}`;
+}
+
+/** The JSON block cross-examination rounds ask every reviewer to answer with. */
+export const ASSESSMENT_FORMAT_INSTRUCTIONS =
+  "Answer with a JSON object in a ```json fenced block, shaped like:\n" +
+  '{"assessments": [{"id": "F1", "stance": "confirm", "reason": "One sentence"}, ' +
+  '{"id": "F2", "stance": "downgrade", "severity": "low", "reason": "One sentence"}]}\n\n' +
+  "- stance: confirm (a real issue, about as severe as stated) / downgrade (real, but less " +
+  "severe — give the severity you would assign) / dispute (not a real issue)\n" +
+  "- Assess every finding, including your own.";
+
+const assessmentSchema = z.object({
+  id: z.preprocess(
+    (v) => (typeof v === "number" ? `F${v}` : typeof v === "string" ? v.trim().toUpperCase() : v),
+    z.string().regex(/^F\d+$/)
+  ),
+  stance: z.preprocess(
+    (v) =>
+      typeof v === "string"
+        ? v.trim().toLowerCase().replace(/^(confirmed|disputed|downgraded)$/, (w) => w.slice(0, -1))
+        : v,
+    z.enum(["confirm", "dispute", "downgrade"])
+  ),
+  severity: z.preprocess(blankToUndefined, z.preprocess(lowercase, z.enum(SEVERITIES)).optional()),
+  reason: z.preprocess(blankToUndefined, z.string().trim().optional()),
+});
+
+/**
+ * Read a reviewer's cross-examination answer. Assessments of ids that were
+ * not listed, or that fail validation, are dropped and counted in `error`.
+ */
+export function parseAssessments(
+  text: string,
+  findingCount: number
+): { assessments: FindingAssessment[]; error?: string } {
+  const json = extractJson(text);
+  if (!json) return { assessments: [], error: "no JSON assessments block in the answer" };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (err) {
+    return {
+      assessments: [],
+      error: `assessments block is not valid JSON (${err instanceof Error ? err.message : String(err)})`,
+    };
+  }
+
+  const raw = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { assessments?: unknown })?.assessments;
+  if (!Array.isArray(raw)) {
+    return { assessments: [], error: 'assessments block has no "assessments" array' };
+  }
+
+  const assessments: FindingAssessment[] = [];
+  let invalid = 0;
+  for (const entry of raw) {
+    const result = assessmentSchema.safeParse(entry);
+    if (!result.success || Number(result.data.id.slice(1)) > findingCount) {
+      invalid++;
+      continue;
+    }
+    const a = result.data;
+    assessments.push({
+      id: a.id,
+      stance: a.stance,
+      ...(a.stance === "downgrade" && a.severity ? { severity: a.severity } : {}),
+      ...(a.reason ? { reason: a.reason } : {}),
+    });
+  }
+  return {
+    assessments,
+    ...(invalid
+      ? { error: `${invalid} of ${raw.length} assessment(s) were unreadable and were dropped` }
+      : {}),
+  };
+}
+
+/**
+ * Tally cross-examination rounds onto the findings, which must be in the
+ * order their ids were given. Each reviewer's latest stance counts, and a
+ * reporter that never assessed its own finding counts as confirming it. A
+ * finding survives when confirmations and downgrades outnumber disputes;
+ * when downgrades outnumber confirmations it takes the smallest downgrade
+ * proposed. The order of `findings` is kept.
+ */
+export function applyAssessments(
+  findings: MergedFinding[],
+  rounds: RoundResponse[][]
+): MergedFinding[] {
+  return findings.map((finding, i) => {
+    const id = findingId(i);
+    const stances = new Map<string, FindingAssessment>();
+    for (const model of finding.models) stances.set(model, { id, stance: "confirm" });
+    for (const round of rounds) {
+      for (const resp of round) {
+        const own = resp.assessments?.filter((a) => a.id === id) ?? [];
+        if (own.length) stances.set(resp.modelId, own[own.length - 1]);
+      }
+    }
+
+    const having = (stance: string) =>
+      [...stances].filter(([, a]) => a.stance === stance).map(([m]) => m).sort();
+    const agreement: FindingAgreement = {
+      confirmed: having("confirm"),
+      disputed: having("dispute"),
+      downgraded: having("downgrade"),
+      survived: false,
+    };
+    agreement.survived =
+      agreement.confirmed.length + agreement.downgraded.length > agreement.disputed.length;
+
+    const proposed = [...stances.values()]
+      .filter((a) => a.stance === "downgrade" && a.severity)
+      .map((a) => a.severity!)
+      .filter((s) => severityRank(s) > severityRank(finding.severity));
+    let severity = finding.severity;
+    if (agreement.downgraded.length > agreement.confirmed.length && proposed.length) {
+      severity = proposed.reduce((smallest, s) =>
+        severityRank(s) < severityRank(smallest) ? s : smallest
+      );
+      agreement.reportedSeverity = finding.severity;
+    }
+    return { ...finding, severity, agreement };
+  });
+}
+
+const VERDICT_LABEL = /^\s*(?:#{1,6}\s*)?[*_]*verdict[*_]*\s*:?[*_]*\s*(.*)$/i;
+const VERDICT_WORD = /^[*_\s]*(approve with warnings|needs changes|approve)\b/i;
+
+/**
+ * The verdict the review synthesis prompt asks for, if the synthesizer kept
+ * to it: the text right after a `## Verdict` heading or a `Verdict:` label.
+ * A bolded verdict word anywhere else — quoting a reviewer, say — is ignored.
+ */
+export function parseVerdict(synthesis: string): ReviewVerdict | undefined {
+  const lines = synthesis.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const label = lines[i].match(VERDICT_LABEL);
+    if (!label) continue;
+    // Under a heading, the verdict is the first line of the section.
+    let rest = label[1];
+    for (let j = i + 1; !rest.trim() && j < lines.length && !/^\s*#/.test(lines[j]); j++) {
+      rest = lines[j];
+    }
+    const word = rest.match(VERDICT_WORD);
+    if (word) return word[1].toLowerCase() as ReviewVerdict;
+  }
+  return undefined;
+}
+
+/**
+ * Verdict implied by the findings alone, for when the synthesis gave none.
+ * Findings that did not survive cross-examination are not counted.
+ */
+export function verdictFor(findings: MergedFinding[]): ReviewVerdict {
+  findings = findings.filter((f) => f.agreement?.survived !== false);
+  if (findings.some((f) => f.severity === "critical" || f.severity === "high")) {
+    return "needs changes";
+  }
+  return findings.length ? "approve with warnings" : "approve";
+}
@@ -1,12 +1,159 @@
-import { DebateResult, RoundResponse } from "./types.js";
+import {
+  AppliedReviewRule,
+  ArchiveEntry,
+  DebateJob,
+  DebateResult,
+  DebateStats,
+  MergedFinding,
+  ParticipantRole,
+  ReviewCoverage,
+  RoundResponse,
+  TokenUsage,
+  VoteOutcome,
+} from "./types.js";
+import { formatUsd } from "./pricing.js";
+import { parseVerdict } from "./findings.js";
+import { withRole } from "./roles.js";
+
+function tildeIf(estimated: boolean | undefined): string {
+  return estimated ? "~" : "";
+}
+
+/** "12,345 (10,000 in / 2,345 out, 800 reasoning)" — "~" marks estimates. */
+export function formatTokenSummary(stats: DebateStats): string {
+  const total = `${tildeIf(stats.usageEstimated ?? true)}${stats.estimatedTokens.toLocaleString()}`;
+  if (stats.promptTokens === undefined || stats.completionTokens === undefined) {
+    return total;
+  }
+  const reasoning = stats.reasoningTokens
+    ? `, ${stats.reasoningTokens.toLocaleString()} reasoning`
+    : "";
+  return (
+    `${total} (${stats.promptTokens.toLocaleString()} in / ` +
+    `${stats.completionTokens.toLocaleString()} out${reasoning})`
+  );
+}
+
+function usageCells(usage: TokenUsage): string {
+  const t = tildeIf(usage.estimated);
+  return (
+    `${t}${usage.promptTokens.toLocaleString()} | ` +
+    `${t}${usage.completionTokens.toLocaleString()} | ` +
+    `${usage.reasoningTokens ? usage.reasoningTokens.toLocaleString() : "—"}`
+  );
+}
+
+/** Per-model and per-round token breakdown; empty for results without usage data. */
+export function formatUsageTable(stats: DebateStats): string {
+  if (!stats.perModel || !Object.keys(stats.perModel).length) return "";
+
+  const lines: string[] = [];
+  lines.push(`## Token Usage\n`);
+  lines.push(`| Model | Calls | Prompt | Completion | Reasoning | Cost |`);
+  lines.push(`|-------|-------|--------|------------|-----------|------|`);
+  for (const [modelId, usage] of Object.entries(stats.perModel)) {
+    const cost =
+      usage.costUsd === undefined ? "—" : `${tildeIf(usage.estimated)}${formatUsd(usage.costUsd)}`;
+    lines.push(`| ${modelId} | ${usage.calls} | ${usageCells(usage)} | ${cost} |`);
+  }
+
+  const perRound = (stats.perRound ?? []).map(
+    (u, i) =>
+      `round ${i + 1}: ${tildeIf(u.estimated)}${(u.promptTokens + u.completionTokens).toLocaleString()}`
+  );
+  if (stats.synthesisUsage) {
+    const u = stats.synthesisUsage;
+    perRound.push(
+      `synthesis: ${tildeIf(u.estimated)}${(u.promptTokens + u.completionTokens).toLocaleString()}`
+    );
+  }
+  if (perRound.length) lines.push(`\n*By round — ${perRound.join(" · ")}*`);
+  if (stats.queueWaitMs) {
+    const waits = Object.entries(stats.perModel)
+      .filter(([, u]) => u.queueWaitMs)
+      .map(([modelId, u]) => `${modelId} ${((u.queueWaitMs ?? 0) / 1000).toFixed(1)}s`);
+    lines.push(
+      `\n*Queued behind provider limits — ${waits.join(" · ")} ` +
+        `(${(stats.queueWaitMs / 1000).toFixed(1)}s in all)*`
+    );
+  }
+  if (stats.usageEstimated) {
+    lines.push(
+      `\n*~ marks figures estimated from text length (CLI providers and host-written responses report no usage).*`
+    );
+  }
+  lines.push("");
+  return lines.join("\n");
+}
+
+/**
+ * "deepseek:deepseek-chat (fallback for openai:gpt-5.4)" when a substitute
+ * answered; " — security engineer" appended when the participant had a role.
+ */
+function respondent(resp: RoundResponse): string {
+  const who = resp.fallbackFor
+    ? `${resp.modelId} (fallback for ${resp.fallbackFor})`
+    : resp.modelId;
+  return resp.role ? `${who} — ${resp.role}` : who;
+}
+
+/** Caveats recorded under a response heading: fallback reason, truncation. */
+function responseNotes(resp: RoundResponse): string[] {
+  const notes: string[] = [];
+  if (resp.fallbackFor) {
+    notes.push(`> *${resp.fallbackFor} failed: ${resp.fallbackReason ?? "unknown error"}*\n`);
+  }
+  if (resp.truncated) {
+    notes.push(`> *Cut off at the time limit — partial response.*\n`);
+  }
+  if (resp.findingsError) {
+    notes.push(`> *Findings: ${resp.findingsError}.*\n`);
+  }
+  if (resp.ballotError) {
+    notes.push(`> *Ballot: ${resp.ballotError}.*\n`);
+  }
+  return notes;
+}
+
+/** Header line explaining a run cut short by maxCostUsd; empty otherwise. */
+function budgetLine(stats: DebateStats): string[] {
+  return stats.budgetNote ? [`**Budget:** ${stats.budgetNote}`] : [];
+}
+
+/** Header line saying a debate stopped, or kept going, for consensus; empty otherwise. */
+function consensusLine(stats: DebateStats): string[] {
+  return stats.consensusNote ? [`**Consensus:** ${stats.consensusNote}`] : [];
+}
+
+/** Round-by-round agreement between participants and how far each moved. */
+function formatConvergenceTable(stats: DebateStats): string {
+  if (!stats.convergence?.length) return "";
+  const lines = [
+    "## Convergence\n",
+    "| Round | Agreement | Pairs | Shift since last round |",
+    "|---|---|---|---|",
+    ...stats.convergence.map(
+      (c) =>
+        `| ${c.round} | ${c.agreement.toFixed(2)} | ` +
+        c.pairs.map((p) => `${p.models[0]} ↔ ${p.models[1]} ${p.agreement.toFixed(2)}`).join(", ") +
+        ` | ` +
+        Object.entries(c.shift ?? {})
+          .map(([model, shift]) => `${model} ${shift.toFixed(2)}`)
+          .join(", ") +
+        ` |`
+    ),
+  ];
+  return lines.join("\n") + "\n";
+}
 
 export function formatRoundResponses(responses: RoundResponse[]): string {
   const lines: string[] = [];
   for (const resp of responses) {
-    lines.push(`### ${resp.modelId}\n`);
+    lines.push(`### ${respondent(resp)}\n`);
     if (resp.error) {
       lines.push(`> **ERROR:** ${resp.error}\n`);
     } else {
+      lines.push(...responseNotes(resp));
       lines.push(`${resp.content}\n`);
     }
   }
@@ -19,13 +166,18 @@ export function formatResult(result: DebateResult): string {
   lines.push(`# Brainstorm: ${result.topic}\n`);
 
   const allModelIds = [
-    ...new Set(result.rounds[0]?.map((r) => r.modelId) ?? []),
+    ...new Set(
+      result.rounds[0]?.map((r) => {
+        const id = r.fallbackFor ?? r.modelId;
+        return r.role ? `${id} (${r.role})` : id;
+      }) ?? []
+    ),
   ];
   lines.push(`**Models:** ${allModelIds.join(", ")}`);
   lines.push(`**Rounds:** ${result.rounds.length}`);
   lines.push(
     `**Duration:** ${(result.stats.totalDurationMs / 1000).toFixed(1)}s | ` +
-      `**Tokens:** ~${result.stats.estimatedTokens.toLocaleString()} | ` +
+      `**Tokens:** ${formatTokenSummary(result.stats)} | ` +
       `**Cost:** ${result.stats.estimatedCost}`
   );
   if (result.modelsFailed.length > 0) {
@@ -33,6 +185,8 @@ export function formatResult(result: DebateResult): string {
       `**Failures:** ${result.modelsFailed.join(", ")} (had errors in some rounds)`
     );
   }
+  lines.push(...budgetLine(result.stats));
+  lines.push(...consensusLine(result.stats));
   lines.push("");
 
   for (let r = 0; r < result.rounds.length; r++) {
@@ -45,10 +199,11 @@ export function formatResult(result: DebateResult): string {
     lines.push(`## Round ${r + 1} — ${roundLabel}\n`);
 
     for (const resp of result.rounds[r]) {
-      lines.push(`### ${resp.modelId}\n`);
+      lines.push(`### ${respondent(resp)}\n`);
       if (resp.error) {
         lines.push(`> **ERROR:** ${resp.error}\n`);
       } else {
+        lines.push(...responseNotes(resp));
         lines.push(`${resp.content}\n`);
       }
     }
@@ -59,6 +214,12 @@ export function formatResult(result: DebateResult): string {
   lines.push(result.synthesis);
   lines.push("");
 
+  const convergenceTable = formatConvergenceTable(result.stats);
+  if (convergenceTable) lines.push(convergenceTable);
+
+  const usageTable = formatUsageTable(result.stats);
+  if (usageTable) lines.push(usageTable);
+
   const failNote =
     result.modelsFailed.length > 0
       ? ` ${result.modelsFailed.length} model(s) had failures.`
@@ -66,8 +227,414 @@ export function formatResult(result: DebateResult): string {
   lines.push(
     `---\n*Debate completed in ${(result.stats.totalDurationMs / 1000).toFixed(1)}s. ` +
       `${allModelIds.length} models, ${result.rounds.length} round(s). ` +
-      `~${result.stats.estimatedTokens.toLocaleString()} tokens (${result.stats.estimatedCost}).${failNote}*`
+      `${tildeIf(result.stats.usageEstimated ?? true)}${result.stats.estimatedTokens.toLocaleString()} tokens (${result.stats.estimatedCost}).${failNote}*`
   );
 
   return lines.join("\n");
 }
+
+/** Compact single-round comparison produced by brainstorm_quick. */
+export function formatQuickResult(result: DebateResult): string {
+  const responses = result.rounds[0] ?? [];
+  const seconds = (result.stats.totalDurationMs / 1000).toFixed(1);
+
+  const lines: string[] = [];
+  lines.push(`# Quick Brainstorm: ${result.topic}\n`);
+  lines.push(
+    `**Models:** ${responses.map((r) => r.modelId).join(", ")} | ` +
+      `**Time:** ${seconds}s | ` +
+      `**Tokens:** ${formatTokenSummary(result.stats)} | ` +
+      `**Cost:** ${result.stats.estimatedCost}\n`
+  );
+
+  const failed = responses.filter((r) => r.error);
+  if (failed.length > 0) {
+    lines.push(`**Failures:** ${failed.map((f) => f.modelId).join(", ")}\n`);
+  }
+  for (const line of budgetLine(result.stats)) lines.push(`${line}\n`);
+
+  for (const resp of responses) {
+    lines.push(`## ${respondent(resp)}\n`);
+    if (resp.error) {
+      lines.push(`> **ERROR:** ${resp.error}\n`);
+    } else {
+      lines.push(...responseNotes(resp));
+      lines.push(`${resp.content}\n`);
+    }
+  }
+
+  lines.push(
+    `---\n*${responses.length - failed.length} model(s) responded in ${seconds}s.*`
+  );
+
+  return lines.join("\n");
+}
+
+/** Table cells are one line, and a literal pipe would end the cell. */
+function cell(text: string | undefined): string {
+  return (text ?? "").replace(/\s*\n\s*/g, " ").replace(/\|/g, "\\|");
+}
+
+function findingLines(f: MergedFinding): string {
+  if (f.startLine === undefined) return "";
+  return f.endLine !== undefined && f.endLine !== f.startLine
+    ? `${f.startLine}–${f.endLine}`
+    : String(f.startLine);
+}
+
+/** "survived — 3 confirm, 1 dispute, 0 downgrade". */
+function formatAgreement(f: MergedFinding): string {
+  const a = f.agreement;
+  if (!a) return "";
+  return (
+    `${a.survived ? "survived" : "**rejected**"} — ${a.confirmed.length} confirm, ` +
+    `${a.disputed.length} dispute, ${a.downgraded.length} downgrade`
+  );
+}
+
+/** The merged findings of a review, in the order they were merged. */
+function formatFindingsTable(findings: MergedFinding[]): string[] {
+  if (findings.length === 0) return ["## Findings\n", "No findings.\n"];
+  const examined = findings.some((f) => f.agreement);
+  return [
+    "## Findings\n",
+    "| Severity | Category | File | Lines | Finding | Suggestion | Models |" +
+      (examined ? " Cross-examination |" : ""),
+    "|---|---|---|---|---|---|---|" + (examined ? "---|" : ""),
+    ...findings.map(
+      (f) =>
+        `| ${f.severity}` +
+        (f.agreement?.reportedSeverity ? ` (was ${f.agreement.reportedSeverity})` : "") +
+        ` | ${f.category} | ${cell(f.file)} | ${findingLines(f)} | ` +
+        `**${cell(f.title)}** — ${cell(f.explanation)}` +
+        (f.locationNote ? ` *(location: ${cell(f.locationNote)})*` : "") +
+        ` | ${cell(f.suggestion)} | ` +
+        `${f.models.join(", ")} |` +
+        (examined ? ` ${formatAgreement(f)} |` : "")
+    ),
+    "",
+  ];
+}
+
+/** Who reviewed which file, for reviews split into chunks. */
+function formatCoverageTable(coverage: ReviewCoverage[]): string[] {
+  return [
+    "## Coverage\n",
+    "| File | Reviewed by | Missing |",
+    "|---|---|---|",
+    ...coverage.map(
+      (c) => `| ${cell(c.file)} | ${c.models.join(", ")} | ${c.missing.join(", ")} |`
+    ),
+    "",
+  ];
+}
+
+/** Repository rules the reviewers were given, and the files each matched. */
+function formatRulesTable(rules: AppliedReviewRule[]): string[] {
+  return [
+    "## Review Rules Applied\n",
+    "| Source | Applies to | Matched |",
+    "|---|---|---|",
+    ...rules.map(
+      (r) =>
+        `| ${cell(r.source)} | ${r.files ? cell(r.files.join(", ")) : "all files"} | ` +
+        `${cell((r.matched ?? []).join(", "))} |`
+    ),
+    "",
+  ];
+}
+
+/**
+ * Review verdict and merged findings, followed by each model's raw review.
+ * `result.topic` holds the change title and `result.synthesis` the verdict.
+ */
+export function formatReviewResult(result: DebateResult): string {
+  const responses = result.rounds[0] ?? [];
+  // A chunked review has one response per model per chunk.
+  const reviewers = [...new Set(responses.map((r) => r.modelId))];
+  const seconds = (result.stats.totalDurationMs / 1000).toFixed(1);
+
+  const lines: string[] = [];
+  lines.push(`# Code Review: ${result.topic}\n`);
+  lines.push(
+    `**Reviewers:** ${reviewers.join(", ")} | ` +
+      `**Time:** ${seconds}s | ` +
+      `**Tokens:** ${formatTokenSummary(result.stats)} | ` +
+      `**Cost:** ${result.stats.estimatedCost}`
+  );
+  if (result.modelsFailed.length > 0) {
+    lines.push(`**Failures:** ${result.modelsFailed.join(", ")}`);
+  }
+  // Shown up top when the synthesis gave none of its own, e.g. skipped for budget.
+  if (result.verdict && !parseVerdict(result.synthesis)) {
+    lines.push(`**Verdict:** ${result.verdict}`);
+  }
+  lines.push(...budgetLine(result.stats));
+  lines.push("");
+  lines.push(result.synthesis);
+  lines.push("");
+  // Reviews archived before findings were parsed only have the synthesis.
+  if (result.findings) lines.push(...formatFindingsTable(result.findings));
+  if (result.coverage) lines.push(...formatCoverageTable(result.coverage));
+  if (result.appliedRules) lines.push(...formatRulesTable(result.appliedRules));
+
+  lines.push(`\n---\n`);
+  lines.push(`## Individual Model Reviews\n`);
+  for (const resp of responses) {
+    const part = resp.chunk
+      ? ` — part ${resp.chunk.index}/${resp.chunk.total} (${resp.chunk.files.join(", ")})`
+      : "";
+    if (resp.error) {
+      lines.push(`### ${resp.modelId}${part} — FAILED\n`);
+      lines.push(`> ${resp.error}\n`);
+    } else {
+      lines.push(`### ${respondent(resp)}${part}\n`);
+      lines.push(...responseNotes(resp));
+      lines.push(`${resp.content}\n`);
+    }
+  }
+
+  // Rounds after the first are cross-examinations of the merged findings.
+  for (const round of result.rounds.slice(1)) {
+    lines.push(`## Cross-examination — Round ${round[0]?.round ?? ""}\n`);
+    lines.push(formatRoundResponses(round));
+  }
+
+  lines.push(
+    `\n---\n*Review completed in ${seconds}s. ` +
+      `${reviewers.length} model(s), ${result.stats.estimatedCost}.*`
+  );
+
+  return lines.join("\n");
+}
+
+/** Final standings with each model's last scores, best option first. */
+function formatStandingsTable(vote: VoteOutcome, lastRound: RoundResponse[]): string[] {
+  const voters = lastRound.filter((r) => !r.error);
+  const final = vote.rounds.at(-1)?.tallies ?? [];
+  const text = (id: string) => vote.options.find((o) => o.id === id)?.text ?? id;
+  return [
+    "## Standings\n",
+    `| Rank | Option | Borda | Mean score | First choice of | ` +
+      voters.map((r) => `${cell(r.fallbackFor ?? r.modelId)} |`).join(" "),
+    `|---|---|---|---|---|` + voters.map(() => "---|").join(""),
+    ...vote.ranking.map((id, i) => {
+      const t = final.find((x) => x.option === id);
+      return (
+        `| ${i + 1} | ${id}. ${cell(text(id))} | ${t?.points ?? 0} | ${t?.meanScore ?? "—"} | ` +
+        `${t?.firstChoices ?? 0} | ` +
+        voters
+          .map((r) => `${r.ballot?.find((s) => s.option === id)?.score ?? "—"} |`)
+          .join(" ")
+      );
+    }),
+    "",
+  ];
+}
+
+/** Mean per-criterion scores in the final round, when criteria were given. */
+function formatCriteriaTable(vote: VoteOutcome): string[] {
+  const final = vote.rounds.at(-1)?.tallies ?? [];
+  if (!vote.criteria.length || !final.some((t) => t.criteria)) return [];
+  return [
+    "## By Criterion\n",
+    `| Option | ${vote.criteria.map(cell).join(" | ")} |`,
+    `|---|${vote.criteria.map(() => "---|").join("")}`,
+    ...vote.ranking.map((id) => {
+      const t = final.find((x) => x.option === id);
+      return `| ${id} | ${vote.criteria.map((c) => t?.criteria?.[c] ?? "—").join(" | ")} |`;
+    }),
+    "",
+  ];
+}
+
+function formatStability(vote: VoteOutcome): string[] {
+  const s = vote.stability;
+  const lines = ["## Stability\n"];
+  if (s.roundAgreement.length) {
+    lines.push(
+      `- Ranking vs. the round before (Kendall's τ, 1 = unchanged): ` +
+        s.roundAgreement.map((r) => `round ${r.round} ${r.tau.toFixed(2)}`).join(", ")
+    );
+  }
+  if (vote.winner) {
+    lines.push(`- ${vote.winner} led in round(s): ${s.winnerLedRounds.join(", ") || "none"}`);
+  }
+  lines.push(
+    `- Changed first choice: ${s.switchedModels.length ? s.switchedModels.join(", ") : "nobody"}`
+  );
+  if (s.modelAgreement !== undefined) {
+    lines.push(
+      `- Agreement between models' final rankings (mean τ): ${s.modelAgreement.toFixed(2)}`
+    );
+  }
+  lines.push("");
+  return lines;
+}
+
+/**
+ * Vote outcome: winner, standings with each model's scores, and how stable
+ * the ranking was, followed by the decision write-up and every ballot.
+ * `result.topic` holds the question.
+ */
+export function formatVoteResult(result: DebateResult): string {
+  const vote = result.vote;
+  const voters = [
+    ...new Set((result.rounds[0] ?? []).map((r) => r.fallbackFor ?? r.modelId)),
+  ];
+  const seconds = (result.stats.totalDurationMs / 1000).toFixed(1);
+
+  const lines: string[] = [];
+  lines.push(`# Vote: ${result.topic}\n`);
+  lines.push(
+    `**Models:** ${voters.join(", ")} | ` +
+      `**Rounds:** ${result.rounds.length} | ` +
+      `**Time:** ${seconds}s | ` +
+      `**Tokens:** ${formatTokenSummary(result.stats)} | ` +
+      `**Cost:** ${result.stats.estimatedCost}`
+  );
+  if (result.modelsFailed.length > 0) {
+    lines.push(`**Failures:** ${result.modelsFailed.join(", ")}`);
+  }
+  if (vote?.winner) {
+    const winner = vote.options.find((o) => o.id === vote.winner);
+    lines.push(
+      `**Winner:** ${vote.winner}. ${winner?.text ?? ""}` +
+        (vote.tieBreak ? ` (${vote.tieBreak})` : "")
+    );
+  } else {
+    lines.push(`**Winner:** none — no ballot could be read`);
+  }
+  lines.push(...budgetLine(result.stats));
+  lines.push("");
+
+  if (vote?.winner) {
+    lines.push(...formatStandingsTable(vote, result.rounds.at(-1) ?? []));
+    lines.push(...formatCriteriaTable(vote));
+    lines.push(...formatStability(vote));
+  }
+  lines.push(result.synthesis);
+  lines.push("");
+
+  lines.push(`\n---\n`);
+  for (const round of result.rounds) {
+    lines.push(`## Ballots — Round ${round[0]?.round ?? ""}\n`);
+    lines.push(formatRoundResponses(round));
+  }
+
+  lines.push(
+    `\n---\n*Vote completed in ${seconds}s. ` +
+      `${voters.length} model(s), ${result.stats.estimatedCost}.*`
+  );
+
+  return lines.join("\n");
+}
+
+/** Re-render an archived run with the formatter that produced it originally. */
+export function formatArchiveEntry(entry: ArchiveEntry): string {
+  const header =
+    `> Archived ${entry.kind} \`${entry.id}\` from ${new Date(entry.createdAt).toISOString()}` +
+    (entry.mode ? ` (${entry.mode} mode)` : "") +
+    "\n\n";
+
+  switch (entry.kind) {
+    case "quick":
+      return header + formatQuickResult(entry.result);
+    case "review":
+      return header + formatReviewResult(entry.result);
+    case "vote":
+      return header + formatVoteResult(entry.result);
+    default:
+      return header + formatResult(entry.result);
+  }
+}
+
+/** "opus (security engineer), sonnet" — participants with their roles. */
+export function formatParticipants(
+  modelIdentifiers: string[],
+  roles: Record<string, ParticipantRole> | undefined
+): string {
+  return modelIdentifiers
+    .map((m) => (roles?.[m] ? `${m} (${roles[m].name})` : m))
+    .join(", ");
+}
+
+/** Hosted prompts: the role line that opens each role-holding model's system message. */
+export function formatRolePrompts(roles: Record<string, ParticipantRole> | undefined): string {
+  if (!roles) return "";
+  return (
+    `**Roles:** start each of these models' system message with its line, then a blank line:\n` +
+    Object.entries(roles)
+      .map(([m, role]) => `- **${m}** (${role.name}): ${withRole("", role).trim()}`)
+      .join("\n") +
+    "\n\n"
+  );
+}
+
+/** Streamed text shown per model while a job is running. */
+const JOB_PARTIAL_MAX_CHARS = 300;
+
+/**
+ * A background job as brainstorm_status shows it: the full transcript once
+ * complete, otherwise where it stands and the rounds it has finished.
+ */
+export function formatJobStatus(job: DebateJob): string {
+  if (job.status === "complete" && job.result) {
+    return formatResult(job.result) + formatArchiveNote(job.archiveId);
+  }
+
+  const seconds = (((job.finishedAt ?? Date.now()) - job.startedAt) / 1000).toFixed(1);
+  const stage = job.phase === "synthesis" ? "synthesis" : `round ${job.round} of ${job.totalRounds}`;
+  const lines = [
+    `# Brainstorm job: ${job.topic}\n`,
+    `**Job:** ${job.id}`,
+    `**Status:** ${job.status} — ${stage} (${seconds}s)`,
+    `**Models:** ${job.modelIdentifiers.join(", ")}`,
+  ];
+  if (job.error) lines.push(`**Error:** ${job.error}`);
+  lines.push("");
+
+  const current = Object.values(job.current);
+  if (job.status === "running" && current.length) {
+    lines.push(
+      job.phase === "synthesis"
+        ? "## Synthesis in progress\n"
+        : `## Round ${job.round} in progress\n`
+    );
+    for (const entry of current) {
+      const partial = entry.partial?.trim() ?? "";
+      lines.push(
+        `- **${entry.modelId}** — ${entry.state}` +
+          (partial ? ` (${partial.length} chars)` : "") +
+          (entry.error ? `: ${entry.error}` : "")
+      );
+      if (entry.state === "thinking" && partial) {
+        const excerpt =
+          partial.length > JOB_PARTIAL_MAX_CHARS
+            ? "…" + partial.slice(-JOB_PARTIAL_MAX_CHARS)
+            : partial;
+        lines.push(`  > ${excerpt.replace(/\s+/g, " ")}`);
+      }
+    }
+    lines.push("");
+  }
+
+  for (let r = 0; r < job.rounds.length; r++) {
+    lines.push(`## Round ${r + 1}\n`);
+    lines.push(formatRoundResponses(job.rounds[r]));
+  }
+
+  lines.push(
+    job.status === "running"
+      ? "*Still running — call `brainstorm_status` again, or `brainstorm_cancel` to stop it.*"
+      : `*No synthesis: the debate ${job.status === "cancelled" ? "was cancelled" : "failed"}.*`
+  );
+  return lines.join("\n");
+}
+
+/** Trailer pointing the reader at brainstorm_get; empty when not archived. */
+export function formatArchiveNote(archiveId: string | undefined): string {
+  return archiveId
+    ? `\n\n*Archived as \`${archiveId}\` — reopen with \`brainstorm_get\`.*`
+    : "";
+}
@@ -0,0 +1,93 @@
+import OpenAI from "openai";
+import { mergeGeneration } from "./models.js";
+import { GenerationOptions, ResolvedModel } from "./types.js";
+
+// gpt-5.x and o-series reasoning models reject non-default temperature
+// ("Only the default (1) value is supported.") and take the token limit as
+// max_completion_tokens. Older models (gpt-4.x etc.) still accept the
+// temperature: 0.7 we want for brainstorm creativity.
+const OPENAI_REASONING_MODEL = /^(gpt-5|o[0-9])/;
+// Reasoning models elsewhere. They ignore or reject temperature too, but
+// their servers generally still expect max_tokens.
+const OTHER_REASONING_MODEL = /(reasoner|thinking|^deepseek-r1|^qwq|^glm-4\.[5-9])/i;
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 4096;
+const DEFAULT_REASONING_MAX_TOKENS = 8192;
+
+/** Sampling settings after config, per-call override and model-id inference. */
+function resolveSampling(model: ResolvedModel, override?: GenerationOptions) {
+  const options = mergeGeneration(model.generation, override) ?? {};
+  const openaiReasoning = OPENAI_REASONING_MODEL.test(model.modelId);
+  const reasoning =
+    options.reasoning ??
+    (openaiReasoning || OTHER_REASONING_MODEL.test(model.modelId));
+
+  const temperature =
+    options.temperature ?? (reasoning ? undefined : DEFAULT_TEMPERATURE);
+  const maxTokens =
+    options.maxTokens ??
+    (reasoning ? DEFAULT_REASONING_MAX_TOKENS : DEFAULT_MAX_TOKENS);
+  return { options, openaiReasoning, temperature, maxTokens };
+}
+
+/**
+ * Chat-completion body and headers for one call. Config options for the
+ * model come first, then `override` (per-call options from the tool);
+ * whatever is still unset is inferred from the model id.
+ */
+export function buildCompletionRequest(
+  model: ResolvedModel,
+  messages: OpenAI.ChatCompletionMessageParam[],
+  override?: GenerationOptions
+): {
+  body: OpenAI.ChatCompletionCreateParamsNonStreaming;
+  headers?: Record<string, string>;
+} {
+  const { options, openaiReasoning, temperature, maxTokens } =
+    resolveSampling(model, override);
+  const tokenParam =
+    options.tokenParam ??
+    (openaiReasoning ? "max_completion_tokens" : "max_tokens");
+
+  const body = {
+    ...options.extraBody,
+    model: model.modelId,
+    messages,
+    [tokenParam]: maxTokens,
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(options.topP !== undefined ? { top_p: options.topP } : {}),
+    ...(options.reasoningEffort
+      ? { reasoning_effort: options.reasoningEffort }
+      : {}),
+  } as OpenAI.ChatCompletionCreateParamsNonStreaming;
+
+  return { body, headers: options.headers };
+}
+
+/**
+ * Anthropic Messages body for one call: the system prompt is a top-level
+ * field and `max_tokens` is mandatory. `tokenParam` and `reasoningEffort`
+ * have no Messages equivalent and are ignored — extended thinking goes
+ * through `extraBody` (`{"thinking": {...}}`).
+ */
+export function buildMessagesRequest(
+  model: ResolvedModel,
+  system: string,
+  user: string,
+  override?: GenerationOptions
+): { body: Record<string, unknown>; headers?: Record<string, string> } {
+  const { options, temperature, maxTokens } = resolveSampling(model, override);
+
+  const body = {
+    ...options.extraBody,
+    model: model.modelId,
+    ...(system ? { system } : {}),
+    messages: [{ role: "user", content: user }],
+    max_tokens: maxTokens,
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(options.topP !== undefined ? { top_p: options.topP } : {}),
+  };
+
+  return { body, headers: options.headers };
+}
@@ -0,0 +1,216 @@
+import { execFile } from "node:child_process";
+import { readFileSync, realpathSync, statSync } from "node:fs";
+import { isAbsolute, join, relative } from "node:path";
+import { parseDiff } from "./diff.js";
+
+const GIT_TIMEOUT_MS = 30_000;
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+/** Files larger than this are not attached as context. */
+export const MAX_CONTEXT_FILE_CHARS = 20_000;
+
+/** `head` values that review uncommitted changes instead of a ref. */
+export const STAGED = "staged";
+export const WORKING_TREE = "working-tree";
+
+export interface GitDiffRequest {
+  repoPath: string;
+  /** Ref to compare against. Default "HEAD" for staged/working-tree changes, required otherwise. */
+  base?: string;
+  /** A ref, "staged" or "working-tree". Default "HEAD". */
+  head?: string;
+  /** Attach the full new contents of every touched file. */
+  includeFileContents?: boolean;
+  /**
+   * When set, the repository must lie inside one of these directories —
+   * both `repoPath` and the top level git resolves it to.
+   */
+  allowedRoots?: string[];
+}
+
+export interface GitDiff {
+  diff: string;
+  /** Top-level directory of the repository. */
+  root: string;
+  /** "main...feature", "staged changes against HEAD", … */
+  range: string;
+  /** Commit subjects in the range, oldest first; empty for uncommitted changes. */
+  commits: string[];
+  /** Path → full new contents, when asked for. */
+  fileContents?: Record<string, string>;
+  /** Touched files left out of `fileContents`, with why. */
+  skippedFiles?: string[];
+}
+
+function git(repoPath: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "git",
+      args,
+      {
+        cwd: repoPath,
+        timeout: GIT_TIMEOUT_MS,
+        maxBuffer: GIT_MAX_BUFFER,
+        env: { ...process.env, GIT_PAGER: "cat", LC_ALL: "C" },
+      },
+      (err, stdout, stderr) => {
+        if (!err) return resolve(stdout);
+        const code = (err as NodeJS.ErrnoException).code;
+        if (code === "ENOENT") {
+          reject(new Error("git not found on PATH. Install git or pass `diff` instead."));
+        } else if (err.killed) {
+          reject(new Error(`git ${args[0]} timed out after ${GIT_TIMEOUT_MS / 1000}s`));
+        } else {
+          reject(new Error(`git ${args[0]} failed: ${stderr.trim() || err.message}`));
+        }
+      }
+    );
+  });
+}
+
+/** Refuse anything git could read as an option rather than a revision. */
+function checkRef(ref: string, name: string): string {
+  const trimmed = ref.trim();
+  if (!trimmed || trimmed.startsWith("-") || /[\s\0]/.test(trimmed)) {
+    throw new Error(`Invalid ${name} ref "${ref}"`);
+  }
+  return trimmed;
+}
+
+/** Whether `path` is one of `roots` or below one, after resolving symlinks. */
+function insideRoots(path: string, roots: string[]): boolean {
+  let real: string;
+  try {
+    real = realpathSync(path);
+  } catch {
+    return false;
+  }
+  return roots.some((root) => {
+    let realRoot: string;
+    try {
+      realRoot = realpathSync(root);
+    } catch {
+      return false;
+    }
+    const rel = relative(realRoot, real);
+    return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+  });
+}
+
+async function verifyCommit(repoPath: string, ref: string, name: string): Promise<void> {
+  try {
+    await git(repoPath, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`]);
+  } catch {
+    throw new Error(`${name} "${ref}" is not a commit in ${repoPath}`);
+  }
+}
+
+async function fileAt(
+  repoPath: string,
+  head: string,
+  path: string
+): Promise<string> {
+  if (head === WORKING_TREE) {
+    // A symlink in the repository may point at any file on the host.
+    const real = realpathSync(join(repoPath, path));
+    if (!insideRoots(real, [repoPath])) throw new Error("links outside the repository");
+    return readFileSync(real, "utf-8");
+  }
+  // ":path" is the index; "ref:path" a committed blob.
+  return git(repoPath, ["show", `${head === STAGED ? "" : head}:${path}`]);
+}
+
+/**
+ * Compute the diff to review by running git in `repoPath`. A ref range is
+ * compared from the merge base (`base...head`), so a branch is reviewed
+ * against where it forked rather than against everything `base` gained
+ * since. Untracked files are not part of a working-tree diff.
+ */
+export async function gitDiff(request: GitDiffRequest): Promise<GitDiff> {
+  let stat;
+  try {
+    stat = statSync(request.repoPath);
+  } catch {
+    throw new Error(`repoPath ${request.repoPath} does not exist`);
+  }
+  if (!stat.isDirectory()) throw new Error(`repoPath ${request.repoPath} is not a directory`);
+  const { allowedRoots } = request;
+  const outsideRoots = () =>
+    new Error(`repoPath ${request.repoPath} is not inside an allowed repository root`);
+  if (allowedRoots && !insideRoots(request.repoPath, allowedRoots)) throw outsideRoots();
+  const repoPath = (await git(request.repoPath, ["rev-parse", "--show-toplevel"])).trim();
+  // A subdirectory of an allowed root may belong to a repository above it.
+  if (allowedRoots && !insideRoots(repoPath, allowedRoots)) throw outsideRoots();
+
+  const head = checkRef(request.head ?? "HEAD", "head");
+  const uncommitted = head === STAGED || head === WORKING_TREE;
+  if (!uncommitted && request.base === undefined) {
+    throw new Error('`base` is required when `head` is a ref, e.g. base: "main"');
+  }
+  const base = checkRef(request.base ?? "HEAD", "base");
+  await verifyCommit(repoPath, base, "base");
+  if (!uncommitted) await verifyCommit(repoPath, head, "head");
+
+  const diffArgs = ["diff", "--no-color", "--no-ext-diff", "--find-renames"];
+  let range: string;
+  if (head === STAGED) {
+    diffArgs.push("--cached", base);
+    range = `staged changes against ${base}`;
+  } else if (head === WORKING_TREE) {
+    diffArgs.push(base);
+    range = `working tree against ${base}`;
+  } else {
+    diffArgs.push(`${base}...${head}`);
+    range = `${base}...${head}`;
+  }
+  const diff = await git(repoPath, [...diffArgs, "--"]);
+
+  const commits = uncommitted
+    ? []
+    : (await git(repoPath, ["log", "--reverse", "--format=%s", `${base}..${head}`, "--"]))
+        .split("\n")
+        .filter(Boolean);
+
+  const result: GitDiff = { diff, root: repoPath, range, commits };
+  if (!request.includeFileContents) return result;
+
+  const fileContents: Record<string, string> = {};
+  const skippedFiles: string[] = [];
+  for (const file of parseDiff(diff)) {
+    if (file.status === "deleted") continue;
+    if (file.binary) {
+      skippedFiles.push(`${file.path} (binary)`);
+      continue;
+    }
+    try {
+      const content = await fileAt(repoPath, head, file.path);
+      if (content.length > MAX_CONTEXT_FILE_CHARS) {
+        skippedFiles.push(`${file.path} (${content.length} chars, over ${MAX_CONTEXT_FILE_CHARS})`);
+      } else {
+        fileContents[file.path] = content;
+      }
+    } catch (err) {
+      skippedFiles.push(`${file.path} (${err instanceof Error ? err.message : String(err)})`);
+    }
+  }
+  result.fileContents = fileContents;
+  if (skippedFiles.length) result.skippedFiles = skippedFiles;
+  return result;
+}
+
+/**
+ * Title and description for a review of `change` when the caller gave
+ * none: one commit titles itself; a branch is described by its commits.
+ */
+export function describeChange(change: GitDiff): { title: string; description?: string } {
+  if (change.commits.length === 1) return { title: change.commits[0] };
+  return {
+    title: change.range,
+    ...(change.commits.length > 1
+      ? {
+          description:
+            `Commits in ${change.range}:\n` + change.commits.map((c) => `- ${c}`).join("\n"),
+        }
+      : {}),
+  };
+}
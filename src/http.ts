@@ -0,0 +1,315 @@
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from "node:http";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { getConfigSection } from "./models.js";
+import { createServer } from "./server.js";
+
+export const DEFAULT_HTTP_PORT = 3100;
+const DEFAULT_HTTP_HOST = "127.0.0.1";
+
+/** Streamable HTTP endpoint. */
+const MCP_PATH = "/mcp";
+/** Legacy SSE: the event stream, and where its client posts messages. */
+const SSE_PATH = "/sse";
+const MESSAGES_PATH = "/messages";
+
+/** Big enough for a sizeable diff or context. */
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+/** Client sessions with no request for this long are closed. */
+const IDLE_SESSION_MS = 30 * 60 * 1000;
+
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "::1", "localhost"]);
+
+interface HttpClient {
+  name: string;
+  /** sha256 of the token, so comparisons take the same time whatever matches. */
+  digest: Buffer;
+}
+
+interface HttpSettings {
+  host: string;
+  port: number;
+  clients: HttpClient[];
+}
+
+/** One MCP client session: its own server instance, reachable only by the client that opened it. */
+interface Connection {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  owner?: string;
+  lastSeen: number;
+  inFlight: number;
+}
+
+/** Bad requests answered with a status and a JSON-RPC error body. */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function digest(token: string): Buffer {
+  return createHash("sha256").update(token).digest();
+}
+
+function positiveNumber(value: unknown): number | undefined {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * Resolve host, port and client tokens from env vars (which win) and the
+ * `http` section of brainstorm.config.json. BRAINSTORM_HTTP_TOKEN adds a
+ * client named "default".
+ */
+function resolveSettings(): HttpSettings {
+  const config = getConfigSection("http") || {};
+  const clients: HttpClient[] = [];
+  for (const [name, value] of Object.entries(config.tokens ?? {})) {
+    const token = value.startsWith("$") ? process.env[value.slice(1)] : value;
+    if (!token) {
+      console.error(`[brainstorm] No token for HTTP client "${name}" (${value} is unset) — skipping it`);
+      continue;
+    }
+    clients.push({ name, digest: digest(token) });
+  }
+  if (process.env.BRAINSTORM_HTTP_TOKEN) {
+    clients.push({ name: "default", digest: digest(process.env.BRAINSTORM_HTTP_TOKEN) });
+  }
+  return {
+    host: process.env.BRAINSTORM_HTTP_HOST || config.host || DEFAULT_HTTP_HOST,
+    port:
+      positiveNumber(process.env.BRAINSTORM_HTTP_PORT) ??
+      positiveNumber(config.port) ??
+      DEFAULT_HTTP_PORT,
+    clients,
+  };
+}
+
+/** The client a bearer token belongs to; undefined for a missing or unknown token. */
+function authenticate(req: IncomingMessage, clients: HttpClient[]): AuthInfo | undefined {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "");
+  if (!match) return undefined;
+  const token = match[1].trim();
+  const presented = digest(token);
+  const client = clients.find((c) => timingSafeEqual(c.digest, presented));
+  return client ? { token, clientId: client.name, scopes: [] } : undefined;
+}
+
+/** "localhost:3100" → "localhost", "[::1]:3100" → "::1". */
+function hostname(hostHeader: string | undefined): string {
+  const host = hostHeader ?? "";
+  return host.startsWith("[") ? host.slice(1, host.indexOf("]")) : host.split(":")[0];
+}
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, `Request body over ${MAX_BODY_BYTES} bytes`);
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+}
+
+function sendError(res: ServerResponse, status: number, message: string): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  const headers: Record<string, string> = { "content-type": "application/json" };
+  if (status === 401) headers["www-authenticate"] = 'Bearer realm="brainstorm"';
+  res.writeHead(status, headers);
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+/** The transport reads the caller's identity from `req.auth` and hands it to tools as `extra.authInfo`. */
+function withAuth(req: IncomingMessage, auth: AuthInfo | undefined) {
+  return Object.assign(req, { auth });
+}
+
+/**
+ * Serve MCP over Streamable HTTP (`/mcp`) and the legacy SSE transport
+ * (`/sse` + `/messages`). Every client session gets its own server
+ * instance; with tokens configured, requests must carry
+ * `Authorization: Bearer <token>`, and a client can only reach the MCP and
+ * debate sessions it started. Without tokens the server only binds to
+ * loopback and only answers requests addressed to it by a loopback name.
+ */
+export async function startHttpServer(): Promise<void> {
+  const { host, port, clients } = resolveSettings();
+  const anonymous = clients.length === 0;
+  if (anonymous && !LOOPBACK_HOSTS.has(host)) {
+    throw new Error(
+      `Refusing to serve on ${host} without authentication — set BRAINSTORM_HTTP_TOKEN ` +
+        "or `http.tokens` in brainstorm.config.json, or bind to 127.0.0.1"
+    );
+  }
+
+  const connections = new Map<string, Connection>();
+
+  /** The caller's connection, or a 404 when it is unknown or belongs to another client. */
+  const connectionFor = (sessionId: string, auth: AuthInfo | undefined): Connection => {
+    const connection = connections.get(sessionId);
+    if (!connection || connection.owner !== auth?.clientId) {
+      throw new HttpError(404, "Session not found");
+    }
+    connection.lastSeen = Date.now();
+    return connection;
+  };
+
+  // A response can outlive handleRequest (it streams), so count it until it closes.
+  const track = (connection: Connection, res: ServerResponse) => {
+    connection.inFlight++;
+    res.once("close", () => {
+      connection.inFlight--;
+      connection.lastSeen = Date.now();
+    });
+  };
+
+  const handleStreamable = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    auth: AuthInfo | undefined
+  ) => {
+    const sessionId = req.headers["mcp-session-id"];
+    const body = req.method === "POST" ? await readBody(req) : undefined;
+
+    if (typeof sessionId === "string") {
+      const connection = connectionFor(sessionId, auth);
+      if (!(connection.transport instanceof StreamableHTTPServerTransport)) {
+        throw new HttpError(400, "Session belongs to the SSE transport");
+      }
+      track(connection, res);
+      await connection.transport.handleRequest(withAuth(req, auth), res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      throw new HttpError(400, "No session: send an initialize request first, without mcp-session-id");
+    }
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        connections.set(id, { transport, owner: auth?.clientId, lastSeen: Date.now(), inFlight: 0 });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) connections.delete(transport.sessionId);
+    };
+    await createServer({ shared: true }).connect(transport);
+    await transport.handleRequest(withAuth(req, auth), res, body);
+  };
+
+  const handleSseStream = async (res: ServerResponse, auth: AuthInfo | undefined) => {
+    const transport = new SSEServerTransport(MESSAGES_PATH, res);
+    const connection: Connection = {
+      transport,
+      owner: auth?.clientId,
+      lastSeen: Date.now(),
+      // The event stream stays open for the life of the session.
+      inFlight: 1,
+    };
+    connections.set(transport.sessionId, connection);
+    res.on("close", () => connections.delete(transport.sessionId));
+    await createServer({ shared: true }).connect(transport);
+  };
+
+  const handleSseMessage = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+    auth: AuthInfo | undefined
+  ) => {
+    const connection = connectionFor(url.searchParams.get("sessionId") ?? "", auth);
+    if (!(connection.transport instanceof SSEServerTransport)) {
+      throw new HttpError(400, "Session belongs to the Streamable HTTP transport");
+    }
+    const transport = connection.transport;
+    const body = await readBody(req);
+    await transport.handlePostMessage(withAuth(req, auth), res, body);
+  };
+
+  const server = createHttpServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      if (url.pathname === "/health") {
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify({ status: "ok", sessions: connections.size }));
+        return;
+      }
+
+      let auth: AuthInfo | undefined;
+      if (anonymous) {
+        // Without tokens, a web page could reach a loopback server through
+        // DNS rebinding; it would have to name a host other than loopback.
+        if (!LOOPBACK_HOSTS.has(hostname(req.headers.host))) {
+          throw new HttpError(403, "Host not allowed");
+        }
+      } else {
+        auth = authenticate(req, clients);
+        if (!auth) throw new HttpError(401, "Missing or invalid bearer token");
+      }
+
+      if (url.pathname === MCP_PATH) {
+        await handleStreamable(req, res, auth);
+      } else if (url.pathname === SSE_PATH && req.method === "GET") {
+        await handleSseStream(res, auth);
+      } else if (url.pathname === MESSAGES_PATH && req.method === "POST") {
+        await handleSseMessage(req, res, url, auth);
+      } else {
+        throw new HttpError(404, "Not found");
+      }
+    } catch (err) {
+      if (err instanceof HttpError) {
+        sendError(res, err.status, err.message);
+        return;
+      }
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[brainstorm] HTTP request failed: ${message}`);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - IDLE_SESSION_MS;
+    for (const connection of connections.values()) {
+      if (connection.inFlight === 0 && connection.lastSeen < cutoff) {
+        void connection.transport.close();
+      }
+    }
+  }, 60_000);
+  sweep.unref();
+
+  const shutdown = () => {
+    clearInterval(sweep);
+    for (const connection of connections.values()) void connection.transport.close();
+    server.close(() => process.exit(0));
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => resolve());
+  });
+  const base = `http://${host.includes(":") ? `[${host}]` : host}:${port}`;
+  console.error(
+    `Brainstorm MCP server running on ${base}${MCP_PATH} (Streamable HTTP) and ` +
+      `${base}${SSE_PATH} (SSE), ` +
+      (anonymous
+        ? "without authentication (loopback only)"
+        : `${clients.length} client token(s)`)
+  );
+}
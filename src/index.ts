@@ -1,30 +1,31 @@
 #!/usr/bin/env node
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { registerBrainstormTool } from "./tools/brainstorm.js";
-import { registerBrainstormRespondTool } from "./tools/brainstorm-respond.js";
-import { registerBrainstormCollectTool } from "./tools/brainstorm-collect.js";
-import { registerListProvidersTool } from "./tools/list-models.js";
-import { registerAddProviderTool } from "./tools/add-model.js";
-import { registerBrainstormQuickTool } from "./tools/brainstorm-quick.js";
-import { registerBrainstormReviewTool } from "./tools/brainstorm-review.js";
 import { loadProviders } from "./models.js";
+import { isCommand, runCommand } from "./command.js";
+import { createServer } from "./server.js";
+import { startHttpServer } from "./http.js";
 
 loadProviders();
 
-const server = new McpServer({
-  name: "brainstorm",
-  version: "1.6.0",
-});
+// `brainstorm-mcp debate ...` and friends run once from the shell; with no
+// command this is the MCP server.
+if (isCommand(process.argv[2])) {
+  process.exit(await runCommand(process.argv.slice(2)));
+}
 
-registerBrainstormTool(server);
-registerBrainstormRespondTool(server);
-registerBrainstormCollectTool(server);
-registerBrainstormQuickTool(server);
-registerBrainstormReviewTool(server);
-registerListProvidersTool(server);
-registerAddProviderTool(server);
-
-const transport = new StdioServerTransport();
-await server.connect(transport);
-console.error("Brainstorm MCP server running on stdio");
+if (process.argv.includes("--http") || process.env.BRAINSTORM_TRANSPORT === "http") {
+  try {
+    await startHttpServer();
+  } catch (err) {
+    console.error(`[brainstorm] ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+} else {
+  // Leave through process.exit, so CLI providers (in process groups of their
+  // own) are killed on the way out rather than orphaned.
+  process.once("SIGINT", () => process.exit(0));
+  process.once("SIGTERM", () => process.exit(0));
+  const transport = new StdioServerTransport();
+  await createServer().connect(transport);
+  console.error("Brainstorm MCP server running on stdio");
+}
@@ -0,0 +1,173 @@
+import { randomUUID } from "crypto";
+import { CancelledError } from "./retry.js";
+import {
+  DebateJob,
+  DebateResult,
+  JobModelProgress,
+  ProgressCallback,
+  ProgressEvent,
+  RoundResponse,
+} from "./types.js";
+
+/** Finished jobs are kept this long for brainstorm_status to pick up. */
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+const MAX_FINISHED_JOBS = 50;
+
+/** What a job's run function is handed to report back and be stopped with. */
+export interface JobHooks {
+  signal: AbortSignal;
+  onProgress: ProgressCallback;
+  onRound: (responses: RoundResponse[], round: number) => void;
+}
+
+interface JobEntry {
+  job: DebateJob;
+  controller: AbortController;
+  /** Settles once the run has stopped, whichever way. */
+  done: Promise<void>;
+}
+
+// Jobs hold live requests and child processes, so unlike sessions they only
+// ever live in this process.
+const jobs = new Map<string, JobEntry>();
+
+function pruneFinished(): void {
+  const finished = Array.from(jobs.values())
+    .filter((e) => e.job.finishedAt !== undefined)
+    .sort((a, b) => (a.job.finishedAt ?? 0) - (b.job.finishedAt ?? 0));
+  const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+  finished.forEach((e, i) => {
+    if ((e.job.finishedAt ?? 0) < cutoff || finished.length - i > MAX_FINISHED_JOBS) {
+      jobs.delete(e.job.id);
+    }
+  });
+}
+
+function thinking(job: DebateJob, modelId: string): JobModelProgress {
+  return (job.current[modelId] = { modelId, state: "thinking" });
+}
+
+/** Keep `job.round`, `phase` and `current` in step with the debate's progress events. */
+function track(job: DebateJob, event: ProgressEvent): void {
+  switch (event.type) {
+    case "round_start":
+      job.round = event.round ?? job.round + 1;
+      job.current = {};
+      return;
+    case "synthesis_start":
+      job.phase = "synthesis";
+      job.current = {};
+      if (event.modelId) thinking(job, event.modelId);
+      return;
+    case "model_start":
+      if (event.modelId) thinking(job, event.modelId);
+      return;
+    case "model_fallback":
+      if (event.fallbackModelId) thinking(job, event.fallbackModelId);
+      return;
+    case "model_delta": {
+      if (!event.modelId || !event.delta) return;
+      const entry = job.current[event.modelId] ?? thinking(job, event.modelId);
+      entry.partial = (entry.partial ?? "") + event.delta;
+      return;
+    }
+    case "model_done":
+    case "synthesis_done":
+      if (event.modelId && job.current[event.modelId]) {
+        job.current[event.modelId].state = event.error ? "failed" : "done";
+      }
+      return;
+    case "model_failed":
+      if (event.modelId && job.current[event.modelId]) {
+        job.current[event.modelId].state = "failed";
+        job.current[event.modelId].error = event.error;
+      }
+      return;
+  }
+}
+
+/**
+ * Start `run` in the background and return its job straight away. Progress
+ * goes to stderr and into the job, so brainstorm_status can show the round
+ * in flight and whatever the models have streamed so far.
+ */
+export function startJob(
+  params: { topic: string; modelIdentifiers: string[]; totalRounds: number; owner?: string },
+  run: (hooks: JobHooks) => Promise<{ result: DebateResult; archiveId?: string }>
+): DebateJob {
+  pruneFinished();
+
+  const job: DebateJob = {
+    ...params,
+    id: randomUUID(),
+    status: "running",
+    startedAt: Date.now(),
+    round: 0,
+    phase: "round",
+    rounds: [],
+    current: {},
+  };
+  const controller = new AbortController();
+
+  const onProgress: ProgressCallback = (message, event) => {
+    if (event?.type !== "model_delta") {
+      console.error(`[brainstorm] job ${job.id.slice(0, 8)}: ${message}`);
+    }
+    if (event) track(job, event);
+  };
+  const onRound = (responses: RoundResponse[]) => {
+    job.rounds.push(responses);
+    for (const resp of responses) {
+      job.current[resp.modelId] = resp.error
+        ? { modelId: resp.modelId, state: "failed", error: resp.error }
+        : { modelId: resp.modelId, state: "done", partial: resp.content };
+    }
+  };
+
+  const done = run({ signal: controller.signal, onProgress, onRound })
+    .then(
+      ({ result, archiveId }) => {
+        job.status = "complete";
+        job.result = result;
+        job.archiveId = archiveId;
+      },
+      (err) => {
+        job.status = err instanceof CancelledError ? "cancelled" : "failed";
+        job.error = err instanceof Error ? err.message : String(err);
+        console.error(`[brainstorm] job ${job.id.slice(0, 8)} ${job.status}: ${job.error}`);
+      }
+    )
+    .finally(() => {
+      job.finishedAt = Date.now();
+      if (job.status !== "complete") {
+        for (const entry of Object.values(job.current)) {
+          if (entry.state === "thinking") entry.state = "failed";
+        }
+      }
+    });
+
+  jobs.set(job.id, { job, controller, done });
+  return job;
+}
+
+/**
+ * A job by id. `owner` is the calling client over HTTP; another client's
+ * job is reported as missing, as for sessions.
+ */
+export function getJob(id: string, owner?: string): DebateJob | undefined {
+  pruneFinished();
+  const entry = jobs.get(id);
+  return entry && entry.job.owner === owner ? entry.job : undefined;
+}
+
+/**
+ * Abort a running job — in-flight requests are dropped and CLI children
+ * killed — and wait for it to wind down. A finished job is left as it is.
+ */
+export async function cancelJob(job: DebateJob): Promise<DebateJob> {
+  const entry = jobs.get(job.id);
+  if (!entry || job.status !== "running") return job;
+  entry.controller.abort();
+  await entry.done;
+  return job;
+}
@@ -1,6 +1,20 @@
 import { readFileSync } from "fs";
-import { resolve } from "path";
-import { CliSpec, ProviderConfig, ResolvedModel } from "./types.js";
+import { homedir } from "os";
+import { join, resolve } from "path";
+import {
+  ArchiveConfig,
+  CliSpec,
+  FallbackMap,
+  GenerationOptions,
+  HttpServerConfig,
+  ModelPricing,
+  ProviderConfig,
+  ProviderLimits,
+  ResolvedModel,
+  RetryPolicy,
+  ReviewRulesConfig,
+  SessionStoreConfig,
+} from "./types.js";
 import {
   AUTODETECT_ORDER,
   BUILTIN_CLIS,
@@ -12,6 +26,7 @@ import {
 } from "./cli.js";
 
 const providers = new Map<string, ProviderConfig>();
+let loadedConfig: ConfigFile | undefined;
 
 // Known base URLs for common providers (used when not specified in config)
 const KNOWN_BASE_URLS: Record<string, string> = {
@@ -36,8 +51,43 @@ const KNOWN_DEFAULT_MODELS: Record<string, string> = {
   glm: "glm-4.6",
 };
 
+// Anthropic Messages endpoints. The vendors' Anthropic-compatible endpoints
+// are the ones their Claude CLI backends use.
+const ANTHROPIC_BASE_URLS: Record<string, string> = {
+  anthropic: "https://api.anthropic.com",
+  ...Object.fromEntries(
+    Object.entries(CLAUDE_CLI_BACKENDS).map(([name, b]) => [name, b.baseURL])
+  ),
+};
+
+/**
+ * Base URL, key variable and default model for an "anthropic" provider of
+ * this name, or undefined for a name we have no defaults for.
+ */
+export function anthropicDefaults(
+  name: string
+): { baseURL: string; apiKeyEnvVar: string; defaultModel: string } | undefined {
+  if (name === "anthropic") {
+    return {
+      baseURL: ANTHROPIC_BASE_URLS.anthropic,
+      apiKeyEnvVar: "ANTHROPIC_API_KEY",
+      defaultModel: "claude-sonnet-4-5",
+    };
+  }
+  const backend = CLAUDE_CLI_BACKENDS[name];
+  if (!backend) return undefined;
+  return {
+    baseURL: backend.baseURL,
+    apiKeyEnvVar: backend.tokenEnv,
+    defaultModel: backend.defaultModel,
+  };
+}
+
 interface ConfigFileProvider {
-  /** "cli" for a locally installed agent CLI, anything else = OpenAI-compatible API. */
+  /**
+   * "cli" for a locally installed agent CLI, "anthropic" for an Anthropic
+   * Messages endpoint, anything else = OpenAI-compatible API.
+   */
   type?: string;
   model?: string;
   apiKeyEnv?: string;
@@ -55,10 +105,36 @@ interface ConfigFileProvider {
   usesOutputFile?: boolean;
   timeoutMs?: number;
   cwd?: string;
+  /** api/anthropic only: per-provider override of the top-level `retry` section. */
+  retry?: Partial<RetryPolicy>;
+  /** api/anthropic only: set false for servers that cannot stream completions. */
+  stream?: boolean;
+  /** api/anthropic only: request options for every model of this provider. */
+  generation?: GenerationOptions;
+  /** api/anthropic only: per-model request options, keyed by bare model id. */
+  models?: Record<string, GenerationOptions>;
+  /** Per-provider override of the top-level `limits` section. */
+  limits?: ProviderLimits;
 }
 
 interface ConfigFile {
   providers: Record<string, ConfigFileProvider>;
+  sessions?: SessionStoreConfig;
+  archive?: ArchiveConfig;
+  /**
+   * USD per million tokens, keyed by "provider:model", "provider:*", bare
+   * model name, or "default".
+   */
+  pricing?: Record<string, ModelPricing>;
+  retry?: Partial<RetryPolicy>;
+  /** Call limits every provider gets unless it sets its own. */
+  limits?: ProviderLimits;
+  /** "provider:model" participant → substitutes to try when it fails. */
+  fallbacks?: FallbackMap;
+  review?: ReviewRulesConfig;
+  /** Role presets: name → description, on top of the built-in ones. */
+  roles?: Record<string, string>;
+  http?: HttpServerConfig;
 }
 
 /**
@@ -81,20 +157,27 @@ export function loadProviders(): void {
   try {
     const raw = readFileSync(configPath, "utf-8");
     const config: ConfigFile = JSON.parse(raw);
+    loadedConfig = config;
 
     if (config.providers && typeof config.providers === "object") {
       for (const [name, p] of Object.entries(config.providers)) {
         if (p.type === "cli") {
           const cliProvider = buildCliProvider(name, p);
-          if (cliProvider) providers.set(name, cliProvider);
+          if (cliProvider) {
+            providers.set(name, p.limits ? { ...cliProvider, limits: p.limits } : cliProvider);
+          }
           continue;
         }
 
+        const kind = p.type === "anthropic" ? "anthropic" : "api";
+        const defaults = kind === "anthropic" ? anthropicDefaults(name) : undefined;
         const baseURL =
           p.baseURL ||
-          KNOWN_BASE_URLS[name] ||
-          KNOWN_BASE_URLS[p.type || ""] ||
+          (kind === "anthropic"
+            ? defaults?.baseURL
+            : KNOWN_BASE_URLS[name] || KNOWN_BASE_URLS[p.type || ""]) ||
           "";
+        const model = p.model || defaults?.defaultModel;
 
         if (!baseURL) {
           console.error(
@@ -103,7 +186,7 @@ export function loadProviders(): void {
           continue;
         }
 
-        if (!p.model) {
+        if (!model) {
           console.error(
             `[brainstorm] Skipping provider "${name}": no default model configured.`
           );
@@ -112,10 +195,15 @@ export function loadProviders(): void {
 
         providers.set(name, {
           name,
-          kind: "api",
+          kind,
           baseURL,
-          apiKeyEnvVar: p.apiKeyEnv || "NONE",
-          defaultModel: p.model,
+          apiKeyEnvVar: p.apiKeyEnv || defaults?.apiKeyEnvVar || "NONE",
+          defaultModel: model,
+          ...(p.retry ? { retry: p.retry } : {}),
+          ...(p.stream !== undefined ? { stream: p.stream } : {}),
+          ...(p.generation ? { generation: p.generation } : {}),
+          ...(p.models ? { modelGeneration: p.models } : {}),
+          ...(p.limits ? { limits: p.limits } : {}),
         });
       }
       console.error(
@@ -339,6 +427,18 @@ function loadFromEnvVars(): void {
   }
 }
 
+/** Resolve a user-supplied directory, expanding a leading "~". */
+export function expandHome(dir: string): string {
+  return dir.startsWith("~") ? join(homedir(), dir.slice(1)) : resolve(dir);
+}
+
+/** Top-level sections of brainstorm.config.json other than `providers`. */
+export function getConfigSection<K extends Exclude<keyof ConfigFile, "providers">>(
+  key: K
+): ConfigFile[K] | undefined {
+  return loadedConfig?.[key];
+}
+
 export function getProvider(name: string): ProviderConfig | undefined {
   return providers.get(name);
 }
@@ -403,9 +503,38 @@ export function resolveModel(identifier: string): ResolvedModel {
     baseURL: provider.baseURL,
     apiKeyEnvVar: provider.apiKeyEnvVar,
     cli: provider.cli,
+    retry: provider.retry,
+    stream: provider.stream,
+    limits: provider.limits,
+    generation: mergeGeneration(
+      provider.generation,
+      provider.modelGeneration?.[modelId]
+    ),
   };
 }
 
+/**
+ * Layer generation options; later layers win field by field, and `headers`
+ * and `extraBody` are merged key by key rather than replaced.
+ */
+export function mergeGeneration(
+  ...layers: (GenerationOptions | undefined)[]
+): GenerationOptions | undefined {
+  const present = layers.filter((l): l is GenerationOptions => !!l);
+  if (!present.length) return undefined;
+  const merged: GenerationOptions = {};
+  for (const layer of present) {
+    const { headers, extraBody, ...rest } = layer;
+    for (const [key, value] of Object.entries(rest)) {
+      // Unset tool arguments arrive as undefined and must not mask config.
+      if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+    }
+    if (headers) merged.headers = { ...merged.headers, ...headers };
+    if (extraBody) merged.extraBody = { ...merged.extraBody, ...extraBody };
+  }
+  return merged;
+}
+
 /** True when the identifier maps to a subscription-backed CLI (no API cost). */
 export function isCliModel(identifier: string): boolean {
   const providerName = identifier.slice(0, identifier.indexOf(":"));
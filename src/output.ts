@@ -0,0 +1,395 @@
+import { z } from "zod";
+import { reviewFindingSchema, SEVERITIES } from "./findings.js";
+import { DebateJob, OutputMode } from "./types.js";
+
+// Zod mirrors of the result types in types.ts, declared as tool output
+// schemas so clients can consume `structuredContent` without parsing Markdown.
+
+const tokenUsageSchema = z.object({
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  reasoningTokens: z.number().optional(),
+  cachedTokens: z.number().optional(),
+  estimated: z.boolean().optional(),
+});
+
+const optionScoreSchema = z.object({
+  option: z.string(),
+  score: z.number(),
+  criteria: z.record(z.string(), z.number()).optional(),
+  reason: z.string().optional(),
+});
+
+const roundResponseSchema = z.object({
+  modelId: z.string(),
+  round: z.number(),
+  content: z.string(),
+  error: z.string().optional(),
+  usage: tokenUsageSchema.optional(),
+  truncated: z.boolean().optional(),
+  queuedMs: z.number().optional(),
+  fallbackFor: z.string().optional(),
+  fallbackReason: z.string().optional(),
+  findings: z.array(reviewFindingSchema).optional(),
+  findingsError: z.string().optional(),
+  ballot: z.array(optionScoreSchema).optional(),
+  ballotError: z.string().optional(),
+  role: z.string().optional(),
+  chunk: z
+    .object({ index: z.number(), total: z.number(), files: z.array(z.string()) })
+    .optional(),
+  assessments: z
+    .array(
+      z.object({
+        id: z.string(),
+        stance: z.enum(["confirm", "dispute", "downgrade"]),
+        severity: z.enum(SEVERITIES).optional(),
+        reason: z.string().optional(),
+      })
+    )
+    .optional(),
+});
+
+const debateStatsSchema = z.object({
+  totalDurationMs: z.number(),
+  estimatedTokens: z.number(),
+  estimatedCost: z.string(),
+  costUsd: z.number().optional(),
+  budgetNote: z.string().optional(),
+  promptTokens: z.number().optional(),
+  completionTokens: z.number().optional(),
+  reasoningTokens: z.number().optional(),
+  usageEstimated: z.boolean().optional(),
+  perModel: z
+    .record(
+      z.string(),
+      tokenUsageSchema.extend({
+        calls: z.number(),
+        costUsd: z.number().optional(),
+        queueWaitMs: z.number().optional(),
+      })
+    )
+    .optional(),
+  perRound: z.array(tokenUsageSchema).optional(),
+  synthesisUsage: tokenUsageSchema.optional(),
+  queueWaitMs: z.number().optional(),
+  convergence: z
+    .array(
+      z.object({
+        round: z.number(),
+        agreement: z.number(),
+        pairs: z.array(
+          z.object({ models: z.tuple([z.string(), z.string()]), agreement: z.number() })
+        ),
+        shift: z.record(z.string(), z.number()).optional(),
+      })
+    )
+    .optional(),
+  consensusNote: z.string().optional(),
+});
+
+const verdictSchema = z.enum(["approve", "approve with warnings", "needs changes"]);
+
+const debateResultSchema = z.object({
+  topic: z.string(),
+  rounds: z.array(z.array(roundResponseSchema)),
+  synthesis: z.string(),
+  modelsFailed: z.array(z.string()),
+  stats: debateStatsSchema,
+  findings: z
+    .array(
+      reviewFindingSchema.extend({
+        models: z.array(z.string()),
+        agreement: z
+          .object({
+            confirmed: z.array(z.string()),
+            disputed: z.array(z.string()),
+            downgraded: z.array(z.string()),
+            survived: z.boolean(),
+            reportedSeverity: z.enum(SEVERITIES).optional(),
+          })
+          .optional(),
+      })
+    )
+    .optional(),
+  coverage: z
+    .array(
+      z.object({
+        file: z.string(),
+        models: z.array(z.string()),
+        missing: z.array(z.string()),
+      })
+    )
+    .optional(),
+  appliedRules: z
+    .array(
+      z.object({
+        source: z.string(),
+        files: z.array(z.string()).optional(),
+        instructions: z.string(),
+        matched: z.array(z.string()).optional(),
+      })
+    )
+    .optional(),
+  vote: z
+    .object({
+      options: z.array(z.object({ id: z.string(), text: z.string() })),
+      criteria: z.array(z.string()),
+      rounds: z.array(
+        z.object({
+          round: z.number(),
+          tallies: z.array(
+            z.object({
+              option: z.string(),
+              points: z.number(),
+              meanScore: z.number(),
+              criteria: z.record(z.string(), z.number()).optional(),
+              firstChoices: z.number(),
+            })
+          ),
+        })
+      ),
+      ranking: z.array(z.string()),
+      winner: z.string().optional(),
+      tieBreak: z.string().optional(),
+      stability: z.object({
+        roundAgreement: z.array(z.object({ round: z.number(), tau: z.number() })),
+        winnerLedRounds: z.array(z.number()),
+        switchedModels: z.array(z.string()),
+        modelAgreement: z.number().optional(),
+      }),
+    })
+    .optional(),
+  verdict: verdictSchema.optional(),
+});
+
+const hostedPromptSchema = z.object({
+  system: z.string(),
+  user: z.string(),
+  /** Labels the host should run the prompt with. */
+  models: z.array(z.string()),
+  /** Per-label system message, replacing `system`, for participants with a role. */
+  systems: z.record(z.string(), z.string()).optional(),
+});
+
+/**
+ * Output of `brainstorm`, `brainstorm_respond` and `brainstorm_collect`.
+ * `status` says which of the optional fields are present.
+ */
+export const debateOutputShape = {
+  status: z
+    .enum(["needs_mode", "awaiting_response", "awaiting_collect", "running", "complete"])
+    .describe(
+      "'needs_mode': call again with `mode`. 'awaiting_response': submit your turn with " +
+        "brainstorm_respond. 'awaiting_collect': run `prompt` and call brainstorm_collect. " +
+        "'running': the debate runs in the background as job `jobId`; poll brainstorm_status. " +
+        "'complete': `result` holds the finished debate."
+    ),
+  sessionId: z.string().optional(),
+  jobId: z.string().optional(),
+  round: z.number().optional().describe("Round awaiting a response or prompt"),
+  totalRounds: z.number().optional(),
+  phase: z.enum(["round", "synthesis"]).optional(),
+  responses: z
+    .array(roundResponseSchema)
+    .optional()
+    .describe("External models' responses for `round` (awaiting_response)"),
+  prompt: hostedPromptSchema.optional().describe("Prompt for the host to run (awaiting_collect)"),
+  result: debateResultSchema.optional(),
+  archiveId: z.string().optional(),
+};
+
+/** Output of `brainstorm_quick`, `brainstorm_review`, `brainstorm_vote` and `brainstorm_get`. */
+export const resultOutputShape = {
+  kind: z.enum(["debate", "quick", "review", "vote"]),
+  result: debateResultSchema,
+  /** review only: the verdict, also found on `result`. */
+  verdict: verdictSchema.optional(),
+  archiveId: z.string().optional(),
+  /** review only: the exports asked for with `export`. */
+  exports: z
+    .object({
+      sarif: z.record(z.string(), z.unknown()).optional().describe("SARIF 2.1.0 log"),
+      githubAnnotations: z
+        .array(
+          z.object({
+            path: z.string(),
+            start_line: z.number(),
+            end_line: z.number(),
+            annotation_level: z.enum(["failure", "warning", "notice"]),
+            title: z.string(),
+            message: z.string(),
+          })
+        )
+        .optional()
+        .describe("`output.annotations` for the GitHub check runs API"),
+      githubReviewComments: z
+        .array(
+          z.object({
+            path: z.string(),
+            line: z.number(),
+            start_line: z.number().optional(),
+            side: z.literal("RIGHT"),
+            start_side: z.literal("RIGHT").optional(),
+            body: z.string(),
+          })
+        )
+        .optional()
+        .describe("`comments` for the GitHub pull request reviews API"),
+    })
+    .optional(),
+};
+
+/** Output of `brainstorm_status` and `brainstorm_cancel`. */
+export const jobOutputShape = {
+  jobId: z.string(),
+  status: z
+    .enum(["running", "complete", "failed", "cancelled"])
+    .describe(
+      "'running': poll again. 'complete': `result` holds the finished debate. " +
+        "'failed' / 'cancelled': `error` says why; `rounds` keeps the rounds that completed."
+    ),
+  topic: z.string(),
+  models: z.array(z.string()),
+  round: z.number().describe("Round in progress, or the last one run"),
+  totalRounds: z.number(),
+  phase: z.enum(["round", "synthesis"]),
+  elapsedMs: z.number(),
+  current: z
+    .array(
+      z.object({
+        modelId: z.string(),
+        state: z.enum(["thinking", "done", "failed"]),
+        partial: z.string().optional(),
+        error: z.string().optional(),
+      })
+    )
+    .describe("Models in the current round or synthesis, with the text they have streamed so far"),
+  rounds: z.array(z.array(roundResponseSchema)).describe("Rounds completed so far"),
+  result: debateResultSchema.optional(),
+  archiveId: z.string().optional(),
+  error: z.string().optional(),
+};
+
+const archiveSummarySchema = z.object({
+  id: z.string(),
+  kind: z.enum(["debate", "quick", "review", "vote"]),
+  createdAt: z.number().describe("Epoch milliseconds"),
+  topic: z.string(),
+  models: z.array(z.string()),
+  style: z.string().optional(),
+  mode: z.enum(["api", "interactive", "hosted"]).optional(),
+});
+
+/** Output of `brainstorm_history`: archived runs, newest first, without their transcripts. */
+export const historyOutputShape = {
+  entries: z.array(archiveSummarySchema),
+};
+
+const providerInfoSchema = z.object({
+  name: z.string(),
+  kind: z.enum(["api", "anthropic", "cli"]),
+  defaultModel: z.string(),
+  /** api/anthropic only. */
+  baseURL: z.string().optional(),
+  apiKeyEnvVar: z.string().optional(),
+  apiKeySet: z.boolean().optional(),
+  /** cli only. */
+  adapter: z.string().optional(),
+  command: z.string().optional(),
+  installed: z.boolean().optional().describe("cli only: whether `command` is on PATH"),
+  support: z.enum(["verified", "best-effort"]).optional().describe("cli only: built-in adapters"),
+  backendURL: z.string().optional().describe("cli only: endpoint a Claude CLI backend points at"),
+  backendTokenEnv: z.string().optional(),
+  backendTokenSet: z.boolean().optional(),
+  note: z.string().optional(),
+});
+
+/** Output of `list_providers`. */
+export const providersOutputShape = {
+  providers: z.array(providerInfoSchema),
+};
+
+/** Output of `add_provider`: the provider as `list_providers` would now show it. */
+export const addProviderOutputShape = {
+  provider: providerInfoSchema,
+};
+
+export type DebateOutput = z.infer<z.ZodObject<typeof debateOutputShape>>;
+export type ResultOutput = z.infer<z.ZodObject<typeof resultOutputShape>>;
+export type JobOutput = z.infer<z.ZodObject<typeof jobOutputShape>>;
+export type HistoryOutput = z.infer<z.ZodObject<typeof historyOutputShape>>;
+export type ProvidersOutput = z.infer<z.ZodObject<typeof providersOutputShape>>;
+export type AddProviderOutput = z.infer<z.ZodObject<typeof addProviderOutputShape>>;
+export type ProviderInfo = z.infer<typeof providerInfoSchema>;
+
+/** A job as brainstorm_status reports it. */
+export function jobOutput(job: DebateJob): JobOutput {
+  return {
+    jobId: job.id,
+    status: job.status,
+    topic: job.topic,
+    models: job.modelIdentifiers,
+    round: job.round,
+    totalRounds: job.totalRounds,
+    phase: job.phase,
+    elapsedMs: (job.finishedAt ?? Date.now()) - job.startedAt,
+    current: Object.values(job.current),
+    rounds: job.rounds,
+    ...(job.result ? { result: job.result } : {}),
+    ...(job.archiveId ? { archiveId: job.archiveId } : {}),
+    ...(job.error ? { error: job.error } : {}),
+  };
+}
+
+export const outputArg = z
+  .enum(["markdown", "json", "both"])
+  .optional()
+  .describe(
+    "Optional: how the text content is rendered. 'markdown' (default) is the readable " +
+      "transcript, 'json' the typed payload serialized, 'both' one of each. The typed payload " +
+      "is always attached as structured content."
+  );
+
+export const exportArg = z
+  .array(z.enum(["sarif", "github", "github-review"]))
+  .optional()
+  .describe(
+    "Optional: CI exports of the findings. 'sarif' is a SARIF 2.1.0 log for code scanning, " +
+      "'github' annotations for the check runs API, 'github-review' inline comments for the " +
+      "pull request reviews API. Each is returned as its own JSON text block and under " +
+      "`exports` in the structured content."
+  );
+
+/**
+ * A tool result carrying `payload` as structured content, with the text
+ * content rendered as `output` asks. Review exports follow as one JSON
+ * block each, so they can be piped to CI as-is.
+ */
+export function toolResult(
+  markdown: string,
+  payload:
+    | DebateOutput
+    | ResultOutput
+    | JobOutput
+    | HistoryOutput
+    | ProvidersOutput
+    | AddProviderOutput,
+  output: OutputMode = "markdown"
+) {
+  const json = { type: "text" as const, text: JSON.stringify(payload, null, 2) };
+  const text = { type: "text" as const, text: markdown };
+  const exports = "exports" in payload && payload.exports
+    ? Object.values(payload.exports).map((data) => ({
+        type: "text" as const,
+        text: JSON.stringify(data, null, 2),
+      }))
+    : [];
+  return {
+    content: [
+      ...(output === "json" ? [json] : output === "both" ? [text, json] : [text]),
+      ...exports,
+    ],
+    structuredContent: payload as Record<string, unknown>,
+  };
+}
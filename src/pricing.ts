@@ -0,0 +1,144 @@
+import { getConfigSection, getProvider, isCliModel } from "./models.js";
+import { ModelPricing, RoundResponse, TokenUsage } from "./types.js";
+
+// Approximate list prices, USD per 1M tokens. Anything here can be overridden
+// (or added to) in the `pricing` section of brainstorm.config.json.
+const BUILTIN_PRICING: Record<string, ModelPricing> = {
+  "gpt-4o": { input: 2.5, output: 10, cachedInput: 1.25 },
+  "gpt-4.1": { input: 2, output: 8, cachedInput: 0.5 },
+  "gpt-5": { input: 1.25, output: 10, cachedInput: 0.125 },
+  "gpt-5-mini": { input: 0.25, output: 2, cachedInput: 0.025 },
+  "gpt-5-nano": { input: 0.05, output: 0.4, cachedInput: 0.005 },
+  "gpt-5-pro": { input: 15, output: 120 },
+  "gpt-5.1": { input: 1.25, output: 10, cachedInput: 0.125 },
+  "gpt-5.2": { input: 1.75, output: 14, cachedInput: 0.175 },
+  "gpt-5.2-pro": { input: 21, output: 168 },
+  "gpt-5.3-codex": { input: 1.75, output: 14, cachedInput: 0.175 },
+  "gpt-5.4": { input: 2.5, output: 15, cachedInput: 0.25 },
+  "gpt-5.4-pro": { input: 30, output: 180 },
+  "o3": { input: 2, output: 8, cachedInput: 0.5 },
+  "o4-mini": { input: 1.1, output: 4.4, cachedInput: 0.275 },
+  "deepseek-chat": { input: 0.28, output: 0.42, cachedInput: 0.028 },
+  "deepseek-reasoner": { input: 0.28, output: 0.42, cachedInput: 0.028 },
+  "gemini-2.5-pro": { input: 1.25, output: 10, cachedInput: 0.125 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5, cachedInput: 0.03 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  "claude-opus-4-1": { input: 15, output: 75, cachedInput: 1.5 },
+  "claude-opus-4-5": { input: 5, output: 25, cachedInput: 0.5 },
+  "claude-sonnet-4-5": { input: 3, output: 15, cachedInput: 0.3 },
+  "claude-haiku-4-5": { input: 1, output: 5, cachedInput: 0.1 },
+};
+
+// Unknown models are priced high on purpose: a budget cap should err towards
+// stopping early, not towards overspending.
+const DEFAULT_PRICING: ModelPricing = { input: 3, output: 15 };
+
+/** Completion length assumed for a model we have not heard from yet. */
+export const DEFAULT_EXPECTED_COMPLETION_TOKENS = 2048;
+
+/**
+ * Rates for a "provider:model" id, or undefined when the call is not metered:
+ * CLI providers run on a subscription, and hosted-mode labels and the host's
+ * own turns ("claude:host") never reach a configured API provider.
+ *
+ * Lookup order: config "provider:model", config "provider:*", config bare
+ * model, built-in bare model, config "default", built-in default.
+ */
+export function priceFor(modelId: string): ModelPricing | undefined {
+  const colon = modelId.indexOf(":");
+  if (colon === -1) return undefined;
+  const provider = modelId.slice(0, colon);
+  const model = modelId.slice(colon + 1);
+  const kind = getProvider(provider)?.kind;
+  if (!kind || kind === "cli") return undefined;
+
+  const config = getConfigSection("pricing") || {};
+  return (
+    config[modelId] ??
+    config[`${provider}:*`] ??
+    config[model] ??
+    BUILTIN_PRICING[model] ??
+    config.default ??
+    DEFAULT_PRICING
+  );
+}
+
+function costAt(
+  pricing: ModelPricing,
+  promptTokens: number,
+  completionTokens: number,
+  cachedTokens = 0
+): number {
+  const cached = Math.min(cachedTokens, promptTokens);
+  return (
+    ((promptTokens - cached) * pricing.input +
+      cached * (pricing.cachedInput ?? pricing.input) +
+      completionTokens * pricing.output) /
+    1_000_000
+  );
+}
+
+/** USD spent on one call. Reasoning tokens are billed as output. */
+export function callCost(modelId: string, usage: TokenUsage): number {
+  const pricing = priceFor(modelId);
+  if (!pricing) return 0;
+  return costAt(
+    pricing,
+    usage.promptTokens,
+    usage.completionTokens,
+    usage.cachedTokens
+  );
+}
+
+/** USD a call is expected to cost before it is made. */
+export function projectCallCost(
+  modelId: string,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  const pricing = priceFor(modelId);
+  return pricing ? costAt(pricing, promptTokens, completionTokens) : 0;
+}
+
+/** Total spend across every response that carries usage. */
+export function costOfResponses(rounds: RoundResponse[][]): number {
+  let total = 0;
+  for (const round of rounds) {
+    for (const r of round) {
+      if (r.usage) total += callCost(r.modelId, r.usage);
+    }
+  }
+  return total;
+}
+
+/**
+ * Average completion length a model has produced so far in this run — the
+ * best guess for how long its next answer will be.
+ */
+export function expectedCompletionTokens(
+  modelId: string,
+  rounds: RoundResponse[][]
+): number {
+  const seen = rounds
+    .flat()
+    .filter((r) => r.modelId === modelId && r.usage && !r.error)
+    .map((r) => r.usage!.completionTokens);
+  if (!seen.length) return DEFAULT_EXPECTED_COMPLETION_TOKENS;
+  return Math.ceil(seen.reduce((a, b) => a + b, 0) / seen.length);
+}
+
+export function formatUsd(usd: number): string {
+  return `$${usd.toFixed(4)}`;
+}
+
+/** "~$0.0123 (1 of 3 via CLI subscriptions)". */
+export function describeCost(usd: number, models: string[]): string {
+  const cliCount = models.filter((id) => isCliModel(id)).length;
+  const suffix =
+    models.length && cliCount === models.length
+      ? " (all models via CLI subscriptions)"
+      : cliCount
+        ? ` (${cliCount} of ${models.length} via CLI subscriptions)`
+        : "";
+  return `~${formatUsd(usd)}${suffix}`;
+}
@@ -0,0 +1,106 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  LoggingLevel,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ProgressCallback, ProgressEvent } from "./types.js";
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/** Events that finish one unit of work and therefore advance the progress bar. */
+const COMPLETION_EVENTS = new Set<ProgressEvent["type"]>([
+  "model_done",
+  "model_failed",
+  "synthesis_done",
+]);
+
+const WARNING_EVENTS = new Set<ProgressEvent["type"]>([
+  "model_failed",
+  "model_retry",
+  "model_fallback",
+]);
+
+function levelFor(event?: ProgressEvent): LoggingLevel {
+  if (event?.type === "model_delta") return "debug";
+  return event && WARNING_EVENTS.has(event.type) ? "warning" : "info";
+}
+
+/**
+ * MCP logging notifications are opt-in: most hosts surface them verbatim and a
+ * multi-round debate emits a lot of them. Progress notifications are already
+ * opt-in per request through the progress token.
+ */
+function loggingEnabled(): boolean {
+  return /^(1|true|yes|on)$/i.test(process.env.BRAINSTORM_LOG_NOTIFICATIONS || "");
+}
+
+/**
+ * Build the onProgress callback a tool hands to the debate engine. Every
+ * message except streamed text still goes to stderr; on top of that, finished
+ * model calls and batches of streamed text are reported as
+ * `notifications/progress` against the request's progress token (when the
+ * client sent one), and every message is mirrored as an MCP log message when
+ * BRAINSTORM_LOG_NOTIFICATIONS is on.
+ *
+ * `total` is the number of model calls (plus synthesis) the tool expects to
+ * make, so hosts can render a percentage.
+ */
+export function createProgressReporter(
+  server: McpServer,
+  extra: ToolExtra,
+  logger: string,
+  total?: number
+): ProgressCallback {
+  const progressToken = extra._meta?.progressToken;
+  const sendLogs = loggingEnabled();
+  let completed = 0;
+  // Streamed text arrives between completions. Progress must strictly
+  // increase, so each delta creeps towards the next whole number instead.
+  let deltas = 0;
+
+  const notifyProgress = (message: string) => {
+    if (progressToken === undefined) return;
+    extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress: completed + deltas / (deltas + 1),
+          ...(total ? { total: Math.max(total, completed) } : {}),
+          message,
+        },
+      })
+      .catch(() => {
+        // Client went away mid-debate — nothing useful to do with the error.
+      });
+  };
+
+  notifyProgress("Starting...");
+
+  return (message, event) => {
+    if (event?.type === "model_delta") {
+      // Streamed text goes to the client only; stderr keeps the milestones.
+      deltas++;
+      notifyProgress(message);
+    } else {
+      console.error(`[${logger}] ${message}`);
+    }
+
+    if (event && COMPLETION_EVENTS.has(event.type)) {
+      completed++;
+      deltas = 0;
+      notifyProgress(message);
+    }
+
+    if (sendLogs) {
+      server.server
+        .sendLoggingMessage(
+          { level: levelFor(event), logger, data: event ? { message, ...event } : message },
+          extra.sessionId
+        )
+        .catch(() => {});
+    }
+  };
+}
@@ -0,0 +1,163 @@
+import OpenAI from "openai";
+import { AnthropicAPIError } from "./anthropic.js";
+import { getConfigSection } from "./models.js";
+import { FallbackMap, ResolvedModel, RetryPolicy } from "./types.js";
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000,
+  // 408 request timeout, 409 lock contention (OpenAI), 429 rate limit, 5xx,
+  // 529 overloaded (Anthropic).
+  retryOn: [408, 409, 429, 500, 502, 503, 504, 529],
+};
+
+/**
+ * Thrown when a caller's abort signal fires. Never retried, never handed to a
+ * fallback: the whole run is being called off, not just this model.
+ */
+export class CancelledError extends Error {
+  constructor(message = "Cancelled") {
+    super(message);
+    this.name = "CancelledError";
+  }
+}
+
+/** Throw CancelledError if `signal` has already fired. */
+export function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) throw new CancelledError();
+}
+
+function positiveInt(value: unknown): number | undefined {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * Effective policy for one model: built-in defaults, then the top-level
+ * `retry` config section, then the provider's own `retry` block.
+ * BRAINSTORM_RETRY_MAX_ATTEMPTS wins over both for the attempt count.
+ */
+export function retryPolicyFor(model: ResolvedModel): RetryPolicy {
+  const policy: RetryPolicy = {
+    ...DEFAULT_RETRY_POLICY,
+    ...getConfigSection("retry"),
+    ...model.retry,
+  };
+  policy.maxAttempts =
+    positiveInt(process.env.BRAINSTORM_RETRY_MAX_ATTEMPTS) ??
+    positiveInt(policy.maxAttempts) ??
+    DEFAULT_RETRY_POLICY.maxAttempts;
+  return policy;
+}
+
+/** Wait the server asked for via `retry-after-ms` / `retry-after`, if any. */
+function retryAfterMs(headers: Headers | undefined): number | undefined {
+  if (!headers) return undefined;
+
+  const ms = Number(headers.get("retry-after-ms"));
+  if (headers.get("retry-after-ms") && Number.isFinite(ms) && ms >= 0) return ms;
+
+  const value = headers.get("retry-after");
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+  // HTTP-date form.
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Whether an error from one attempt is worth another, and a short reason for
+ * the progress log. Our own per-call timeout is not retried: the model already
+ * had its full window, and trying again would only multiply the wait.
+ */
+function classify(
+  err: unknown,
+  policy: RetryPolicy
+): { retryable: boolean; reason: string; status?: number; retryAfterMs?: number } {
+  if (err instanceof OpenAI.APIUserAbortError) {
+    return { retryable: false, reason: "aborted" };
+  }
+  if (err instanceof OpenAI.APIConnectionError) {
+    return { retryable: true, reason: "connection error" };
+  }
+  if (err instanceof OpenAI.APIError && err.status !== undefined) {
+    return {
+      retryable: policy.retryOn.includes(err.status),
+      reason: err.status === 429 ? "rate limited (429)" : `HTTP ${err.status}`,
+      status: err.status,
+      retryAfterMs: retryAfterMs(err.headers),
+    };
+  }
+  if (err instanceof AnthropicAPIError) {
+    if (err.status === undefined) {
+      return { retryable: true, reason: "connection error" };
+    }
+    return {
+      retryable: policy.retryOn.includes(err.status),
+      reason: err.status === 429 ? "rate limited (429)" : `HTTP ${err.status}`,
+      status: err.status,
+      retryAfterMs: retryAfterMs(err.headers),
+    };
+  }
+  return { retryable: false, reason: err instanceof Error ? err.message : String(err) };
+}
+
+/** Exponential backoff with jitter, so parallel participants don't retry in lockstep. */
+function backoffMs(policy: RetryPolicy, attempt: number): number {
+  const exp = policy.baseDelayMs * 2 ** (attempt - 1);
+  return Math.min(policy.maxDelayMs, exp / 2 + Math.random() * (exp / 2));
+}
+
+/** Wait `ms`, or reject with CancelledError as soon as `signal` fires. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `attempt` until it succeeds, the error is not retryable, or the policy
+ * runs out of attempts. `onRetry` is told about each wait before it starts.
+ * The last error is rethrown unchanged; `signal` cuts a backoff wait short.
+ */
+export async function withRetry<T>(
+  policy: RetryPolicy,
+  attempt: () => Promise<T>,
+  onRetry?: (info: { attempt: number; delayMs: number; reason: string; status?: number }) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let n = 1; ; n++) {
+    throwIfCancelled(signal);
+    try {
+      return await attempt();
+    } catch (err) {
+      if (err instanceof CancelledError) throw err;
+      const { retryable, reason, status, retryAfterMs } = classify(err, policy);
+      if (!retryable || n >= policy.maxAttempts) throw err;
+      if (retryAfterMs !== undefined && retryAfterMs > policy.maxDelayMs) throw err;
+
+      const delayMs = Math.round(retryAfterMs ?? backoffMs(policy, n));
+      onRetry?.({ attempt: n + 1, delayMs, reason, status });
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+/**
+ * Substitutes for a participant, tool-call overrides first, then the
+ * `fallbacks` config section. The participant itself is never its own fallback.
+ */
+export function fallbacksFor(modelId: string, overrides?: FallbackMap): string[] {
+  const list = overrides?.[modelId] ?? getConfigSection("fallbacks")?.[modelId] ?? [];
+  return list.filter((id) => id !== modelId);
+}
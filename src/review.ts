@@ -0,0 +1,596 @@
+import {
+  runExternalRound,
+  runSynthesis,
+  buildDebateStats,
+  projectRoundCost,
+  checkBudget,
+  overBudgetError,
+} from "./debate.js";
+import {
+  applyAssessments,
+  ASSESSMENT_FORMAT_INSTRUCTIONS,
+  findingId,
+  FINDINGS_FORMAT_INSTRUCTIONS,
+  mergeFindings,
+  parseAssessments,
+  parseFindings,
+  parseVerdict,
+  sortFindings,
+  verdictFor,
+} from "./findings.js";
+import {
+  anchorFinding,
+  annotateDiff,
+  chunkDiff,
+  DiffFile,
+  parseDiff,
+} from "./diff.js";
+import { costOfResponses } from "./pricing.js";
+import { rulesFor } from "./rules.js";
+import {
+  AppliedReviewRule,
+  CostBudget,
+  DebateResult,
+  FallbackMap,
+  FindingCategory,
+  MergedFinding,
+  ProgressCallback,
+  ReviewChunk,
+  ReviewCoverage,
+  ReviewFinding,
+  ReviewRule,
+  RoundResponse,
+} from "./types.js";
+
+const REVIEW_SYSTEM_PROMPT =
+  "You are reviewing a code change. Focus on issues likely introduced by this diff. " +
+  "Prefer fewer high-confidence findings over many low-signal ones. " +
+  "Do NOT nitpick style unless it affects correctness or maintainability. " +
+  "Do NOT review code that wasn't changed.\n\n" +
+  FINDINGS_FORMAT_INSTRUCTIONS;
+
+/** Annotated diff text per chunk; about 10k tokens, which every provider's context holds. */
+export const DEFAULT_REVIEW_CHUNK_CHARS = 40_000;
+
+/** Chunks in flight at once, so each model sees at most this many concurrent calls. */
+export const DEFAULT_REVIEW_CONCURRENCY = 3;
+
+const REVIEW_SYNTHESIS_PROMPT =
+  "You are synthesizing a multi-model code review. The reviewers' findings have already " +
+  "been merged and are listed as JSON in the input, followed by what each reviewer reported; " +
+  "the reader sees the findings as a table, so do not repeat them as one. Produce:\n\n" +
+  "## Verdict\n" +
+  "One of: **approve** / **approve with warnings** / **needs changes**\n" +
+  "One sentence explaining why.\n\n" +
+  "## Summary\n" +
+  "The few findings that matter most and why. Call out any merged finding you believe " +
+  "is a false positive.\n\n" +
+  "## Model Agreement\n" +
+  "Which issues were flagged by multiple models (high confidence) vs. only one (worth investigating).\n\n" +
+  "Be concise. This output should be suitable for posting as a PR comment.";
+
+const CROSS_EXAMINATION_SYSTEM_PROMPT =
+  "You are cross-examining a multi-model code review. The findings below were reported by " +
+  "the reviewers, possibly including you. Check each one against the diff: confirm real " +
+  "issues, downgrade real but overstated ones, and dispute those that misread the code, are " +
+  "already handled elsewhere, or are out of scope. Be willing to disagree — a finding only " +
+  "stands if it holds up.\n\n" +
+  ASSESSMENT_FORMAT_INSTRUCTIONS;
+
+const CROSS_EXAMINATION_SYNTHESIS_NOTE =
+  "\n\nThe reviewers then cross-examined each other's findings. Each merged finding has an " +
+  "`agreement` naming the models that confirmed, disputed or downgraded it and whether it " +
+  "survived. In ## Model Agreement, say which findings survived cross-examination and which " +
+  "did not, with each finding's confirm / dispute / downgrade counts.";
+
+export interface ReviewRequest {
+  /** Unified diff, e.g. the output of `git diff`. */
+  diff: string;
+  title?: string;
+  description?: string;
+  instructions?: string;
+  focus?: FindingCategory[];
+  /** Full new contents of touched files, shown alongside the diff for context. */
+  fileContents?: Record<string, string>;
+  /** Standing repository rules; each reviewer gets those matching its files. */
+  rules?: ReviewRule[];
+  /**
+   * What to do with a finding whose file or lines are not in the diff:
+   * "flag" (default) keeps it without the location and notes why, "drop"
+   * discards it.
+   */
+  invalidLocations?: "flag" | "drop";
+}
+
+export interface ReviewOptions {
+  onProgress?: ProgressCallback;
+  fallbacks?: FallbackMap;
+  /** Refuse the review if the reviewers alone would exceed this; skip the verdict if it would. */
+  maxCostUsd?: number;
+  /** Split diffs whose annotated text is longer than this. Default DEFAULT_REVIEW_CHUNK_CHARS. */
+  maxChunkChars?: number;
+  /** Chunks reviewed at once. Default DEFAULT_REVIEW_CONCURRENCY. */
+  concurrency?: number;
+  /** Review rounds; every round after the first cross-examines the merged findings. Default 1. */
+  rounds?: number;
+  /** Calls off the review; see DebateOptions.signal. */
+  signal?: AbortSignal;
+}
+
+/** The change's context lines: everything the reviewers get besides the diff. */
+function reviewHeader(request: ReviewRequest): string[] {
+  const { title, description, instructions, focus } = request;
+  const userParts: string[] = [];
+  if (title) userParts.push(`**PR Title:** ${title}`);
+  if (description) userParts.push(`**Description:** ${description}`);
+  if (focus && focus.length > 0) {
+    userParts.push(`**Focus areas:** ${focus.join(", ")}`);
+  }
+  if (instructions) {
+    userParts.push(`**Review instructions:** ${instructions}`);
+  }
+  return userParts;
+}
+
+/** The repository rules section of a prompt; empty when none apply. */
+function rulesSection(rules: AppliedReviewRule[]): string[] {
+  if (rules.length === 0) return [];
+  return [
+    `\n## Repository Rules\n\nThis project's standing review rules. Flag changes that break ` +
+      `them, in the files each rule names.\n\n` +
+      rules
+        .map((r) => {
+          const scope = r.files
+            ? `Files matching ${r.files.map((g) => `\`${g}\``).join(", ")}`
+            : "All files";
+          return `### ${scope}\n\n${r.instructions}`;
+        })
+        .join("\n\n"),
+  ];
+}
+
+function buildReviewPrompt(
+  request: ReviewRequest,
+  files: DiffFile[],
+  chunk?: ReviewChunk,
+  allFiles: string[] = []
+): string {
+  const userParts = reviewHeader(request);
+  if (chunk && chunk.total > 1) {
+    userParts.push(
+      `\nThis change is too large for one review, so it is reviewed in ${chunk.total} parts; ` +
+        `this is part ${chunk.index}. Other parts are reviewed separately — only report ` +
+        `issues in the files shown here. Files in the whole change: ${allFiles.join(", ")}`
+    );
+  }
+  userParts.push(
+    ...rulesSection(
+      rulesFor(request.rules ?? [], [...new Set(files.map((f) => f.path))])
+    )
+  );
+  const contents = Object.entries(request.fileContents ?? {}).filter(
+    ([path]) => files.length === 0 || files.some((f) => f.path === path)
+  );
+  if (contents.length > 0) {
+    userParts.push(
+      `\n## Changed Files\n\nFull current contents, for context only — review the diff, ` +
+        `not unchanged code.\n\n` +
+        contents.map(([path, text]) => `### ${path}\n\n\`\`\`\n${text}\n\`\`\``).join("\n\n")
+    );
+  }
+  if (files.length > 0) {
+    userParts.push(
+      `\n## Diff to Review\n\n` +
+        `Each line starts with its line number in the new version of the file ` +
+        `(blank for deleted lines). Cite these numbers in your findings.\n\n` +
+        `\`\`\`\n${annotateDiff(files)}\n\`\`\``
+    );
+  } else {
+    // Not a unified diff we can read; pass it through as given.
+    userParts.push(`\n## Diff to Review\n\n\`\`\`diff\n${request.diff}\n\`\`\``);
+  }
+  return userParts.join("\n");
+}
+
+/**
+ * The diff split into the parts reviewers are sent, each with the files it
+ * holds. A diff that cannot be parsed is one part with no files.
+ */
+export function reviewChunks(
+  diff: string,
+  maxChunkChars = DEFAULT_REVIEW_CHUNK_CHARS
+): DiffFile[][] {
+  const files = parseDiff(diff);
+  return files.some((f) => f.hunks.length > 0) ? chunkDiff(files, maxChunkChars) : [[]];
+}
+
+/**
+ * Check every finding of a response against the diff, keeping or dropping
+ * the ones with a location that is not in it. Returns a note for
+ * `findingsError` when any were dropped.
+ */
+function anchorFindings(
+  findings: ReviewFinding[],
+  files: DiffFile[],
+  invalidLocations: "flag" | "drop"
+): { findings: ReviewFinding[]; note?: string } {
+  const kept: ReviewFinding[] = [];
+  let dropped = 0;
+  for (const finding of findings) {
+    const anchored = anchorFinding(finding, files);
+    if (!anchored.valid && invalidLocations === "drop") dropped++;
+    else kept.push(anchored.finding);
+  }
+  return {
+    findings: kept,
+    ...(dropped
+      ? { note: `${dropped} finding(s) citing locations outside the diff were dropped` }
+      : {}),
+  };
+}
+
+/** Run `fn` over `items` with at most `limit` calls pending, keeping order. */
+async function mapLimit<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i], i);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker)
+  );
+  return results;
+}
+
+/** Per file, which models answered for every chunk that held part of it. */
+function reviewCoverage(
+  responses: RoundResponse[],
+  modelList: string[]
+): ReviewCoverage[] {
+  const files = new Map<string, Set<string>>();
+  for (const resp of responses) {
+    for (const file of resp.chunk?.files ?? []) {
+      if (!files.has(file)) files.set(file, new Set());
+      // Failed responses carry the participant's label even when fallbacks were tried.
+      if (resp.error) files.get(file)!.add(resp.modelId);
+    }
+  }
+  return [...files].map(([file, failed]) => ({
+    file,
+    models: modelList.filter((m) => !failed.has(m)),
+    missing: modelList.filter((m) => failed.has(m)),
+  }));
+}
+
+function findingLocation(f: ReviewFinding): string {
+  if (!f.file) return "";
+  return f.startLine !== undefined ? ` ${f.file}:${f.startLine}` : ` ${f.file}`;
+}
+
+/**
+ * One short entry per reviewer for the synthesis: what it reported across
+ * all chunks, or where it failed. The raw answers are JSON already merged
+ * into the findings, and for big diffs would be cut to fit anyway.
+ */
+function reviewerSummaries(
+  responses: RoundResponse[],
+  modelList: string[]
+): RoundResponse[] {
+  return modelList.map((label) => {
+    const own = responses.filter((r) => (r.fallbackFor ?? r.modelId) === label);
+    const lines: string[] = [];
+    for (const r of own) {
+      const part = r.chunk ? ` (part ${r.chunk.index}/${r.chunk.total})` : "";
+      if (r.error) lines.push(`Failed${part}: ${r.error}`);
+      else if (r.findingsError) lines.push(`Unreadable findings${part}: ${r.findingsError}`);
+      for (const f of r.findings ?? []) {
+        lines.push(`- [${f.severity}/${f.category}]${findingLocation(f)} ${f.title}`);
+      }
+    }
+    const reported = own.some((r) => r.findings?.length);
+    return {
+      modelId: label,
+      round: 1,
+      content: (reported ? lines : [...lines, "No findings."]).join("\n"),
+    };
+  });
+}
+
+/** What a reviewer said about each finding in a cross-examination round. */
+function assessmentSummary(resp: RoundResponse): RoundResponse {
+  const lines = resp.error
+    ? [`Failed: ${resp.error}`]
+    : [
+        ...(resp.findingsError ? [`Unreadable assessments: ${resp.findingsError}`] : []),
+        ...(resp.assessments ?? []).map(
+          (a) =>
+            `- ${a.id}: ${a.stance}${a.severity ? ` to ${a.severity}` : ""}` +
+            (a.reason ? ` — ${a.reason}` : "")
+        ),
+      ];
+  return { modelId: resp.modelId, round: resp.round, content: lines.join("\n") };
+}
+
+/**
+ * The diff a cross-examination round shows: the files findings point into,
+ * narrowed to the hunks they cite if that is still too long, and cut at
+ * `maxChars` as a last resort.
+ */
+function crossExaminationDiff(
+  findings: MergedFinding[],
+  chunks: DiffFile[][],
+  rawDiff: string,
+  maxChars: number
+): string {
+  const byPath = new Map<string, DiffFile>();
+  for (const part of chunks.flat()) {
+    const file = byPath.get(part.path);
+    if (file) file.hunks = [...file.hunks, ...part.hunks];
+    else byPath.set(part.path, { ...part });
+  }
+  const cited = [...byPath.values()].filter((f) => findings.some((x) => x.file === f.path));
+
+  let text = byPath.size === 0 ? rawDiff : annotateDiff(cited);
+  if (text.length > maxChars && cited.length > 0) {
+    const near = cited
+      .map((f) => ({
+        ...f,
+        hunks: f.hunks.filter((h) =>
+          findings.some(
+            (x) =>
+              x.file === f.path &&
+              x.startLine !== undefined &&
+              x.startLine <= h.newStart + h.newLines - 1 &&
+              (x.endLine ?? x.startLine) >= h.newStart
+          )
+        ),
+      }))
+      .filter((f) => f.hunks.length > 0);
+    text = annotateDiff(near);
+  }
+  return text.length > maxChars ? `${text.slice(0, maxChars)}\n[...diff cut to fit]` : text;
+}
+
+function crossExaminationPrompt(
+  request: ReviewRequest,
+  findings: MergedFinding[],
+  previous: RoundResponse[] | undefined,
+  diffText: string
+): string {
+  const entries = findings.map((f, i) => {
+    const id = findingId(i);
+    const lines = [
+      `${id} [${f.severity}/${f.category}]${findingLocation(f)} — ${f.title}`,
+      `   ${f.explanation}`,
+      ...(f.suggestion ? [`   Suggestion: ${f.suggestion}`] : []),
+      `   Reported by: ${f.models.join(", ")}`,
+    ];
+    for (const resp of previous ?? []) {
+      for (const a of resp.assessments?.filter((a) => a.id === id) ?? []) {
+        lines.push(
+          `   Last round, ${resp.modelId}: ${a.stance}` +
+            (a.severity ? ` to ${a.severity}` : "") +
+            (a.reason ? ` — ${a.reason}` : "")
+        );
+      }
+    }
+    return lines.join("\n");
+  });
+  const cited = [...new Set(findings.flatMap((f) => (f.file ? [f.file] : [])))];
+  return [
+    ...reviewHeader(request),
+    ...rulesSection(rulesFor(request.rules ?? [], cited)),
+    `\n## Findings to Assess\n\n${entries.join("\n\n")}`,
+    `\n## Diff\n\nEach line starts with its line number in the new version of the file.\n\n` +
+      `\`\`\`\n${diffText}\n\`\`\``,
+  ].join("\n");
+}
+
+function synthesisTopic(
+  request: ReviewRequest,
+  files: string[],
+  findings: MergedFinding[],
+  rules: AppliedReviewRule[]
+): string {
+  return [
+    ...reviewHeader(request),
+    ...(files.length ? [`**Files changed:** ${files.join(", ")}`] : []),
+    ...rulesSection(rules),
+    `\n## Merged Findings\n\n\`\`\`json\n${JSON.stringify(findings, null, 2)}\n\`\`\``,
+  ].join("\n");
+}
+
+/**
+ * Multi-model code review: every model reviews the diff independently and
+ * answers with JSON findings, which are validated, merged across models, and
+ * handed to the first model for a verdict. Large diffs are split into chunks
+ * by file and hunk, each reviewed by every model. With `rounds` above 1 the
+ * reviewers then cross-examine the merged findings, confirming, disputing
+ * or downgrading each. Repository rules go to every reviewer whose files they
+ * match. `result.topic` holds the change title and `result.synthesis` the
+ * verdict write-up.
+ */
+export async function runReview(
+  request: ReviewRequest,
+  modelList: string[],
+  options: ReviewOptions = {}
+): Promise<DebateResult> {
+  const { fallbacks, maxCostUsd } = options;
+  const onProgress = options.onProgress || (() => {});
+  const startTime = Date.now();
+  const chunks = reviewChunks(request.diff, options.maxChunkChars);
+  const allFiles = [...new Set(chunks.flat().map((f) => f.path))];
+  const appliedRules = rulesFor(request.rules ?? [], allFiles);
+  const prompts = chunks.map((files, i) => {
+    const chunk: ReviewChunk = {
+      index: i + 1,
+      total: chunks.length,
+      files: [...new Set(files.map((f) => f.path))],
+    };
+    return { files, chunk, user: buildReviewPrompt(request, files, chunk, allFiles) };
+  });
+
+  const budget: CostBudget | undefined =
+    maxCostUsd !== undefined ? { maxCostUsd, spentUsd: 0 } : undefined;
+  const tooExpensive = checkBudget(
+    budget,
+    prompts.reduce(
+      (sum, p) =>
+        sum + projectRoundCost(p.user, modelList, 1, 1, [], REVIEW_SYSTEM_PROMPT),
+      0
+    )
+  );
+  if (tooExpensive) throw overBudgetError(tooExpensive);
+
+  // Every model reviews every chunk, single round — redteam-style review
+  onProgress(
+    chunks.length > 1
+      ? `Starting review of ${allFiles.length} file(s) in ${chunks.length} chunks with ` +
+          `${modelList.length} model(s)...`
+      : `Starting review with ${modelList.length} model(s)...`
+  );
+
+  // Whether any reviewer answered in a form we could read at all.
+  let readable = false;
+  const rounds = await mapLimit(
+    prompts,
+    options.concurrency ?? DEFAULT_REVIEW_CONCURRENCY,
+    async ({ files, chunk, user }) => {
+      const round = await runExternalRound(user, modelList, 1, 1, [], {
+        systemPrompt: REVIEW_SYSTEM_PROMPT,
+        onProgress,
+        fallbacks,
+        signal: options.signal,
+      });
+      for (const resp of round.responses) {
+        if (chunks.length > 1) resp.chunk = chunk;
+        if (resp.error) continue;
+        const parsed = parseFindings(resp.content);
+        if (parsed.findings.length > 0 || !parsed.error) readable = true;
+        const { findings, note } =
+          files.length > 0
+            ? anchorFindings(parsed.findings, files, request.invalidLocations ?? "flag")
+            : { findings: parsed.findings, note: undefined };
+        resp.findings = findings;
+        const error = [parsed.error, note].filter(Boolean).join("; ");
+        if (error) {
+          resp.findingsError = error;
+          onProgress(`${resp.modelId}: ${error}`);
+        }
+      }
+      return round;
+    }
+  );
+  const responses = rounds.flatMap((r) => r.responses);
+  const failedSet = new Set(rounds.flatMap((r) => r.failedModels));
+  const merged = mergeFindings(responses);
+
+  if (budget) budget.spentUsd += costOfResponses([responses]);
+
+  // Cross-examination: every reviewer assesses the merged findings
+  const totalRounds = Math.max(1, options.rounds ?? 1);
+  const crossRounds: RoundResponse[][] = [];
+  let roundsNote: string | undefined;
+  if (totalRounds > 1 && merged.length === 0) {
+    onProgress("No findings to cross-examine — skipping the remaining rounds.");
+  }
+  const diffText =
+    totalRounds > 1 && merged.length > 0
+      ? crossExaminationDiff(
+          merged,
+          chunks,
+          request.diff,
+          options.maxChunkChars ?? DEFAULT_REVIEW_CHUNK_CHARS
+        )
+      : "";
+  for (let r = 2; r <= totalRounds && merged.length > 0; r++) {
+    const messages = {
+      system: CROSS_EXAMINATION_SYSTEM_PROMPT,
+      user: crossExaminationPrompt(request, merged, crossRounds.at(-1), diffText),
+    };
+    const overBudget = checkBudget(
+      budget,
+      projectRoundCost(messages.user, modelList, 1, 1, [], messages.system)
+    );
+    if (overBudget) {
+      roundsNote = `Stopped after round ${r - 1} of ${totalRounds}: ${overBudget}.`;
+      onProgress(roundsNote);
+      break;
+    }
+
+    const round = await runExternalRound(messages.user, modelList, r, totalRounds, [], {
+      onProgress,
+      fallbacks,
+      messages,
+      signal: options.signal,
+    });
+    for (const resp of round.responses) {
+      if (resp.error) continue;
+      const { assessments, error } = parseAssessments(resp.content, merged.length);
+      resp.assessments = assessments;
+      if (error) {
+        resp.findingsError = error;
+        onProgress(`${resp.modelId}: ${error}`);
+      }
+    }
+    crossRounds.push(round.responses);
+    for (const f of round.failedModels) failedSet.add(f);
+    if (budget) budget.spentUsd += costOfResponses([round.responses]);
+  }
+  const findings = crossRounds.length
+    ? sortFindings(applyAssessments(merged, crossRounds))
+    : merged;
+
+  // Run synthesis with review-specific prompt
+  onProgress(`Synthesizing ${findings.length} merged finding(s)...`);
+
+  const synthesisRounds = [
+    reviewerSummaries(responses, modelList),
+    ...crossRounds.map((round) => round.map(assessmentSummary)),
+  ];
+  const synthesis = await runSynthesis(
+    synthesisTopic(request, allFiles, findings, appliedRules),
+    synthesisRounds,
+    modelList[0],
+    modelList,
+    // No style — the review brings its own synthesis prompt.
+    {
+      onProgress,
+      customSynthesisPrompt:
+        REVIEW_SYNTHESIS_PROMPT + (crossRounds.length ? CROSS_EXAMINATION_SYNTHESIS_NOTE : ""),
+      budget,
+      signal: options.signal,
+    }
+  );
+
+  const allRounds = [responses, ...crossRounds];
+  const result: DebateResult = {
+    topic: request.title || "Untitled Change",
+    rounds: allRounds,
+    synthesis: synthesis.content,
+    modelsFailed: Array.from(failedSet),
+    stats: buildDebateStats(
+      allRounds,
+      synthesis,
+      modelList,
+      Date.now() - startTime
+    ),
+    findings,
+  };
+  if (chunks.length > 1) result.coverage = reviewCoverage(responses, modelList);
+  if (appliedRules.length > 0) result.appliedRules = appliedRules;
+  // No findings because nobody could be read is not an approval.
+  const verdict =
+    parseVerdict(synthesis.content) ?? (readable ? verdictFor(findings) : undefined);
+  if (verdict) result.verdict = verdict;
+  const budgetNote = [roundsNote, synthesis.budgetNote].filter(Boolean).join(" ");
+  if (budgetNote) result.stats.budgetNote = budgetNote;
+  return result;
+}
@@ -0,0 +1,97 @@
+import { getConfigSection } from "./models.js";
+import { ParticipantRole } from "./types.js";
+
+/** Role presets available without any config; the `roles` config section adds to or overrides them. */
+export const BUILTIN_ROLES: Record<string, string> = {
+  "security engineer":
+    "You look for ways things can be attacked, leak data or be misused: trust boundaries, " +
+    "authentication, input handling, secrets and blast radius.",
+  "product manager":
+    "You weigh every idea by the value it delivers to users and the business, its scope " +
+    "and time to ship, and what it would cost to get wrong.",
+  "skeptical SRE":
+    "You have been paged for other people's clever ideas. You ask how things fail, how " +
+    "they are observed, rolled back and operated at 3 a.m., and what they cost to run.",
+  architect:
+    "You care about structure over the long run: boundaries between components, coupling, " +
+    "data flow, and how the design absorbs the next five requirements.",
+  "devil's advocate":
+    "You argue against whatever position is gaining ground, to test it. Find the weakest " +
+    "assumption and press on it, even when you half agree.",
+  "end user":
+    "You speak for the people who will use the result, not build it: what they notice, " +
+    "what confuses them, and what they would give up.",
+};
+
+/** Freeform personas longer than this are shortened for display. */
+const MAX_ROLE_NAME = 40;
+
+function findPreset(name: string): ParticipantRole | undefined {
+  const presets = { ...BUILTIN_ROLES, ...(getConfigSection("roles") || {}) };
+  const key = name.trim().toLowerCase();
+  for (const [presetName, description] of Object.entries(presets)) {
+    if (presetName.toLowerCase() === key) {
+      return { name: presetName, persona: `${presetName}. ${description}` };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A role preset by name (case-insensitive), or else the text itself as a
+ * freeform persona — "security engineer", or "a CFO who has been burnt by
+ * cloud bills".
+ */
+export function resolveRole(value: string): ParticipantRole {
+  const preset = findPreset(value);
+  if (preset) return preset;
+  const text = value.trim();
+  const name = text.length > MAX_ROLE_NAME ? `${text.slice(0, MAX_ROLE_NAME - 1).trimEnd()}…` : text;
+  return { name, persona: text };
+}
+
+/**
+ * Resolve a participant → role mapping. Every key must be one of the
+ * participants; blank roles are dropped. Undefined when nobody has a role.
+ */
+export function resolveRoles(
+  roles: Record<string, string> | undefined,
+  modelIdentifiers: string[]
+): Record<string, ParticipantRole> | undefined {
+  const resolved: Record<string, ParticipantRole> = {};
+  for (const [model, value] of Object.entries(roles ?? {})) {
+    if (!modelIdentifiers.includes(model)) {
+      throw new Error(
+        `roles names "${model}", which is not a participant (${modelIdentifiers.join(", ")})`
+      );
+    }
+    if (value.trim()) resolved[model] = resolveRole(value);
+  }
+  return Object.keys(resolved).length ? resolved : undefined;
+}
+
+/** A participant's system message with its role stated up front. */
+export function withRole(system: string, role: ParticipantRole | undefined): string {
+  if (!role) return system;
+  const persona = /[.!?]$/.test(role.persona) ? role.persona : `${role.persona}.`;
+  return (
+    `Your role in this discussion: ${persona} ` +
+    "Argue from this perspective in every round, and say where it leads you to a " +
+    "different view from the others.\n\n" +
+    system
+  );
+}
+
+/**
+ * Hosted mode: each participant's system message when some have roles, so
+ * the host can run them one by one. Undefined when nobody has a role.
+ */
+export function systemsFor(
+  system: string,
+  roles: Record<string, ParticipantRole> | undefined
+): Record<string, string> | undefined {
+  if (!roles) return undefined;
+  return Object.fromEntries(
+    Object.entries(roles).map(([model, role]) => [model, withRole(system, role)])
+  );
+}
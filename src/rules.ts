@@ -0,0 +1,166 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { getConfigSection } from "./models.js";
+import { AppliedReviewRule, ReviewRule } from "./types.js";
+
+/** Looked up relative to the repository root unless the config names another. */
+export const DEFAULT_RULES_FILE = ".brainstorm/review.md";
+
+const CONFIG_SOURCE = "brainstorm.config.json";
+
+/** `## Files: src/api/**, *.sql` — scopes the section below it. */
+const SCOPE_HEADING = /^##\s+files:\s*(.*)$/i;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^$()|[\]\\]/g, "\\$&");
+}
+
+/** Regex source for a glob fragment; brace alternatives are globs too. */
+function translateGlob(pattern: string): string {
+  let re = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "*" && pattern[i + 1] === "*") {
+      if (pattern[i + 2] === "/") {
+        re += "(?:.*/)?";
+        i += 2;
+      } else {
+        re += ".*";
+        i += 1;
+      }
+    } else if (c === "*") {
+      re += "[^/]*";
+    } else if (c === "?") {
+      re += "[^/]";
+    } else if (c === "{" && pattern.indexOf("}", i) > i) {
+      const end = pattern.indexOf("}", i);
+      re += `(?:${pattern.slice(i + 1, end).split(",").map(translateGlob).join("|")})`;
+      i = end;
+    } else {
+      re += escapeRegExp(c);
+    }
+  }
+  return re;
+}
+
+/**
+ * gitignore-flavoured glob: `*` and `?` stay within a directory, `**` spans
+ * directories, `{a,b}` picks an alternative. A pattern without a slash
+ * matches the file name at any depth; one naming a directory matches
+ * everything below it.
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = glob.trim().replace(/^\.?\//, "");
+  if (!pattern.includes("/")) pattern = `**/${pattern}`;
+  pattern = pattern.replace(/\/$/, "");
+  return new RegExp(`^${translateGlob(pattern)}(?:/.*)?$`);
+}
+
+export function matchesGlob(path: string, glob: string): boolean {
+  return globToRegExp(glob).test(path);
+}
+
+/** `` `src/api/**`, *.{ts,tsx} `` → ["src/api/**", "*.{ts,tsx}"]; commas inside braces are kept. */
+function splitGlobs(list: string): string[] {
+  const globs: string[] = [];
+  let current = "";
+  let depth = 0;
+  for (const c of list.replace(/`/g, " ")) {
+    if (c === "{") depth++;
+    if (c === "}") depth = Math.max(0, depth - 1);
+    if (depth === 0 && (c === "," || /\s/.test(c))) {
+      if (current) globs.push(current);
+      current = "";
+    } else {
+      current += c;
+    }
+  }
+  if (current) globs.push(current);
+  return globs;
+}
+
+/**
+ * Read a rules file. Text under a `## Files: <globs>` heading applies to
+ * matching files only, up to the next `##` heading; everything else —
+ * including sections under other `##` headings — applies to every file.
+ */
+export function parseRulesFile(text: string, source: string): ReviewRule[] {
+  const rules: ReviewRule[] = [];
+  let files: string[] | undefined;
+  let body: string[] = [];
+  const flush = () => {
+    const instructions = body.join("\n").trim();
+    if (instructions) rules.push({ source, ...(files ? { files } : {}), instructions });
+    body = [];
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    if (/^##\s/.test(line)) {
+      flush();
+      const scope = line.match(SCOPE_HEADING);
+      files = scope ? splitGlobs(scope[1]) : undefined;
+      if (files?.length === 0) files = undefined;
+      if (scope) continue;
+    }
+    body.push(line);
+  }
+  flush();
+  return rules;
+}
+
+/**
+ * Standing rules for a review of the repository at `root`: its rules file
+ * (`.brainstorm/review.md` unless the config's `review.rulesFile` says
+ * otherwise), then the `review` section of brainstorm.config.json. Without
+ * a `root` only the config's rules apply.
+ */
+export function loadReviewRules(root: string | undefined): ReviewRule[] {
+  const config = getConfigSection("review") || {};
+  const rules: ReviewRule[] = [];
+
+  const rulesFile = config.rulesFile ?? DEFAULT_RULES_FILE;
+  if (root !== undefined && rulesFile !== false) {
+    try {
+      rules.push(...parseRulesFile(readFileSync(resolve(root, rulesFile), "utf-8"), rulesFile));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(
+          `[brainstorm] Could not read review rules ${rulesFile}: ` +
+            (err instanceof Error ? err.message : String(err))
+        );
+      }
+    }
+  }
+
+  if (config.instructions?.trim()) {
+    rules.push({ source: CONFIG_SOURCE, instructions: config.instructions.trim() });
+  }
+  for (const rule of config.rules ?? []) {
+    const files = (Array.isArray(rule.files) ? rule.files : [rule.files ?? ""]).filter(
+      (g) => typeof g === "string" && g.trim()
+    );
+    if (!rule.instructions?.trim() || files.length === 0) {
+      console.error(`[brainstorm] Ignoring review rule without files or instructions in ${CONFIG_SOURCE}`);
+      continue;
+    }
+    rules.push({ source: CONFIG_SOURCE, files, instructions: rule.instructions.trim() });
+  }
+  return rules;
+}
+
+/**
+ * The rules that apply to a set of changed files: every unscoped rule, and
+ * each scoped one with at least one matching file.
+ */
+export function rulesFor(rules: ReviewRule[], files: string[]): AppliedReviewRule[] {
+  const applied: AppliedReviewRule[] = [];
+  for (const rule of rules) {
+    if (!rule.files) {
+      applied.push(rule);
+      continue;
+    }
+    const matched = files.filter((f) => rule.files!.some((g) => matchesGlob(f, g)));
+    if (matched.length > 0) applied.push({ ...rule, matched });
+  }
+  return applied;
+}
@@ -0,0 +1,208 @@
+import { getConfigSection } from "./models.js";
+import { CancelledError, throwIfCancelled } from "./retry.js";
+import { ProviderLimits, ResolvedModel } from "./types.js";
+
+const WINDOW_MS = 60_000;
+
+// Every CLI call is a whole agent session with its own process tree, so a
+// chunked review should not start a dozen of them at once.
+const DEFAULT_CLI_CONCURRENCY = 4;
+
+/** A call's claim on its provider's limits; release it once the call ends. */
+export interface Slot {
+  /** How long the call waited before it could start. */
+  queuedMs: number;
+  /** `usedTokens` replaces the up-front estimate in the tokens-per-minute window. */
+  release(usedTokens?: number): void;
+}
+
+interface Booking {
+  at: number;
+  tokens: number;
+}
+
+interface Waiter {
+  tokens: number;
+  start: (booking: Booking) => void;
+}
+
+interface ProviderQueue {
+  limits: ProviderLimits;
+  active: number;
+  /** First in, first out: a big call at the head is not starved by small ones. */
+  waiting: Waiter[];
+  /** Start times within the last window. */
+  starts: number[];
+  bookings: Booking[];
+  /** Nothing starts before this; set when the provider answers 429. */
+  pausedUntil: number;
+  timer?: NodeJS.Timeout;
+}
+
+// One queue per provider for the whole process, so concurrent tool calls
+// (and HTTP clients) share the same budget.
+const queues = new Map<string, ProviderQueue>();
+
+function positiveInt(value: unknown): number | undefined {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * Effective limits for one model's provider: CLI providers default to
+ * DEFAULT_CLI_CONCURRENCY, then the top-level `limits` config section, then
+ * the provider's own `limits` block. BRAINSTORM_MAX_CONCURRENCY wins over
+ * all of them for concurrency. Anything not a positive integer is unlimited.
+ */
+export function limitsFor(model: ResolvedModel): ProviderLimits {
+  const limits: ProviderLimits = {
+    ...(model.kind === "cli" ? { concurrency: DEFAULT_CLI_CONCURRENCY } : {}),
+    ...getConfigSection("limits"),
+    ...model.limits,
+  };
+  return {
+    concurrency:
+      positiveInt(process.env.BRAINSTORM_MAX_CONCURRENCY) ?? positiveInt(limits.concurrency),
+    requestsPerMinute: positiveInt(limits.requestsPerMinute),
+    tokensPerMinute: positiveInt(limits.tokensPerMinute),
+  };
+}
+
+/**
+ * The provider's queue, with its limits read afresh: `add_provider` or a
+ * config reload may have changed them since the last call.
+ */
+function queueFor(model: ResolvedModel): ProviderQueue {
+  const limits = limitsFor(model);
+  let queue = queues.get(model.provider);
+  if (!queue) {
+    queue = { limits, active: 0, waiting: [], starts: [], bookings: [], pausedUntil: 0 };
+    queues.set(model.provider, queue);
+  }
+  queue.limits = limits;
+  return queue;
+}
+
+function prune(queue: ProviderQueue, now: number): void {
+  const cutoff = now - WINDOW_MS;
+  while (queue.starts.length && queue.starts[0] <= cutoff) queue.starts.shift();
+  while (queue.bookings.length && queue.bookings[0].at <= cutoff) queue.bookings.shift();
+}
+
+/**
+ * How long until a call of `tokens` may start: 0 for now, Infinity when only
+ * a running call finishing can make room.
+ */
+function delayFor(queue: ProviderQueue, tokens: number, now: number): number {
+  const { concurrency, requestsPerMinute, tokensPerMinute } = queue.limits;
+  if (concurrency && queue.active >= concurrency) return Infinity;
+
+  let delay = Math.max(0, queue.pausedUntil - now);
+  if (requestsPerMinute && queue.starts.length >= requestsPerMinute) {
+    const oldest = queue.starts[queue.starts.length - requestsPerMinute];
+    delay = Math.max(delay, oldest + WINDOW_MS - now);
+  }
+  if (tokensPerMinute) {
+    let used = queue.bookings.reduce((sum, b) => sum + b.tokens, 0);
+    // A call bigger than the whole budget still runs, once the window is
+    // otherwise empty.
+    for (const booking of queue.bookings) {
+      if (used + tokens <= tokensPerMinute) break;
+      used -= booking.tokens;
+      delay = Math.max(delay, booking.at + WINDOW_MS - now);
+    }
+  }
+  return delay;
+}
+
+function begin(queue: ProviderQueue, tokens: number, now: number): Booking {
+  queue.active++;
+  queue.starts.push(now);
+  const booking = { at: now, tokens };
+  queue.bookings.push(booking);
+  return booking;
+}
+
+/** Start as many waiting calls as the limits allow, and set a timer for the next. */
+function pump(queue: ProviderQueue): void {
+  clearTimeout(queue.timer);
+  queue.timer = undefined;
+  while (queue.waiting.length) {
+    const now = Date.now();
+    prune(queue, now);
+    const head = queue.waiting[0];
+    const delay = delayFor(queue, head.tokens, now);
+    // A running call's release pumps again.
+    if (delay === Infinity) return;
+    if (delay > 0) {
+      queue.timer = setTimeout(() => pump(queue), delay);
+      return;
+    }
+    queue.waiting.shift();
+    head.start(begin(queue, head.tokens, now));
+  }
+}
+
+function slot(queue: ProviderQueue, booking: Booking, queuedMs: number): Slot {
+  let released = false;
+  return {
+    queuedMs,
+    release(usedTokens) {
+      if (released) return;
+      released = true;
+      queue.active--;
+      if (usedTokens !== undefined) booking.tokens = usedTokens;
+      pump(queue);
+    },
+  };
+}
+
+/**
+ * Wait until `model`'s provider has room for a call of roughly
+ * `estimatedTokens`, in arrival order. `onQueued` is told this call's place
+ * in the queue when it has to wait; `signal` drops it from the queue.
+ */
+export async function acquireSlot(
+  model: ResolvedModel,
+  estimatedTokens: number,
+  signal?: AbortSignal,
+  onQueued?: (position: number) => void
+): Promise<Slot> {
+  throwIfCancelled(signal);
+  const queue = queueFor(model);
+  const queuedAt = Date.now();
+  prune(queue, queuedAt);
+  if (!queue.waiting.length && delayFor(queue, estimatedTokens, queuedAt) === 0) {
+    return slot(queue, begin(queue, estimatedTokens, queuedAt), 0);
+  }
+
+  onQueued?.(queue.waiting.length + 1);
+  return new Promise<Slot>((resolve, reject) => {
+    const waiter: Waiter = {
+      tokens: estimatedTokens,
+      start: (booking) => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(slot(queue, booking, Date.now() - queuedAt));
+      },
+    };
+    const onAbort = () => {
+      const i = queue.waiting.indexOf(waiter);
+      if (i >= 0) queue.waiting.splice(i, 1);
+      reject(new CancelledError());
+      // The call behind this one may be able to go now.
+      pump(queue);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    queue.waiting.push(waiter);
+    pump(queue);
+  });
+}
+
+/**
+ * Hold back every call to `model`'s provider for `ms` — a 429 for one call
+ * means the rest would only hit the same limit.
+ */
+export function pauseProvider(model: ResolvedModel, ms: number): void {
+  const queue = queueFor(model);
+  queue.pausedUntil = Math.max(queue.pausedUntil, Date.now() + ms);
+}
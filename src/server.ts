@@ -0,0 +1,46 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerBrainstormTool } from "./tools/brainstorm.js";
+import { registerBrainstormRespondTool } from "./tools/brainstorm-respond.js";
+import { registerBrainstormCollectTool } from "./tools/brainstorm-collect.js";
+import { registerListProvidersTool } from "./tools/list-models.js";
+import { registerAddProviderTool } from "./tools/add-model.js";
+import { registerBrainstormQuickTool } from "./tools/brainstorm-quick.js";
+import { registerBrainstormReviewTool } from "./tools/brainstorm-review.js";
+import { registerBrainstormVoteTool } from "./tools/brainstorm-vote.js";
+import { registerBrainstormHistoryTool } from "./tools/brainstorm-history.js";
+import { registerBrainstormGetTool } from "./tools/brainstorm-get.js";
+import { registerBrainstormStatusTool } from "./tools/brainstorm-status.js";
+import { registerBrainstormCancelTool } from "./tools/brainstorm-cancel.js";
+
+/**
+ * A server with the tools registered. stdio uses one; the HTTP transport
+ * creates one per client session and leaves out add_provider, which would
+ * let any client point another provider's API key at a URL of its choosing.
+ * It also confines brainstorm_review's `repoPath` to `http.repoRoots`.
+ */
+export function createServer(options: { shared?: boolean } = {}): McpServer {
+  const server = new McpServer(
+    {
+      name: "brainstorm",
+      version: "1.6.0",
+    },
+    {
+      // Lets BRAINSTORM_LOG_NOTIFICATIONS mirror debate progress as MCP log messages.
+      capabilities: { logging: {} },
+    }
+  );
+
+  registerBrainstormTool(server);
+  registerBrainstormRespondTool(server);
+  registerBrainstormCollectTool(server);
+  registerBrainstormStatusTool(server);
+  registerBrainstormCancelTool(server);
+  registerBrainstormQuickTool(server);
+  registerBrainstormReviewTool(server, options);
+  registerBrainstormVoteTool(server);
+  registerBrainstormHistoryTool(server);
+  registerBrainstormGetTool(server);
+  registerListProvidersTool(server);
+  if (!options.shared) registerAddProviderTool(server);
+  return server;
+}
@@ -1,17 +1,213 @@
 import { randomUUID } from "crypto";
-import { DebateSession, RoundResponse } from "./types.js";
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import {
+  DebateSession,
+  FallbackMap,
+  GenerationOptions,
+  OutputMode,
+  ParticipantRole,
+} from "./types.js";
+import { expandHome, getConfigSection } from "./models.js";
 
-const SESSION_TTL_MS = 10 * 60 * 1000; // 10 minutes
-const MAX_SESSIONS = 50;
+const DEFAULT_TTL_MINUTES = 10;
+const DEFAULT_MAX_SESSIONS = 50;
+const DEFAULT_SESSION_DIR = join(homedir(), ".brainstorm", "sessions");
 
-const sessions = new Map<string, DebateSession>();
+// Session ids come back from the client, so anything that reaches the
+// filesystem must look like one of our own UUIDs.
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
-function cleanExpired(): void {
-  const now = Date.now();
-  for (const [id, s] of sessions) {
-    if (now - s.createdAt > SESSION_TTL_MS) {
+/**
+ * Where sessions live between tool calls. Implementations hold plain
+ * `DebateSession` objects; expiry and eviction are applied on top by this
+ * module so every store behaves the same.
+ */
+export interface SessionStore {
+  get(id: string): DebateSession | undefined;
+  set(session: DebateSession): void;
+  delete(id: string): void;
+  list(): DebateSession[];
+}
+
+export function createMemorySessionStore(): SessionStore {
+  const sessions = new Map<string, DebateSession>();
+  return {
+    get: (id) => sessions.get(id),
+    set: (session) => {
+      sessions.set(session.id, session);
+    },
+    delete: (id) => {
       sessions.delete(id);
+    },
+    list: () => Array.from(sessions.values()),
+  };
+}
+
+type SerializedSession = Omit<DebateSession, "failedModels"> & {
+  failedModels: string[];
+};
+
+function readSessionFile(path: string): DebateSession | undefined {
+  try {
+    const raw: SerializedSession = JSON.parse(readFileSync(path, "utf-8"));
+    return {
+      ...raw,
+      updatedAt: raw.updatedAt ?? raw.createdAt,
+      failedModels: new Set(raw.failedModels ?? []),
+    };
+  } catch {
+    // Unreadable or half-written file — treat as missing rather than failing
+    // the whole tool call.
+    return undefined;
+  }
+}
+
+/**
+ * One JSON file per session, so a debate survives a server restart and can be
+ * picked up again by whichever process the host spawns next.
+ */
+export function createFileSessionStore(dir: string): SessionStore {
+  mkdirSync(dir, { recursive: true });
+
+  const pathFor = (id: string) =>
+    SESSION_ID_PATTERN.test(id) ? join(dir, `${id}.json`) : undefined;
+
+  return {
+    get(id) {
+      const path = pathFor(id);
+      if (!path || !existsSync(path)) return undefined;
+      return readSessionFile(path);
+    },
+
+    set(session) {
+      const path = pathFor(session.id);
+      if (!path) throw new Error(`Invalid session id "${session.id}"`);
+      const serialized: SerializedSession = {
+        ...session,
+        failedModels: Array.from(session.failedModels),
+      };
+      // Write-then-rename so a crash mid-write never leaves a torn session.
+      const tmp = `${path}.${process.pid}.tmp`;
+      writeFileSync(tmp, JSON.stringify(serialized), "utf-8");
+      renameSync(tmp, path);
+    },
+
+    delete(id) {
+      const path = pathFor(id);
+      if (path) rmSync(path, { force: true });
+    },
+
+    list() {
+      const out: DebateSession[] = [];
+      for (const file of readdirSync(dir)) {
+        if (!file.endsWith(".json")) continue;
+        const session = readSessionFile(join(dir, file));
+        if (session) out.push(session);
+      }
+      return out;
+    },
+  };
+}
+
+interface SessionSettings {
+  ttlMs: number;
+  maxSessions: number;
+}
+
+let store: SessionStore | undefined;
+let settings: SessionSettings | undefined;
+
+function positiveNumber(value: unknown): number | undefined {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * Resolve the store and limits from env vars (which win) and the `sessions`
+ * section of brainstorm.config.json. Done lazily so loadProviders() has run.
+ */
+function init(): { store: SessionStore; settings: SessionSettings } {
+  if (store && settings) return { store, settings };
+
+  const config = getConfigSection("sessions") || {};
+  const kind = (process.env.BRAINSTORM_SESSION_STORE || config.store || "memory")
+    .trim()
+    .toLowerCase();
+
+  settings = {
+    ttlMs:
+      (positiveNumber(process.env.BRAINSTORM_SESSION_TTL_MINUTES) ??
+        positiveNumber(config.ttlMinutes) ??
+        DEFAULT_TTL_MINUTES) *
+      60 *
+      1000,
+    maxSessions:
+      positiveNumber(process.env.BRAINSTORM_MAX_SESSIONS) ??
+      positiveNumber(config.maxSessions) ??
+      DEFAULT_MAX_SESSIONS,
+  };
+
+  if (kind === "file") {
+    const dir = expandHome(
+      process.env.BRAINSTORM_SESSION_DIR || config.dir || DEFAULT_SESSION_DIR
+    );
+    try {
+      store = createFileSessionStore(dir);
+      console.error(`[brainstorm] Persisting sessions to ${dir}`);
+    } catch (err) {
+      console.error(
+        `[brainstorm] Cannot use session dir ${dir} (${err instanceof Error ? err.message : String(err)}) — falling back to memory`
+      );
+      store = createMemorySessionStore();
+    }
+  } else {
+    if (kind !== "memory") {
+      console.error(`[brainstorm] Unknown session store "${kind}" — using memory`);
     }
+    store = createMemorySessionStore();
+  }
+
+  return { store, settings };
+}
+
+/** Swap the backing store, e.g. for an embedding application. */
+export function setSessionStore(next: SessionStore): void {
+  init();
+  store = next;
+}
+
+/** Inactivity window after which a session is dropped. */
+export function getSessionTtlMs(): number {
+  return init().settings.ttlMs;
+}
+
+/** Human-readable TTL for "session not found" messages. */
+export function describeSessionTtl(): string {
+  const minutes = Math.round(getSessionTtlMs() / 60_000);
+  return minutes % 60 === 0 && minutes >= 60
+    ? `${minutes / 60} hour(s)`
+    : `${minutes} minute(s)`;
+}
+
+function isExpired(session: DebateSession, ttlMs: number, now: number): boolean {
+  return now - (session.updatedAt ?? session.createdAt) > ttlMs;
+}
+
+function cleanExpired(): void {
+  const { store, settings } = init();
+  const now = Date.now();
+  for (const s of store.list()) {
+    if (isExpired(s, settings.ttlMs, now)) store.delete(s.id);
   }
 }
 
@@ -25,41 +221,64 @@ export function createSession(params: {
   hostedPhase?: "round" | "synthesis";
   context?: string;
   style?: "freeform" | "redteam" | "socratic";
+  maxCostUsd?: number;
+  fallbacks?: FallbackMap;
+  generation?: GenerationOptions;
+  roles?: Record<string, ParticipantRole>;
+  output?: OutputMode;
+  owner?: string;
 }): DebateSession {
+  const { store, settings } = init();
   cleanExpired();
 
-  if (sessions.size >= MAX_SESSIONS) {
-    const oldest = [...sessions.entries()].sort(
-      ([, a], [, b]) => a.createdAt - b.createdAt
-    )[0];
-    if (oldest) sessions.delete(oldest[0]);
+  const live = store.list();
+  if (live.length >= settings.maxSessions) {
+    const idleFirst = live.sort((a, b) => a.updatedAt - b.updatedAt);
+    for (const s of idleFirst.slice(0, live.length - settings.maxSessions + 1)) {
+      store.delete(s.id);
+    }
   }
 
+  const now = Date.now();
   const session: DebateSession = {
     ...params,
     id: randomUUID(),
-    createdAt: Date.now(),
-    startTime: Date.now(),
+    createdAt: now,
+    updatedAt: now,
+    startTime: now,
     currentRound: 0,
     rounds: [],
     failedModels: new Set<string>(),
-    totalCharsProcessed: 0,
     status: "awaiting_host",
   };
-  sessions.set(session.id, session);
+  store.set(session);
   return session;
 }
 
-export function getSession(id: string): DebateSession | undefined {
-  const session = sessions.get(id);
-  if (!session) return undefined;
-  if (Date.now() - session.createdAt > SESSION_TTL_MS) {
-    sessions.delete(id);
+/**
+ * A live session by id. `owner` is the calling client over HTTP; another
+ * client's session is reported as missing rather than forbidden.
+ */
+export function getSession(id: string, owner?: string): DebateSession | undefined {
+  const { store, settings } = init();
+  const session = store.get(id);
+  if (!session || session.owner !== owner) return undefined;
+  if (isExpired(session, settings.ttlMs, Date.now())) {
+    store.delete(id);
     return undefined;
   }
   return session;
 }
 
+/**
+ * Persist changes made to a session object. Callers mutate the session they
+ * got from getSession() and must save it before returning to the host.
+ */
+export function saveSession(session: DebateSession): void {
+  session.updatedAt = Date.now();
+  init().store.set(session);
+}
+
 export function deleteSession(id: string): void {
-  sessions.delete(id);
+  init().store.delete(id);
 }
@@ -1,6 +1,6 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { addProvider } from "../models.js";
+import { addProvider, anthropicDefaults, getProvider } from "../models.js";
 import {
   BUILTIN_CLIS,
   CLAUDE_CLI_BACKENDS,
@@ -8,66 +8,77 @@ import {
   specForAdapter,
   specForClaudeBackend,
 } from "../cli.js";
+import { addProviderOutputShape, outputArg, toolResult } from "../output.js";
+import { providerInfo } from "./list-models.js";
 
 export function registerAddProviderTool(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     "add_provider",
-    "Add a new AI provider for brainstorming. Supports any OpenAI-compatible API, " +
-      "or a locally installed agent CLI (kind='cli') that runs on an existing " +
-      "subscription instead of API credits.",
     {
-      name: z
-        .string()
-        .describe("Provider name, e.g. 'groq', 'ollama', 'mistral', 'claude'"),
-      kind: z
-        .enum(["api", "cli"])
-        .optional()
-        .describe(
-          "'api' (default) for an OpenAI-compatible HTTP endpoint, 'cli' for a local agent CLI."
-        ),
-      defaultModel: z
-        .string()
-        .describe(
-          "Default model for this provider, e.g. 'llama3', 'sonnet'. Use 'default' to let a CLI pick its own."
-        ),
-      baseURL: z
-        .string()
-        .optional()
-        .describe("api only: base URL, e.g. 'http://localhost:11434/v1' for Ollama"),
-      apiKeyEnvVar: z
-        .string()
-        .optional()
-        .describe(
-          "api only: environment variable holding the API key. Use 'NONE' if no key required."
-        ),
-      adapter: z
-        .string()
-        .optional()
-        .describe(
-          `cli only: built-in adapter — ${Object.keys(BUILTIN_CLIS).join(", ")} — or 'custom'. Defaults to the provider name.`
-        ),
-      backend: z
-        .string()
-        .optional()
-        .describe(
-          `cli only: run the Claude CLI against another vendor's coding plan — ${Object.keys(CLAUDE_CLI_BACKENDS).join(", ")}. Overrides 'adapter'.`
-        ),
-      command: z
-        .string()
-        .optional()
-        .describe("cli only: executable to run. Required for adapter 'custom'."),
-      args: z
-        .array(z.string())
-        .optional()
-        .describe(
-          "cli only ('custom' adapter): argv template. Placeholders: {{model}}, {{system}}, {{prompt}}, {{outfile}}."
-        ),
-      promptVia: z
-        .enum(["arg", "stdin"])
-        .optional()
-        .describe("cli only ('custom' adapter): how the prompt reaches the CLI."),
+      description:
+        "Add a new AI provider for brainstorming. Supports any OpenAI-compatible API, " +
+          "or a locally installed agent CLI (kind='cli') that runs on an existing " +
+          "subscription instead of API credits.",
+      inputSchema: {
+        name: z
+          .string()
+          .describe("Provider name, e.g. 'groq', 'ollama', 'mistral', 'claude'"),
+        kind: z
+          .enum(["api", "anthropic", "cli"])
+          .optional()
+          .describe(
+            "'api' (default) for an OpenAI-compatible HTTP endpoint, 'anthropic' for an " +
+              "Anthropic Messages endpoint, 'cli' for a local agent CLI."
+          ),
+        defaultModel: z
+          .string()
+          .describe(
+            "Default model for this provider, e.g. 'llama3', 'sonnet'. Use 'default' to let a CLI pick its own."
+          ),
+        baseURL: z
+          .string()
+          .optional()
+          .describe(
+            "api/anthropic: base URL, e.g. 'http://localhost:11434/v1' for Ollama. " +
+              "Optional for anthropic providers named anthropic, moonshot, minimax or glm."
+          ),
+        apiKeyEnvVar: z
+          .string()
+          .optional()
+          .describe(
+            "api/anthropic: environment variable holding the API key. Use 'NONE' if no key required."
+          ),
+        adapter: z
+          .string()
+          .optional()
+          .describe(
+            `cli only: built-in adapter — ${Object.keys(BUILTIN_CLIS).join(", ")} — or 'custom'. Defaults to the provider name.`
+          ),
+        backend: z
+          .string()
+          .optional()
+          .describe(
+            `cli only: run the Claude CLI against another vendor's coding plan — ${Object.keys(CLAUDE_CLI_BACKENDS).join(", ")}. Overrides 'adapter'.`
+          ),
+        command: z
+          .string()
+          .optional()
+          .describe("cli only: executable to run. Required for adapter 'custom'."),
+        args: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "cli only ('custom' adapter): argv template. Placeholders: {{model}}, {{system}}, {{prompt}}, {{outfile}}."
+          ),
+        promptVia: z
+          .enum(["arg", "stdin"])
+          .optional()
+          .describe("cli only ('custom' adapter): how the prompt reaches the CLI."),
+        output: outputArg,
+      },
+      outputSchema: addProviderOutputShape,
+      annotations: { destructiveHint: false },
     },
-    { destructiveHint: false },
     async ({
       name,
       kind,
@@ -79,6 +90,7 @@ export function registerAddProviderTool(server: McpServer): void {
       command,
       args,
       promptVia,
+      output,
     }) => {
       try {
         if (kind === "cli") {
@@ -118,48 +130,44 @@ export function registerAddProviderTool(server: McpServer): void {
           });
 
           const installed = commandExists(cli.command);
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text:
-                  `CLI provider **${name}** added.\n\n` +
-                  `- Adapter: ${adapterId}${backend ? ` (backend: ${backend})` : ""}\n` +
-                  `- Command: \`${cli.command}\` (${installed ? "found on PATH" : "NOT FOUND on PATH"})\n` +
-                  (backend
-                    ? `- Endpoint: ${CLAUDE_CLI_BACKENDS[backend].baseURL} (token from ${CLAUDE_CLI_BACKENDS[backend].tokenEnv})\n`
-                    : "") +
-                  `- Default model: ${defaultModel}\n` +
-                  `- Billing: your ${backend || name} subscription, not Anthropic API credits\n\n` +
-                  `Use it as \`${name}:${defaultModel}\` in brainstorm calls.`,
-              },
-            ],
-          };
+          return toolResult(
+            `CLI provider **${name}** added.\n\n` +
+              `- Adapter: ${adapterId}${backend ? ` (backend: ${backend})` : ""}\n` +
+              `- Command: \`${cli.command}\` (${installed ? "found on PATH" : "NOT FOUND on PATH"})\n` +
+              (backend
+                ? `- Endpoint: ${CLAUDE_CLI_BACKENDS[backend].baseURL} (token from ${CLAUDE_CLI_BACKENDS[backend].tokenEnv})\n`
+                : "") +
+              `- Default model: ${defaultModel}\n` +
+              `- Billing: your ${backend || name} subscription, not Anthropic API credits\n\n` +
+              `Use it as \`${name}:${defaultModel}\` in brainstorm calls.`,
+            { provider: providerInfo(getProvider(name)!) },
+            output
+          );
         }
 
-        if (!baseURL) {
+        const defaults = kind === "anthropic" ? anthropicDefaults(name) : undefined;
+        const url = baseURL || defaults?.baseURL;
+        if (!url) {
           throw new Error("API providers require a baseURL.");
         }
+        const keyEnv = apiKeyEnvVar || defaults?.apiKeyEnvVar || "NONE";
 
         addProvider({
           name,
-          kind: "api",
-          baseURL,
-          apiKeyEnvVar: apiKeyEnvVar || "NONE",
+          kind: kind === "anthropic" ? "anthropic" : "api",
+          baseURL: url,
+          apiKeyEnvVar: keyEnv,
           defaultModel,
         });
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text:
-                `Provider **${name}** added successfully.\n\n` +
-                `- Base URL: ${baseURL}\n` +
-                `- Default model: ${defaultModel}\n` +
-                `- API Key Env: ${apiKeyEnvVar || "NONE"}`,
-            },
-          ],
-        };
+        return toolResult(
+          `Provider **${name}** added successfully.\n\n` +
+            (kind === "anthropic" ? `- Protocol: Anthropic Messages\n` : "") +
+            `- Base URL: ${url}\n` +
+            `- Default model: ${defaultModel}\n` +
+            `- API Key Env: ${keyEnv}`,
+          { provider: providerInfo(getProvider(name)!) },
+          output
+        );
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
         return {
@@ -0,0 +1,52 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { cancelJob, getJob } from "../jobs.js";
+import { formatJobStatus } from "../format.js";
+import { jobOutput, jobOutputShape, outputArg, toolResult } from "../output.js";
+
+export function registerBrainstormCancelTool(server: McpServer): void {
+  server.registerTool(
+    "brainstorm_cancel",
+    {
+      description:
+        "Stop a debate started with `brainstorm` and background=true. In-flight API requests " +
+          "are aborted and CLI processes killed; the rounds finished so far are returned. " +
+          "A job that already finished is left as it is.",
+      inputSchema: {
+        job_id: z.string().describe("The job ID returned by the brainstorm tool"),
+        output: outputArg,
+      },
+      outputSchema: jobOutputShape,
+      annotations: { destructiveHint: false, idempotentHint: true },
+    },
+    async ({ job_id, output }, extra) => {
+      try {
+        const job = getJob(job_id.trim(), extra.authInfo?.clientId);
+        if (!job) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `No job with id "${job_id}". It may have finished more than an hour ago.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        await cancelJob(job);
+        return toolResult(formatJobStatus(job), jobOutput(job), output);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `brainstorm_cancel failed: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -1,44 +1,66 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { getSession, deleteSession } from "../sessions.js";
-import { buildHistoryContext, estimateTokens, estimateCost, getRoundNSystem, getSynthesisSystem, buildEffectiveTopic } from "../debate.js";
-import { formatResult } from "../format.js";
+import {
+  getSession,
+  saveSession,
+  deleteSession,
+  describeSessionTtl,
+} from "../sessions.js";
+import {
+  buildHistoryContext,
+  buildRoundUserMessage,
+  buildSynthesisUserMessage,
+  buildDebateStats,
+  getRoundNSystem,
+  getSynthesisSystem,
+  buildEffectiveTopic,
+} from "../debate.js";
+import { archiveResult } from "../archive.js";
+import { measureConvergence } from "../consensus.js";
+import { systemsFor } from "../roles.js";
+import { formatArchiveNote, formatResult, formatRolePrompts } from "../format.js";
+import { debateOutputShape, outputArg, toolResult } from "../output.js";
 import { RoundResponse, DebateResult } from "../types.js";
 
 export function registerBrainstormCollectTool(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     "brainstorm_collect",
-    "Submit collected model responses for a hosted brainstorm session. " +
-      "After receiving prompts from `brainstorm` (mode='hosted') or a previous `brainstorm_collect` call, " +
-      "execute each prompt by spawning a sub-agent for EACH model (use the model parameter to select " +
-      "the right model, e.g., model='sonnet' or model='haiku'). Collect all responses and submit them here. " +
-      "This tool returns either: (1) the next round's prompt to execute, (2) a synthesis prompt for a single model, " +
-      "or (3) the final formatted debate result when complete.",
     {
-      session_id: z
-        .string()
-        .describe("The session ID from the brainstorm tool"),
-      responses: z
-        .array(
-          z.object({
-            model: z.string().describe("The model label (e.g. 'opus', 'sonnet')"),
-            content: z.string().describe("The model's response text"),
-          })
-        )
-        .min(1)
-        .describe("Array of model responses collected by the host"),
+      description:
+        "Submit collected model responses for a hosted brainstorm session. " +
+          "After receiving prompts from `brainstorm` (mode='hosted') or a previous `brainstorm_collect` call, " +
+          "execute each prompt by spawning a sub-agent for EACH model (use the model parameter to select " +
+          "the right model, e.g., model='sonnet' or model='haiku'). Collect all responses and submit them here. " +
+          "This tool returns either: (1) the next round's prompt to execute, (2) a synthesis prompt for a single model, " +
+          "or (3) the final formatted debate result when complete.",
+      inputSchema: {
+        session_id: z
+          .string()
+          .describe("The session ID from the brainstorm tool"),
+        responses: z
+          .array(
+            z.object({
+              model: z.string().describe("The model label (e.g. 'opus', 'sonnet')"),
+              content: z.string().describe("The model's response text"),
+            })
+          )
+          .min(1)
+          .describe("Array of model responses collected by the host"),
+        output: outputArg,
+      },
+      outputSchema: debateOutputShape,
+      annotations: { readOnlyHint: true },
     },
-    { readOnlyHint: true },
-    async ({ session_id, responses }) => {
+    async ({ session_id, responses, output }, extra) => {
       try {
-        const session = getSession(session_id);
+        const session = getSession(session_id, extra.authInfo?.clientId);
         if (!session) {
           return {
             content: [
               {
                 type: "text" as const,
                 text:
-                  "Session not found or expired. Sessions expire after 10 minutes. " +
+                  `Session not found or expired. Sessions expire after ${describeSessionTtl()} of inactivity. ` +
                   "Start a new brainstorm session by calling the `brainstorm` tool.",
               },
             ],
@@ -60,38 +82,46 @@ export function registerBrainstormCollectTool(server: McpServer): void {
           };
         }
 
+        const renderAs = output ?? session.output;
+
         // Handle synthesis response
         if (session.hostedPhase === "synthesis") {
           const synthesisText = responses[0]?.content || "";
-          session.totalCharsProcessed += synthesisText.length;
-
-          const totalDurationMs = Date.now() - session.startTime;
-          const estimatedTokensVal =
-            estimateTokens(session.topic.repeat(session.totalRounds)) +
-            Math.ceil(session.totalCharsProcessed / 4);
 
+          // The host ran every prompt itself, so there is no provider usage
+          // to read — buildDebateStats counts these responses from their text.
           const result: DebateResult = {
             topic: session.topic,
             rounds: session.rounds,
             synthesis: synthesisText,
             modelsFailed: Array.from(session.failedModels),
-            stats: {
-              totalDurationMs,
-              estimatedTokens: estimatedTokensVal,
-              estimatedCost: estimateCost(
-                session.modelIdentifiers,
-                estimatedTokensVal
-              ),
-            },
+            stats: buildDebateStats(
+              session.rounds,
+              {
+                content: synthesisText,
+                modelId: responses[0]?.model || session.synthesizerIdentifier,
+              },
+              session.modelIdentifiers,
+              Date.now() - session.startTime
+            ),
           };
+          const convergence = session.trackConvergence ? measureConvergence(session.rounds) : [];
+          if (convergence.length) result.stats.convergence = convergence;
 
           deleteSession(session_id);
 
-          return {
-            content: [
-              { type: "text" as const, text: formatResult(result) },
-            ],
-          };
+          const archiveId = archiveResult("debate", result, {
+            models: session.modelIdentifiers,
+            style: session.style,
+            mode: "hosted",
+            owner: extra.authInfo?.clientId,
+          });
+
+          return toolResult(
+            formatResult(result) + formatArchiveNote(archiveId),
+            { status: "complete", sessionId: session_id, result, archiveId },
+            renderAs
+          );
         }
 
         // Store round responses
@@ -100,13 +130,12 @@ export function registerBrainstormCollectTool(server: McpServer): void {
           modelId: r.model,
           round: roundNumber,
           content: r.content,
+          ...(session.roles?.[r.model] ? { role: session.roles[r.model].name } : {}),
         }));
 
         session.rounds.push(roundResponses);
         session.currentRound = roundNumber;
-        for (const r of roundResponses) {
-          session.totalCharsProcessed += r.content.length;
-        }
+        saveSession(session);
 
         // Check if we need more rounds or synthesis
         if (roundNumber < session.totalRounds) {
@@ -114,65 +143,89 @@ export function registerBrainstormCollectTool(server: McpServer): void {
           const nextRound = roundNumber + 1;
           const history = buildHistoryContext(session.rounds);
 
-          const roundSystem = getRoundNSystem(nextRound, session.totalRounds, session.style);
+          const roundSystem = getRoundNSystem(
+            nextRound,
+            session.totalRounds,
+            session.style,
+            session.trackConvergence
+          );
 
           const effectiveTopic = buildEffectiveTopic(session.topic, session.context);
-          const roundUserMessage =
-            `Original topic: ${effectiveTopic}\n\n${history}\n\n` +
-            `Now provide your refined response for round ${nextRound}. Consider all perspectives above.`;
-
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text:
-                  `## Round ${nextRound} of ${session.totalRounds}\n\n` +
-                  `## Prompt to Execute\n\n` +
-                  `**System message:**\n${roundSystem}\n\n` +
-                  `**User message:**\n${roundUserMessage}\n\n` +
-                  `---\n\n` +
-                  `Execute the above prompt separately with each model: **${session.modelIdentifiers.join("**, **")}**\n\n` +
-                  `Then call \`brainstorm_collect\` with:\n` +
-                  `- session_id: "${session_id}"\n` +
-                  `- responses: [${session.modelIdentifiers.map((m) => `{ model: "${m}", content: "..." }`).join(", ")}]`,
+          const roundUserMessage = buildRoundUserMessage(
+            effectiveTopic,
+            history,
+            nextRound
+          );
+
+          return toolResult(
+            `## Round ${nextRound} of ${session.totalRounds}\n\n` +
+              `## Prompt to Execute\n\n` +
+              `**System message:**\n${roundSystem}\n\n` +
+              `**User message:**\n${roundUserMessage}\n\n` +
+              formatRolePrompts(session.roles) +
+              `---\n\n` +
+              `Execute the above prompt separately with each model: **${session.modelIdentifiers.join("**, **")}**\n\n` +
+              `Then call \`brainstorm_collect\` with:\n` +
+              `- session_id: "${session_id}"\n` +
+              `- responses: [${session.modelIdentifiers.map((m) => `{ model: "${m}", content: "..." }`).join(", ")}]`,
+            {
+              status: "awaiting_collect",
+              sessionId: session_id,
+              round: nextRound,
+              totalRounds: session.totalRounds,
+              phase: "round",
+              prompt: {
+                system: roundSystem,
+                user: roundUserMessage,
+                models: session.modelIdentifiers,
+                systems: systemsFor(roundSystem, session.roles),
               },
-            ],
-          };
+            },
+            renderAs
+          );
         }
 
         // Last round done — generate synthesis prompt
         session.hostedPhase = "synthesis";
+        saveSession(session);
 
         const fullHistory = buildHistoryContext(session.rounds);
 
         const synthesisSystem = getSynthesisSystem(session.style);
 
         const effectiveTopicSynth = buildEffectiveTopic(session.topic, session.context);
-        const synthesisUserMessage =
-          `Original topic: ${effectiveTopicSynth}\n\n${fullHistory}\n\n` +
-          `Please synthesize the above debate into a structured verdict.`;
+        const synthesisUserMessage = buildSynthesisUserMessage(
+          effectiveTopicSynth,
+          fullHistory
+        );
 
         const synthModel = session.synthesizerIdentifier;
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text:
-                `## Synthesis\n\n` +
-                `All ${session.totalRounds} round(s) complete. Now synthesize the debate.\n\n` +
-                `## Prompt to Execute\n\n` +
-                `**Synthesizer model:** ${synthModel}\n\n` +
-                `**System message:**\n${synthesisSystem}\n\n` +
-                `**User message:**\n${synthesisUserMessage}\n\n` +
-                `---\n\n` +
-                `Execute the above prompt with **${synthModel}**.\n\n` +
-                `Then call \`brainstorm_collect\` with:\n` +
-                `- session_id: "${session_id}"\n` +
-                `- responses: [{ model: "${synthModel}", content: "..." }]`,
+        return toolResult(
+          `## Synthesis\n\n` +
+            `All ${session.totalRounds} round(s) complete. Now synthesize the debate.\n\n` +
+            `## Prompt to Execute\n\n` +
+            `**Synthesizer model:** ${synthModel}\n\n` +
+            `**System message:**\n${synthesisSystem}\n\n` +
+            `**User message:**\n${synthesisUserMessage}\n\n` +
+            `---\n\n` +
+            `Execute the above prompt with **${synthModel}**.\n\n` +
+            `Then call \`brainstorm_collect\` with:\n` +
+            `- session_id: "${session_id}"\n` +
+            `- responses: [{ model: "${synthModel}", content: "..." }]`,
+          {
+            status: "awaiting_collect",
+            sessionId: session_id,
+            totalRounds: session.totalRounds,
+            phase: "synthesis",
+            prompt: {
+              system: synthesisSystem,
+              user: synthesisUserMessage,
+              models: [synthModel],
             },
-          ],
-        };
+          },
+          renderAs
+        );
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
         return {
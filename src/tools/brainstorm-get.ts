@@ -0,0 +1,83 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { getArchiveEntry } from "../archive.js";
+import { formatArchiveEntry } from "../format.js";
+import { parseVerdict } from "../findings.js";
+import { exportReview } from "../export.js";
+import {
+  exportArg,
+  outputArg,
+  resultOutputShape,
+  toolResult,
+} from "../output.js";
+
+export function registerBrainstormGetTool(server: McpServer): void {
+  server.registerTool(
+    "brainstorm_get",
+    {
+      description:
+        "Re-open an archived debate, quick brainstorm, code review or vote by id and return its full " +
+          "transcript, rendered the same way as when it first completed. " +
+          "Find ids with `brainstorm_history`.",
+      inputSchema: {
+        id: z
+          .string()
+          .describe("Archive id, e.g. '20250601-142233-a1b2c3'"),
+        export: exportArg.describe(
+          "Optional, reviews only: CI exports of the findings ('sarif', 'github', " +
+            "'github-review'), as for brainstorm_review. Reviews archived before findings " +
+            "were structured export empty."
+        ),
+        output: outputArg,
+      },
+      outputSchema: resultOutputShape,
+      annotations: { readOnlyHint: true },
+    },
+    async ({ id, export: exportFormats, output }, extra) => {
+      try {
+        const entry = getArchiveEntry(id.trim(), extra.authInfo?.clientId);
+        if (!entry) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `No archived run with id "${id}". Use \`brainstorm_history\` to list available ids.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        return toolResult(
+          formatArchiveEntry(entry),
+          {
+            kind: entry.kind,
+            result: entry.result,
+            ...(entry.kind === "review"
+              ? {
+                  verdict:
+                    entry.result.verdict ?? parseVerdict(entry.result.synthesis),
+                }
+              : {}),
+            archiveId: entry.id,
+            ...(entry.kind === "review" && exportFormats?.length
+              ? { exports: exportReview(entry.result, exportFormats) }
+              : {}),
+          },
+          output
+        );
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `brainstorm_get failed: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
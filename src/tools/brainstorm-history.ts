@@ -0,0 +1,136 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { listArchive } from "../archive.js";
+import { historyOutputShape, outputArg, toolResult } from "../output.js";
+
+function parseDate(value: string | undefined, label: string): number | undefined {
+  if (!value) return undefined;
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) {
+    throw new Error(`Invalid ${label} date "${value}". Use ISO format, e.g. 2025-06-01.`);
+  }
+  return ms;
+}
+
+function oneLine(text: string, max: number): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
+
+export function registerBrainstormHistoryTool(server: McpServer): void {
+  server.registerTool(
+    "brainstorm_history",
+    {
+      description:
+        "List past debates, quick brainstorms, code reviews and votes from the local archive, " +
+          "newest first. " +
+          "Filter by date range, model, style, kind or keyword. Use `brainstorm_get` with an id " +
+          "from this list to re-open the full transcript.",
+      inputSchema: {
+        kind: z
+          .enum(["debate", "quick", "review", "vote"])
+          .optional()
+          .describe("Optional: only this kind of run"),
+        since: z
+          .string()
+          .optional()
+          .describe("Optional: ISO date/time — only runs at or after this point"),
+        until: z
+          .string()
+          .optional()
+          .describe("Optional: ISO date/time — only runs at or before this point"),
+        model: z
+          .string()
+          .optional()
+          .describe("Optional: substring of a participating model id, e.g. 'gpt-5' or 'claude:'"),
+        style: z
+          .enum(["freeform", "redteam", "socratic"])
+          .optional()
+          .describe("Optional: only debates run in this style"),
+        keyword: z
+          .string()
+          .optional()
+          .describe("Optional: case-insensitive text searched in topics, responses and syntheses"),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(200)
+          .default(20)
+          .describe("Maximum number of entries to return (default: 20)"),
+        output: outputArg,
+      },
+      outputSchema: historyOutputShape,
+      annotations: { readOnlyHint: true },
+    },
+    async ({ kind, since, until, model, style, keyword, limit, output }, extra) => {
+      try {
+        // A bare date for `until` means "through the end of that day".
+        const untilMs = parseDate(until, "until");
+        const entries = listArchive(
+          {
+            kind,
+            since: parseDate(since, "since"),
+            until:
+              untilMs !== undefined && /^\d{4}-\d{2}-\d{2}$/.test(until!)
+                ? untilMs + 24 * 60 * 60 * 1000 - 1
+                : untilMs,
+            model,
+            style,
+            keyword,
+            limit,
+          },
+          extra.authInfo?.clientId
+        );
+
+        const summaries = entries.map((e) => ({
+          id: e.id,
+          kind: e.kind,
+          createdAt: e.createdAt,
+          topic: e.topic,
+          models: e.models,
+          ...(e.style ? { style: e.style } : {}),
+          ...(e.mode ? { mode: e.mode } : {}),
+        }));
+
+        if (!entries.length) {
+          return toolResult(
+            "## Brainstorm History\n\nNo archived runs match. Completed debates, quick " +
+              "brainstorms and reviews are archived automatically unless BRAINSTORM_ARCHIVE=off.",
+            { entries: summaries },
+            output
+          );
+        }
+
+        const rows = entries.map((e) => {
+          const date = new Date(e.createdAt).toISOString().slice(0, 16).replace("T", " ");
+          return (
+            `| \`${e.id}\` | ${date} | ${e.kind} | ${e.style || "freeform"} | ` +
+            `${e.models.join(", ")} | ${oneLine(e.topic, 80).replace(/\|/g, "\\|")} |`
+          );
+        });
+
+        return toolResult(
+          `## Brainstorm History\n\n` +
+            `| ID | Date (UTC) | Kind | Style | Models | Topic |\n` +
+            `|----|------------|------|-------|--------|-------|\n` +
+            `${rows.join("\n")}\n\n` +
+            `*${entries.length} run(s). Open one with \`brainstorm_get\`.*`,
+          { entries: summaries },
+          output
+        );
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `brainstorm_history failed: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -1,42 +1,66 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { runExternalRound, getRound1System, buildEffectiveTopic, estimateTokens, estimateCost } from "../debate.js";
+import { runQuick } from "../debate.js";
 import { getDefaultModels } from "../models.js";
+import { archiveResult } from "../archive.js";
+import { createProgressReporter } from "../progress.js";
+import { formatArchiveNote, formatQuickResult } from "../format.js";
+import { outputArg, resultOutputShape, toolResult } from "../output.js";
 
 export function registerBrainstormQuickTool(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     "brainstorm_quick",
-    "Get instant multi-model perspectives on any question — no debate rounds, no synthesis delay. " +
-      "Fires all models in parallel and returns a compact comparison. Under 10 seconds. " +
-      "Use this for quick second opinions, snap decisions, or when you want diverse perspectives fast. " +
-      "For deeper analysis with multiple rounds and synthesis, use the `brainstorm` tool instead.",
     {
-      topic: z
-        .string()
-        .describe("The question or topic to get quick perspectives on"),
-      models: z
-        .array(z.string())
-        .optional()
-        .describe(
-          "Optional: specific models as 'provider:model' (API providers, or CLI providers " +
-            "like 'claude:sonnet' that use a subscription instead of API credits). " +
-            "If not provided, all configured providers are used."
-        ),
-      context: z
-        .string()
-        .optional()
-        .describe(
-          "Optional context — code snippets, error logs, etc. Models will see this alongside the topic."
-        ),
-      style: z
-        .enum(["freeform", "redteam", "socratic"])
-        .default("freeform")
-        .describe("Perspective style (default: freeform)"),
+      description:
+        "Get instant multi-model perspectives on any question — no debate rounds, no synthesis delay. " +
+          "Fires all models in parallel and returns a compact comparison. Under 10 seconds. " +
+          "Use this for quick second opinions, snap decisions, or when you want diverse perspectives fast. " +
+          "For deeper analysis with multiple rounds and synthesis, use the `brainstorm` tool instead.",
+      inputSchema: {
+        topic: z
+          .string()
+          .describe("The question or topic to get quick perspectives on"),
+        models: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Optional: specific models as 'provider:model' (API providers, or CLI providers " +
+              "like 'claude:sonnet' that use a subscription instead of API credits). " +
+              "If not provided, all configured providers are used."
+          ),
+        context: z
+          .string()
+          .optional()
+          .describe(
+            "Optional context — code snippets, error logs, etc. Models will see this alongside the topic."
+          ),
+        style: z
+          .enum(["freeform", "redteam", "socratic"])
+          .default("freeform")
+          .describe("Perspective style (default: freeform)"),
+        fallbacks: z
+          .record(z.string(), z.array(z.string()))
+          .optional()
+          .describe(
+            "Optional: substitutes per participant, tried in order once its retries run out, e.g. " +
+              "{ \"openai:gpt-5.4\": [\"deepseek:deepseek-chat\"] }. Overrides the config file's " +
+              "`fallbacks` for the participants listed. Substitutions are marked in the transcript."
+          ),
+        maxCostUsd: z
+          .number()
+          .positive()
+          .optional()
+          .describe(
+            "Optional spend ceiling in USD. The call is refused before any model runs if the " +
+              "projected cost would exceed it."
+          ),
+        output: outputArg,
+      },
+      outputSchema: resultOutputShape,
+      annotations: { readOnlyHint: true },
     },
-    { readOnlyHint: true },
-    async ({ topic, models, context, style }) => {
+    async ({ topic, models, context, style, fallbacks, maxCostUsd, output }, extra) => {
       try {
-        const startTime = Date.now();
         const modelList =
           models && models.length > 0 ? models : getDefaultModels();
 
@@ -52,61 +76,35 @@ export function registerBrainstormQuickTool(server: McpServer): void {
           };
         }
 
-        const onProgress = (msg: string) => {
-          console.error(`[brainstorm_quick] ${msg}`);
-        };
-
-        const effectiveTopic = buildEffectiveTopic(topic, context);
-        const systemPrompt = getRound1System(style);
-
-        // Fire all models in parallel — single round, no cross-model interaction
-        const { responses } = await runExternalRound(
-          effectiveTopic,
-          modelList,
-          1,
-          1,
-          [],
-          systemPrompt,
-          onProgress
-        );
-
-        const durationMs = Date.now() - startTime;
-        const totalChars = responses.reduce((n, r) => n + r.content.length, 0);
-        const tokens = estimateTokens(effectiveTopic.repeat(modelList.length)) + Math.ceil(totalChars / 4);
-        const cost = estimateCost(modelList, tokens);
-
-        // Format as compact comparison
-        const lines: string[] = [];
-        lines.push(`# Quick Brainstorm: ${topic}\n`);
-        lines.push(
-          `**Models:** ${modelList.join(", ")} | ` +
-            `**Time:** ${(durationMs / 1000).toFixed(1)}s | ` +
-            `**Cost:** ${cost}\n`
+        const onProgress = createProgressReporter(
+          server,
+          extra,
+          "brainstorm_quick",
+          modelList.length
         );
 
-        const failed = responses.filter((r) => r.error);
-        if (failed.length > 0) {
-          lines.push(
-            `**Failures:** ${failed.map((f) => f.modelId).join(", ")}\n`
-          );
-        }
+        // Fire all models in parallel — single round, no cross-model interaction
+        const result = await runQuick(topic, modelList, {
+          context,
+          style,
+          onProgress,
+          fallbacks,
+          maxCostUsd,
+          signal: extra.signal,
+        });
 
-        for (const resp of responses) {
-          lines.push(`## ${resp.modelId}\n`);
-          if (resp.error) {
-            lines.push(`> **ERROR:** ${resp.error}\n`);
-          } else {
-            lines.push(`${resp.content}\n`);
-          }
-        }
+        const archiveId = archiveResult("quick", result, {
+          models: modelList,
+          style,
+          mode: "api",
+          owner: extra.authInfo?.clientId,
+        });
 
-        lines.push(
-          `---\n*${responses.length - failed.length} model(s) responded in ${(durationMs / 1000).toFixed(1)}s.*`
+        return toolResult(
+          formatQuickResult(result) + formatArchiveNote(archiveId),
+          { kind: "quick", result, archiveId },
+          output
         );
-
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
         return {
@@ -1,41 +1,67 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { getSession, deleteSession } from "../sessions.js";
-import { runExternalRound, runSynthesis, estimateTokens, estimateCost } from "../debate.js";
-import { formatResult, formatRoundResponses } from "../format.js";
-import { RoundResponse, DebateResult } from "../types.js";
+import {
+  getSession,
+  saveSession,
+  deleteSession,
+  describeSessionTtl,
+} from "../sessions.js";
+import {
+  runExternalRound,
+  runSynthesis,
+  buildEffectiveTopic,
+  buildDebateStats,
+  projectRoundCost,
+  projectSynthesisCost,
+  checkBudget,
+} from "../debate.js";
+import { costOfResponses } from "../pricing.js";
+import { CancelledError } from "../retry.js";
+import { archiveResult } from "../archive.js";
+import { measureConvergence, POSITION_INSTRUCTIONS } from "../consensus.js";
+import { createProgressReporter } from "../progress.js";
+import { formatArchiveNote, formatResult, formatRoundResponses } from "../format.js";
+import { debateOutputShape, outputArg, toolResult } from "../output.js";
+import { CostBudget, RoundResponse, DebateResult } from "../types.js";
 
 export function registerBrainstormRespondTool(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     "brainstorm_respond",
-    "Submit YOUR (Claude's) response for the current round of an interactive brainstorm session. " +
-      "After the brainstorm tool returns external models' responses, call this tool with your " +
-      "substantive contribution. Read all responses carefully and engage with specific points — " +
-      "agree, disagree, build upon, or challenge ideas. Do not just summarize. " +
-      "After your response, the next round runs automatically (or synthesis if final round).",
     {
-      session_id: z
-        .string()
-        .describe("The session ID returned by the brainstorm tool"),
-      response: z
-        .string()
-        .min(50)
-        .describe(
-          "Your substantive contribution to this round of the debate. " +
-            "Engage deeply with the other models' responses. Minimum 50 characters."
-        ),
+      description:
+        "Submit YOUR (Claude's) response for the current round of an interactive brainstorm session. " +
+          "After the brainstorm tool returns external models' responses, call this tool with your " +
+          "substantive contribution. Read all responses carefully and engage with specific points — " +
+          "agree, disagree, build upon, or challenge ideas. Do not just summarize. " +
+          "After your response, the next round runs automatically (or synthesis if final round).",
+      inputSchema: {
+        session_id: z
+          .string()
+          .describe("The session ID returned by the brainstorm tool"),
+        response: z
+          .string()
+          .min(50)
+          .describe(
+            "Your substantive contribution to this round of the debate. " +
+              "Engage deeply with the other models' responses. Minimum 50 characters."
+          ),
+        output: outputArg,
+      },
+      outputSchema: debateOutputShape,
+      annotations: { readOnlyHint: true },
     },
-    { readOnlyHint: true },
-    async ({ session_id, response }) => {
+    async ({ session_id, response, output }, extra) => {
+      // Set once the host's turn is recorded, to take it back if the call is cancelled.
+      let withdrawTurn: (() => void) | undefined;
       try {
-        const session = getSession(session_id);
+        const session = getSession(session_id, extra.authInfo?.clientId);
         if (!session) {
           return {
             content: [
               {
                 type: "text" as const,
                 text:
-                  "Session not found or expired. Sessions expire after 10 minutes. " +
+                  `Session not found or expired. Sessions expire after ${describeSessionTtl()} of inactivity. ` +
                   "Start a new brainstorm session by calling the `brainstorm` tool.",
               },
             ],
@@ -55,11 +81,11 @@ export function registerBrainstormRespondTool(server: McpServer): void {
           };
         }
 
-        const onProgress = (msg: string) => {
-          console.error(`[brainstorm] ${msg}`);
-        };
-
         const currentRound = session.currentRound;
+        const renderAs = output ?? session.output;
+        // Round 1 went out with the context folded in; later rounds and the
+        // synthesis need to see it too.
+        const effectiveTopic = buildEffectiveTopic(session.topic, session.context);
 
         // Store Claude's response for the current round
         const claudeResponse: RoundResponse = {
@@ -67,56 +93,120 @@ export function registerBrainstormRespondTool(server: McpServer): void {
           round: currentRound,
           content: response,
         };
-        session.rounds[currentRound - 1].push(claudeResponse);
-        session.totalCharsProcessed += response.length;
+        const turns = session.rounds[currentRound - 1];
+        turns.push(claudeResponse);
+        withdrawTurn = () => {
+          turns.splice(turns.indexOf(claudeResponse), 1);
+        };
+
+        // Spend so far is recomputed from the stored rounds, so a session
+        // reloaded from disk keeps honouring its budget.
+        const budget: CostBudget | undefined =
+          session.maxCostUsd !== undefined
+            ? {
+                maxCostUsd: session.maxCostUsd,
+                spentUsd: costOfResponses(session.rounds),
+              }
+            : undefined;
+
+        let roundsNote: string | undefined;
+        if (currentRound < session.totalRounds) {
+          const overBudget = checkBudget(
+            budget,
+            projectRoundCost(
+              effectiveTopic,
+              session.modelIdentifiers,
+              currentRound + 1,
+              session.totalRounds,
+              session.rounds,
+              session.systemPrompt,
+              session.style,
+              session.trackConvergence
+            ) +
+              projectSynthesisCost(
+                effectiveTopic,
+                session.rounds,
+                session.synthesizerIdentifier,
+                session.style
+              )
+          );
+          if (overBudget) {
+            roundsNote = `Stopped after round ${currentRound} of ${session.totalRounds}: ${overBudget}.`;
+          }
+        }
+        const synthesizeNow = currentRound >= session.totalRounds || !!roundsNote;
+
+        // Either the synthesis call, or one call per external model next round.
+        const onProgress = createProgressReporter(
+          server,
+          extra,
+          "brainstorm",
+          synthesizeNow ? 1 : session.modelIdentifiers.length
+        );
 
         onProgress(
           `Round ${currentRound}: claude:host responded (${response.length} chars)`
         );
+        if (roundsNote) onProgress(roundsNote);
 
-        // Final round — run synthesis
-        if (currentRound >= session.totalRounds) {
+        // Final round (or out of budget) — run synthesis
+        if (synthesizeNow) {
           const synthesis = await runSynthesis(
-            session.topic,
+            effectiveTopic,
             session.rounds,
             session.synthesizerIdentifier,
             session.modelIdentifiers,
-            onProgress,
-            session.style
+            {
+              onProgress,
+              style: session.style,
+              budget,
+              generation: session.generation,
+              signal: extra.signal,
+            }
           );
-          session.totalCharsProcessed += synthesis.length;
 
           const totalDurationMs = Date.now() - session.startTime;
           const allModelIds = [...session.modelIdentifiers, "claude:host"];
-          const estimatedTokensVal =
-            estimateTokens(session.topic.repeat(session.totalRounds)) +
-            Math.ceil(session.totalCharsProcessed / 4);
 
           const result: DebateResult = {
             topic: session.topic,
             rounds: session.rounds,
-            synthesis,
+            synthesis: synthesis.content,
             modelsFailed: Array.from(session.failedModels),
-            stats: {
-              totalDurationMs,
-              estimatedTokens: estimatedTokensVal,
-              estimatedCost: estimateCost(allModelIds, estimatedTokensVal),
-            },
+            stats: buildDebateStats(
+              session.rounds,
+              synthesis,
+              allModelIds,
+              totalDurationMs
+            ),
           };
+          const budgetNote = [roundsNote, synthesis.budgetNote]
+            .filter(Boolean)
+            .join(" ");
+          if (budgetNote) result.stats.budgetNote = budgetNote;
+          const convergence = session.trackConvergence ? measureConvergence(session.rounds) : [];
+          if (convergence.length) result.stats.convergence = convergence;
 
           session.status = "complete";
           deleteSession(session_id);
 
           onProgress(
             `Brainstorm complete in ${(totalDurationMs / 1000).toFixed(1)}s. ` +
-              `~${estimatedTokensVal.toLocaleString()} tokens, ${result.stats.estimatedCost}`
+              `~${result.stats.estimatedTokens.toLocaleString()} tokens, ${result.stats.estimatedCost}`
           );
 
-          return {
-            content: [
-              { type: "text" as const, text: formatResult(result) },
-            ],
-          };
+          const archiveId = archiveResult("debate", result, {
+            models: allModelIds,
+            style: session.style,
+            mode: "interactive",
+            owner: extra.authInfo?.clientId,
+          });
+
+          return toolResult(
+            formatResult(result) + formatArchiveNote(archiveId),
+            { status: "complete", sessionId: session_id, result, archiveId },
+            renderAs
+          );
         }
 
         // More rounds — run next round with external models
@@ -124,20 +214,27 @@ export function registerBrainstormRespondTool(server: McpServer): void {
 
         const { responses: nextResponses, failedModels } =
           await runExternalRound(
-            session.topic,
+            effectiveTopic,
             session.modelIdentifiers,
             nextRound,
             session.totalRounds,
             session.rounds,
-            session.systemPrompt,
-            onProgress
+            {
+              systemPrompt: session.systemPrompt,
+              onProgress,
+              style: session.style,
+              fallbacks: session.fallbacks,
+              generation: session.generation,
+              roles: session.roles,
+              positions: session.trackConvergence,
+              signal: extra.signal,
+            }
           );
 
         session.rounds.push(nextResponses);
         session.currentRound = nextRound;
-        for (const r of nextResponses)
-          session.totalCharsProcessed += r.content.length;
         for (const f of failedModels) session.failedModels.add(f);
+        saveSession(session);
 
         const roundText = formatRoundResponses(nextResponses);
         const remainingRounds = session.totalRounds - nextRound;
@@ -150,24 +247,30 @@ export function registerBrainstormRespondTool(server: McpServer): void {
             : `**Your turn (final round).** ` +
               `This is the FINAL round. Provide your best, refined position. ` +
               `After this, the debate will be synthesized.`;
+        const positionNote = session.trackConvergence ? POSITION_INSTRUCTIONS : "";
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text:
-                `## Round ${nextRound} of ${session.totalRounds}\n\n` +
-                `### External Model Responses\n\n${roundText}\n` +
-                `---\n\n` +
-                `${turnInstruction}\n\n` +
-                `Call \`brainstorm_respond\` with:\n` +
-                `- session_id: "${session_id}"\n` +
-                `- response: your contribution\n\n` +
-                `Engage with the other models' specific points.`,
-            },
-          ],
-        };
+        return toolResult(
+          `## Round ${nextRound} of ${session.totalRounds}\n\n` +
+            `### External Model Responses\n\n${roundText}\n` +
+            `---\n\n` +
+            `${turnInstruction}${positionNote}\n\n` +
+            `Call \`brainstorm_respond\` with:\n` +
+            `- session_id: "${session_id}"\n` +
+            `- response: your contribution\n\n` +
+            `Engage with the other models' specific points.`,
+          {
+            status: "awaiting_response",
+            sessionId: session_id,
+            round: nextRound,
+            totalRounds: session.totalRounds,
+            responses: nextResponses,
+          },
+          renderAs
+        );
       } catch (err) {
+        // The session may live in memory, so the turn would otherwise stay
+        // recorded and be doubled when the host submits it again.
+        if (err instanceof CancelledError) withdrawTurn?.();
         const message = err instanceof Error ? err.message : String(err);
         return {
           content: [
@@ -1,99 +1,180 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { runExternalRound, runSynthesis, estimateTokens, estimateCost } from "../debate.js";
-import { getDefaultModels } from "../models.js";
-import { RoundResponse, DebateResult } from "../types.js";
+import {
+  DEFAULT_REVIEW_CHUNK_CHARS,
+  DEFAULT_REVIEW_CONCURRENCY,
+  reviewChunks,
+  runReview,
+} from "../review.js";
+import { CATEGORIES } from "../findings.js";
+import { exportReview } from "../export.js";
+import { describeChange, gitDiff, STAGED, WORKING_TREE } from "../git.js";
+import { DEFAULT_RULES_FILE, loadReviewRules } from "../rules.js";
+import { getConfigSection, getDefaultModels } from "../models.js";
+import { archiveResult } from "../archive.js";
+import { createProgressReporter } from "../progress.js";
+import { formatArchiveNote, formatReviewResult } from "../format.js";
+import {
+  exportArg,
+  outputArg,
+  resultOutputShape,
+  toolResult,
+} from "../output.js";
 
-const REVIEW_SYSTEM_PROMPT =
-  "You are reviewing a code change. Focus on issues likely introduced by this diff. " +
-  "For each finding, specify:\n" +
-  "- **Severity**: critical / high / medium / low\n" +
-  "- **Category**: correctness / security / performance / maintainability / tests\n" +
-  "- **File & lines** (if identifiable from the diff)\n" +
-  "- **Title**: one-line summary\n" +
-  "- **Explanation**: why this matters\n" +
-  "- **Suggestion**: how to fix it\n\n" +
-  "Prefer fewer high-confidence findings over many low-signal ones. " +
-  "Do NOT nitpick style unless it affects correctness or maintainability. " +
-  "Do NOT review code that wasn't changed. " +
-  "If there are no significant issues, say so clearly.";
-
-const REVIEW_SYNTHESIS_PROMPT =
-  "You are synthesizing a multi-model code review. Produce a structured verdict:\n\n" +
-  "## Verdict\n" +
-  "One of: **approve** / **approve with warnings** / **needs changes**\n" +
-  "One sentence explaining why.\n\n" +
-  "## Findings\n" +
-  "A markdown table with columns: Severity | Category | File | Lines | Finding | Suggestion\n" +
-  "Merge duplicate findings from different models. Order by severity (critical first).\n" +
-  "Include at most 10 findings. Drop low-signal items.\n\n" +
-  "## Model Agreement\n" +
-  "Which issues were flagged by multiple models (high confidence) vs. only one (worth investigating).\n\n" +
-  "Be concise. This output should be suitable for posting as a PR comment.";
-
-export function registerBrainstormReviewTool(server: McpServer): void {
-  server.tool(
+/**
+ * `shared` is the HTTP transport: clients there may only diff repositories
+ * under the config's `http.repoRoots`, and the server's own working
+ * directory is not searched for rules.
+ */
+export function registerBrainstormReviewTool(
+  server: McpServer,
+  options: { shared?: boolean } = {}
+): void {
+  server.registerTool(
     "brainstorm_review",
-    "Multi-model code review. Pass a diff and get structured findings with severity, " +
-      "file/line references, and a verdict (approve / approve with warnings / needs changes). " +
-      "Multiple models review independently, then findings are synthesized and deduplicated. " +
-      "Use this for PR reviews, code audits, or pre-commit checks.",
     {
-      diff: z
-        .string()
-        .describe("The unified diff to review (e.g., output of `git diff`)"),
-      title: z
-        .string()
-        .optional()
-        .describe("Optional: PR title or change summary for context"),
-      description: z
-        .string()
-        .optional()
-        .describe("Optional: PR description or commit message"),
-      instructions: z
-        .string()
-        .optional()
-        .describe(
-          "Optional: repo-specific review instructions (e.g., 'we use strict null checks', " +
-            "'focus on SQL injection risks')"
-        ),
-      focus: z
-        .union([
-          z.array(
-            z.enum([
-              "correctness",
-              "security",
-              "performance",
-              "maintainability",
-              "tests",
-            ])
+      description:
+        "Multi-model code review. Pass a diff, or a local repository and refs to diff, and get " +
+          "structured findings with severity, file/line references, and a verdict " +
+          "(approve / approve with warnings / needs changes). " +
+          "Multiple models review independently and answer in JSON; findings are validated, " +
+          "merged across models, and optionally exported as SARIF or GitHub check-run annotations. " +
+          "Use this for PR reviews, code audits, or pre-commit checks.",
+      inputSchema: {
+        diff: z
+          .string()
+          .optional()
+          .describe(
+            "The unified diff to review (e.g., output of `git diff`). Omit when passing `repoPath`."
+          ),
+        repoPath: z
+          .string()
+          .optional()
+          .describe(
+            "Optional: path to a local git repository to compute the diff from, instead of " +
+              "passing `diff`. Use with `base` and `head`."
+          ),
+        base: z
+          .string()
+          .optional()
+          .describe(
+            "Optional, with repoPath: ref to review against, e.g. 'main'. Required when `head` " +
+              "is a ref; defaults to HEAD for staged or working-tree changes."
+          ),
+        head: z
+          .string()
+          .optional()
+          .describe(
+            `Optional, with repoPath: ref to review (default 'HEAD'), or '${STAGED}' / ` +
+              `'${WORKING_TREE}' for uncommitted changes. Refs are compared from their merge ` +
+              "base with `base`, like a pull request."
+          ),
+        includeFileContents: z
+          .boolean()
+          .optional()
+          .describe(
+            "Optional, with repoPath: attach the full new contents of each touched file as " +
+              "context (files over 20,000 characters are skipped)."
+          ),
+        title: z
+          .string()
+          .optional()
+          .describe("Optional: PR title or change summary for context"),
+        description: z
+          .string()
+          .optional()
+          .describe("Optional: PR description or commit message"),
+        instructions: z
+          .string()
+          .optional()
+          .describe(
+            "Optional: repo-specific review instructions (e.g., 'we use strict null checks', " +
+              "'focus on SQL injection risks'), on top of the repository's standing rules"
+          ),
+        repoRules: z
+          .boolean()
+          .optional()
+          .describe(
+            `Optional: apply the repository's ${DEFAULT_RULES_FILE} and the config file's ` +
+              "`review` rules (default: true). Rules scoped to globs only reach reviewers of " +
+              "matching files. Looked up in repoPath, or the server's working directory."
+          ),
+        focus: z
+          .union([z.array(z.enum(CATEGORIES)), z.enum(CATEGORIES)])
+          .optional()
+          .transform((val) =>
+            val ? (Array.isArray(val) ? val : [val]) : undefined
+          )
+          .describe(
+            "Optional: focus areas for the review. Default: all categories."
+          ),
+        invalidLocations: z
+          .enum(["flag", "drop"])
+          .optional()
+          .describe(
+            "Optional: findings citing a file or lines outside the diff are kept without the " +
+              "location and flagged ('flag', default) or discarded ('drop')."
+          ),
+        maxChunkChars: z
+          .number()
+          .int()
+          .min(2000)
+          .optional()
+          .describe(
+            `Optional: diffs longer than this many characters are split by file and hunk and ` +
+              `each part reviewed separately, findings merged afterwards. ` +
+              `Default: ${DEFAULT_REVIEW_CHUNK_CHARS}.`
           ),
-          z.enum([
-            "correctness",
-            "security",
-            "performance",
-            "maintainability",
-            "tests",
-          ]),
-        ])
-        .optional()
-        .transform((val) =>
-          val ? (Array.isArray(val) ? val : [val]) : undefined
-        )
-        .describe(
-          "Optional: focus areas for the review. Default: all categories."
-        ),
-      models: z
-        .array(z.string())
-        .optional()
-        .describe(
-          "Optional: specific models as 'provider:model'. Default: all configured providers."
-        ),
+        concurrency: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(
+            `Optional: how many parts of a split diff are reviewed at once (each by every ` +
+              `model). Default: ${DEFAULT_REVIEW_CONCURRENCY}.`
+          ),
+        rounds: z
+          .number()
+          .int()
+          .min(1)
+          .max(5)
+          .optional()
+          .describe(
+            "Optional: review rounds (default: 1). Every round after the first has each model " +
+              "confirm, dispute or downgrade the merged findings; the verdict reports which " +
+              "survived and by how much agreement."
+          ),
+        models: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Optional: specific models as 'provider:model'. Default: all configured providers."
+          ),
+        fallbacks: z
+          .record(z.string(), z.array(z.string()))
+          .optional()
+          .describe(
+            "Optional: substitutes per participant, tried in order once its retries run out, e.g. " +
+              "{ \"openai:gpt-5.4\": [\"deepseek:deepseek-chat\"] }. Overrides the config file's " +
+              "`fallbacks` for the participants listed. Substitutions are marked in the transcript."
+          ),
+        maxCostUsd: z
+          .number()
+          .positive()
+          .optional()
+          .describe(
+            "Optional spend ceiling in USD. The review is refused if the reviewers alone would " +
+              "exceed it; the synthesized verdict is skipped if it would push spend over."
+          ),
+        export: exportArg,
+        output: outputArg,
+      },
+      outputSchema: resultOutputShape,
+      annotations: { readOnlyHint: true },
     },
-    { readOnlyHint: true },
-    async ({ diff, title, description, instructions, focus, models }) => {
+    async ({ diff, repoPath, base, head, includeFileContents, title, description, instructions, repoRules, focus, invalidLocations, maxChunkChars, concurrency, rounds, models, fallbacks, maxCostUsd, export: exportFormats, output }, extra) => {
       try {
-        const startTime = Date.now();
         const modelList =
           models && models.length > 0 ? models : getDefaultModels();
 
@@ -109,98 +190,119 @@ export function registerBrainstormReviewTool(server: McpServer): void {
           };
         }
 
-        const onProgress = (msg: string) => {
-          console.error(`[brainstorm_review] ${msg}`);
-        };
-
-        // Build the review prompt
-        const userParts: string[] = [];
-        if (title) userParts.push(`**PR Title:** ${title}`);
-        if (description) userParts.push(`**Description:** ${description}`);
-        if (focus && focus.length > 0) {
-          userParts.push(`**Focus areas:** ${focus.join(", ")}`);
-        }
-        if (instructions) {
-          userParts.push(`**Review instructions:** ${instructions}`);
+        if ((diff === undefined) === (repoPath === undefined)) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Pass either `diff` or `repoPath` (with `base`/`head`), not both.",
+              },
+            ],
+            isError: true,
+          };
         }
-        userParts.push(`\n## Diff to Review\n\n\`\`\`diff\n${diff}\n\`\`\``);
-
-        const userMessage = userParts.join("\n");
 
-        // Run all models in parallel — single round, redteam-style review
-        onProgress(`Starting review with ${modelList.length} model(s)...`);
+        let fileContents: Record<string, string> | undefined;
+        let root = options.shared ? undefined : process.cwd();
+        if (repoPath !== undefined) {
+          const allowedRoots = options.shared
+            ? getConfigSection("http")?.repoRoots ?? []
+            : undefined;
+          if (allowedRoots && !allowedRoots.length) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text:
+                    "`repoPath` is not available over HTTP unless the server lists repositories " +
+                    "in `http.repoRoots`. Pass `diff` instead.",
+                },
+              ],
+              isError: true,
+            };
+          }
+          const fromGit = await gitDiff({
+            repoPath,
+            base,
+            head,
+            includeFileContents,
+            allowedRoots,
+          });
+          if (!fromGit.diff.trim()) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `Nothing to review: no changes in ${fromGit.range}.`,
+                },
+              ],
+              isError: true,
+            };
+          }
+          diff = fromGit.diff;
+          root = fromGit.root;
+          fileContents = fromGit.fileContents;
+          const described = describeChange(fromGit);
+          title ??= described.title;
+          description ??= described.description;
+          if (fromGit.skippedFiles) {
+            console.error(`[brainstorm] Not attaching: ${fromGit.skippedFiles.join(", ")}`);
+          }
+        }
+        const reviewDiff = diff!;
 
-        const { responses, failedModels } = await runExternalRound(
-          userMessage,
-          modelList,
-          1,
-          1,
-          [],
-          REVIEW_SYSTEM_PROMPT,
-          onProgress
+        // Every reviewer on every chunk, then once per cross-examination
+        // round, plus the synthesis call.
+        const chunkCount = reviewChunks(reviewDiff, maxChunkChars).length;
+        const onProgress = createProgressReporter(
+          server,
+          extra,
+          "brainstorm_review",
+          modelList.length * (chunkCount + (rounds ?? 1) - 1) + 1
         );
 
-        // Run synthesis with review-specific prompt
-        onProgress("Synthesizing findings...");
-
-        const synthesisRounds: RoundResponse[][] = [responses];
-        const synthesis = await runSynthesis(
-          userMessage,
-          synthesisRounds,
-          modelList[0],
+        const result = await runReview(
+          {
+            diff: reviewDiff,
+            title,
+            description,
+            instructions,
+            focus,
+            invalidLocations,
+            fileContents,
+            rules: repoRules === false ? undefined : loadReviewRules(root),
+          },
           modelList,
-          onProgress,
-          undefined, // no style override — we use our own synthesis prompt
-          REVIEW_SYNTHESIS_PROMPT
+          {
+            onProgress,
+            fallbacks,
+            maxCostUsd,
+            maxChunkChars,
+            concurrency,
+            rounds,
+            signal: extra.signal,
+          }
         );
 
-        const durationMs = Date.now() - startTime;
-        const totalChars =
-          responses.reduce((n, r) => n + r.content.length, 0) +
-          synthesis.length;
-        const tokens =
-          estimateTokens(userMessage.repeat(modelList.length)) +
-          Math.ceil(totalChars / 4);
-        const cost = estimateCost(modelList, tokens);
+        const archiveId = archiveResult("review", result, {
+          models: modelList,
+          mode: "api",
+          owner: extra.authInfo?.clientId,
+        });
 
-        // Format output
-        const lines: string[] = [];
-        lines.push(`# Code Review: ${title || "Untitled Change"}\n`);
-        lines.push(
-          `**Reviewers:** ${modelList.join(", ")} | ` +
-            `**Time:** ${(durationMs / 1000).toFixed(1)}s | ` +
-            `**Cost:** ${cost}`
+        return toolResult(
+          formatReviewResult(result) + formatArchiveNote(archiveId),
+          {
+            kind: "review",
+            result,
+            verdict: result.verdict,
+            archiveId,
+            ...(exportFormats?.length
+              ? { exports: exportReview(result, exportFormats) }
+              : {}),
+          },
+          output
         );
-        if (failedModels.length > 0) {
-          lines.push(
-            `**Failures:** ${failedModels.join(", ")}`
-          );
-        }
-        lines.push("");
-        lines.push(synthesis);
-        lines.push("");
-
-        // Include individual model reviews as collapsible details
-        lines.push(`\n---\n`);
-        lines.push(`## Individual Model Reviews\n`);
-        for (const resp of responses) {
-          if (resp.error) {
-            lines.push(`### ${resp.modelId} — FAILED\n`);
-            lines.push(`> ${resp.error}\n`);
-          } else {
-            lines.push(`### ${resp.modelId}\n`);
-            lines.push(`${resp.content}\n`);
-          }
-        }
-
-        lines.push(
-          `\n---\n*Review completed in ${(durationMs / 1000).toFixed(1)}s. ` +
-            `${modelList.length} model(s), ${cost}.*`
-        );
-
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
         return {
@@ -0,0 +1,54 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { getJob } from "../jobs.js";
+import { formatJobStatus } from "../format.js";
+import { jobOutput, jobOutputShape, outputArg, toolResult } from "../output.js";
+
+export function registerBrainstormStatusTool(server: McpServer): void {
+  server.registerTool(
+    "brainstorm_status",
+    {
+      description:
+        "Check on a debate started with `brainstorm` and background=true: which round it is in, " +
+          "what each model has streamed so far, and the rounds already finished. Once the job " +
+          "is complete this returns the full transcript and synthesis, as a blocking debate would.",
+      inputSchema: {
+        job_id: z.string().describe("The job ID returned by the brainstorm tool"),
+        output: outputArg,
+      },
+      outputSchema: jobOutputShape,
+      annotations: { readOnlyHint: true },
+    },
+    async ({ job_id, output }, extra) => {
+      try {
+        const job = getJob(job_id.trim(), extra.authInfo?.clientId);
+        if (!job) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  `No job with id "${job_id}". Jobs live only in this server process, and ` +
+                  "finished ones are dropped after an hour — completed debates stay in the " +
+                  "archive (`brainstorm_history`).",
+              },
+            ],
+            isError: true,
+          };
+        }
+        return toolResult(formatJobStatus(job), jobOutput(job), output);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `brainstorm_status failed: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,147 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+  DEFAULT_VOTE_ROUNDS,
+  MAX_VOTE_CRITERIA,
+  MAX_VOTE_OPTIONS,
+  runVote,
+} from "../vote.js";
+import { getDefaultModels } from "../models.js";
+import { archiveResult } from "../archive.js";
+import { createProgressReporter } from "../progress.js";
+import { formatArchiveNote, formatVoteResult } from "../format.js";
+import { outputArg, resultOutputShape, toolResult } from "../output.js";
+
+export function registerBrainstormVoteTool(server: McpServer): void {
+  server.registerTool(
+    "brainstorm_vote",
+    {
+      description:
+        "Multi-model decision between candidate options. Every model scores every option " +
+          "(0–10, optionally per criterion) with a justification; scores become rankings, which " +
+          "are combined by Borda count. Later rounds show each model the others' ballots to " +
+          "revise against. Returns the winner, per-model scores, per-criterion means, and how " +
+          "stable the ranking was across rounds and models.",
+      inputSchema: {
+        question: z
+          .string()
+          .describe("The decision to make, e.g. 'Which queue should the billing service use?'"),
+        options: z
+          .array(z.string().min(1))
+          .min(2)
+          .max(MAX_VOTE_OPTIONS)
+          .describe(`The candidate options, ${MAX_VOTE_OPTIONS} at most. Listed to models as A, B, …`),
+        criteria: z
+          .array(z.string().min(1))
+          .max(MAX_VOTE_CRITERIA)
+          .optional()
+          .describe(
+            "Optional: criteria to judge the options by, e.g. ['cost', 'operational risk']. " +
+              "Models score each option against each one as well as overall."
+          ),
+        context: z
+          .string()
+          .optional()
+          .describe("Optional context the models should weigh — constraints, requirements, data."),
+        rounds: z
+          .number()
+          .int()
+          .min(1)
+          .max(5)
+          .optional()
+          .describe(
+            `Optional: voting rounds (default: ${DEFAULT_VOTE_ROUNDS}). Every round after the ` +
+              "first shows each model the previous ballots and reasons before it votes again."
+          ),
+        models: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Optional: specific models as 'provider:model'. Default: all configured providers."
+          ),
+        synthesizer: z
+          .string()
+          .optional()
+          .describe(
+            "Optional: model that writes up the decision, as 'provider:model'. Defaults to the first model."
+          ),
+        fallbacks: z
+          .record(z.string(), z.array(z.string()))
+          .optional()
+          .describe(
+            "Optional: substitutes per participant, tried in order once its retries run out, e.g. " +
+              "{ \"openai:gpt-5.4\": [\"deepseek:deepseek-chat\"] }. Overrides the config file's " +
+              "`fallbacks` for the participants listed. Substitutions are marked in the transcript."
+          ),
+        maxCostUsd: z
+          .number()
+          .positive()
+          .optional()
+          .describe(
+            "Optional spend ceiling in USD. The vote is refused if round 1 alone would exceed " +
+              "it; later rounds, then the write-up, are skipped once they would push spend over."
+          ),
+        output: outputArg,
+      },
+      outputSchema: resultOutputShape,
+      annotations: { readOnlyHint: true },
+    },
+    async ({ question, options, criteria, context, rounds, models, synthesizer, fallbacks, maxCostUsd, output }, extra) => {
+      try {
+        const modelList =
+          models && models.length > 0 ? models : getDefaultModels();
+
+        if (modelList.length < 2) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  "Need at least 2 models to vote. " +
+                  `Currently only ${modelList.length} provider(s) configured.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        // Every model in every round, plus the write-up.
+        const onProgress = createProgressReporter(
+          server,
+          extra,
+          "brainstorm_vote",
+          modelList.length * (rounds ?? DEFAULT_VOTE_ROUNDS) + 1
+        );
+
+        const result = await runVote(
+          { question, options, criteria, context },
+          modelList,
+          { rounds, synthesizer, onProgress, fallbacks, maxCostUsd, signal: extra.signal }
+        );
+
+        const archiveId = archiveResult("vote", result, {
+          models: modelList,
+          mode: "api",
+          owner: extra.authInfo?.clientId,
+        });
+
+        return toolResult(
+          formatVoteResult(result) + formatArchiveNote(archiveId),
+          { kind: "vote", result, archiveId },
+          output
+        );
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `brainstorm_vote failed: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
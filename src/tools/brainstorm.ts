@@ -1,114 +1,215 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { runDebate, runExternalRound, getRound1System, buildEffectiveTopic } from "../debate.js";
-import { getDefaultModels } from "../models.js";
-import { createSession } from "../sessions.js";
-import { formatResult, formatRoundResponses } from "../format.js";
+import {
+  runDebate,
+  runExternalRound,
+  getRound1System,
+  buildEffectiveTopic,
+  projectRoundCost,
+  projectSynthesisCost,
+  checkBudget,
+  overBudgetError,
+} from "../debate.js";
+import {
+  DEFAULT_CONSENSUS_THRESHOLD,
+  MAX_CONSENSUS_ROUNDS,
+  POSITION_INSTRUCTIONS,
+} from "../consensus.js";
+import { getDefaultModels, resolveModel } from "../models.js";
+import { BUILTIN_ROLES, resolveRoles, systemsFor } from "../roles.js";
+import { createSession, saveSession } from "../sessions.js";
+import { startJob } from "../jobs.js";
+import { archiveResult } from "../archive.js";
+import { createProgressReporter } from "../progress.js";
+import {
+  formatArchiveNote,
+  formatParticipants,
+  formatResult,
+  formatRolePrompts,
+  formatRoundResponses,
+} from "../format.js";
+import { debateOutputShape, outputArg, toolResult } from "../output.js";
+import { DebateResult } from "../types.js";
 
 export function registerBrainstormTool(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     "brainstorm",
-    "Run a multi-round brainstorming debate between multiple AI models. " +
-      "IMPORTANT: Before calling this tool, you MUST ask the user to choose a mode:\n\n" +
-      "1. **API mode** — Calls configured providers. These are either HTTP APIs billed per token " +
-      "(OpenAI, Gemini, DeepSeek, ...) or locally installed agent CLIs such as 'claude' and 'codex', " +
-      "which run on the user's existing subscription at no API cost. Call list_providers to see " +
-      "which of each are available.\n" +
-      "2. **Hosted mode** — No API keys needed. You execute prompts using sub-agents with models " +
-      "available in your environment (opus/sonnet/haiku, GPT, Gemini, etc.). " +
-      "Same model can be used multiple times — each run produces different perspectives.\n\n" +
-      "Present these two options to the user with a one-liner explanation, then proceed based on their choice.\n\n" +
-      "For API mode: set mode='api'. When participate=true (default), YOU also participate as a debater " +
-      "alongside external models via brainstorm_respond.\n" +
-      "For Hosted mode: set mode='hosted'. Ask the user which models to use, then spawn sub-agents " +
-      "for each model, collect responses, and call brainstorm_collect.",
     {
-      topic: z
-        .string()
-        .describe("The topic, question, or prompt to brainstorm about"),
-      models: z
-        .array(z.string())
-        .optional()
-        .describe(
-          "Optional: specific models to use as 'provider:model' (e.g. 'openai:gpt-4o', " +
-            "or 'claude:sonnet' / 'codex:default' for subscription-backed CLI providers). " +
-            "If not provided, all configured providers are used with their default models."
-        ),
-      rounds: z
-        .number()
-        .int()
-        .min(1)
-        .max(10)
-        .default(3)
-        .describe("Number of debate rounds (default: 3)"),
-      synthesizer: z
-        .string()
-        .optional()
-        .describe(
-          "Optional: model for final synthesis as 'provider:model'. Defaults to the first model."
-        ),
-      systemPrompt: z
-        .string()
-        .optional()
-        .describe(
-          "Optional system prompt to guide the brainstorming style or constraints"
-        ),
-      context: z
-        .string()
-        .optional()
-        .describe(
-          "Optional context to ground the debate — code snippets, PR diffs, error logs, " +
-            "architecture docs, etc. Models will see this alongside the topic."
-        ),
-      style: z
-        .enum(["freeform", "redteam", "socratic"])
-        .default("freeform")
-        .describe(
-          "Debate style. 'freeform' (default): open brainstorming. " +
-            "'redteam': adversarial — models find flaws, risks, and weaknesses. " +
-            "'socratic': probing questions that expose assumptions and push for deeper understanding."
-        ),
-      participate: z
-        .boolean()
-        .default(true)
-        .describe(
-          "Whether Claude should actively participate as a debater in each round (default: true). " +
-            "Set to false for a non-interactive debate between external models only."
-        ),
-      mode: z
-        .enum(["api", "hosted"])
-        .optional()
-        .describe(
-          "Execution mode. Must be provided — if not, the tool will return options for the user to choose.\n" +
-            "'api' — MCP server calls model APIs directly using configured API keys.\n" +
-            "'hosted' — No API keys needed. Returns prompts for the HOST to execute using " +
-            "sub-agents with models available in the environment (opus/sonnet/haiku, GPT, Gemini, etc.)."
-        ),
+      description:
+        "Run a multi-round brainstorming debate between multiple AI models. " +
+          "IMPORTANT: Before calling this tool, you MUST ask the user to choose a mode:\n\n" +
+          "1. **API mode** — Calls configured providers. These are either HTTP APIs billed per token " +
+          "(OpenAI, Gemini, DeepSeek, ...) or locally installed agent CLIs such as 'claude' and 'codex', " +
+          "which run on the user's existing subscription at no API cost. Call list_providers to see " +
+          "which of each are available.\n" +
+          "2. **Hosted mode** — No API keys needed. You execute prompts using sub-agents with models " +
+          "available in your environment (opus/sonnet/haiku, GPT, Gemini, etc.). " +
+          "Same model can be used multiple times — each run produces different perspectives.\n\n" +
+          "Present these two options to the user with a one-liner explanation, then proceed based on their choice.\n\n" +
+          "For API mode: set mode='api'. When participate=true (default), YOU also participate as a debater " +
+          "alongside external models via brainstorm_respond.\n" +
+          "For Hosted mode: set mode='hosted'. Ask the user which models to use, then spawn sub-agents " +
+          "for each model, collect responses, and call brainstorm_collect.",
+      inputSchema: {
+        topic: z
+          .string()
+          .describe("The topic, question, or prompt to brainstorm about"),
+        models: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Optional: specific models to use as 'provider:model' (e.g. 'openai:gpt-4o', " +
+              "or 'claude:sonnet' / 'codex:default' for subscription-backed CLI providers). " +
+              "If not provided, all configured providers are used with their default models."
+          ),
+        rounds: z
+          .number()
+          .int()
+          .min(1)
+          .max(10)
+          .default(3)
+          .describe("Number of debate rounds (default: 3)"),
+        synthesizer: z
+          .string()
+          .optional()
+          .describe(
+            "Optional: model for final synthesis as 'provider:model'. Defaults to the first model."
+          ),
+        systemPrompt: z
+          .string()
+          .optional()
+          .describe(
+            "Optional system prompt to guide the brainstorming style or constraints"
+          ),
+        context: z
+          .string()
+          .optional()
+          .describe(
+            "Optional context to ground the debate — code snippets, PR diffs, error logs, " +
+              "architecture docs, etc. Models will see this alongside the topic."
+          ),
+        style: z
+          .enum(["freeform", "redteam", "socratic"])
+          .default("freeform")
+          .describe(
+            "Debate style. 'freeform' (default): open brainstorming. " +
+              "'redteam': adversarial — models find flaws, risks, and weaknesses. " +
+              "'socratic': probing questions that expose assumptions and push for deeper understanding."
+          ),
+        maxCostUsd: z
+          .number()
+          .positive()
+          .optional()
+          .describe(
+            "Optional spend ceiling in USD for API calls. The debate is refused up front if round 1 " +
+              "would already exceed it, and stops early (skipping further rounds, then the synthesis) " +
+              "once the projected spend would. CLI providers and hosted mode cost nothing and are not limited."
+          ),
+        fallbacks: z
+          .record(z.string(), z.array(z.string()))
+          .optional()
+          .describe(
+            "Optional: substitutes per participant, tried in order once its retries run out, e.g. " +
+              "{ \"openai:gpt-5.4\": [\"deepseek:deepseek-chat\"] }. Overrides the config file's " +
+              "`fallbacks` for the participants listed. Substitutions are marked in the transcript."
+          ),
+        generation: z
+          .object({
+            temperature: z.number().min(0).max(2).optional(),
+            topP: z.number().min(0).max(1).optional(),
+            maxTokens: z.number().int().positive().optional(),
+            reasoningEffort: z
+              .enum(["minimal", "low", "medium", "high"])
+              .optional(),
+          })
+          .optional()
+          .describe(
+            "Optional request options for every API model in this debate, layered over the " +
+              "provider's configured ones: temperature, topP, maxTokens, reasoningEffort. " +
+              "CLI providers ignore them."
+          ),
+        consensus: z
+          .enum(["off", "track", "stop", "until"])
+          .default("off")
+          .describe(
+            "Optional: have each participant end its answer with a stated position and report " +
+              "per-round agreement. 'track': report it only. 'stop' (participate=false only): " +
+              "also end early, from round 2, once the positions agree. 'until' (participate=false " +
+              `only): the same, and keep debating past \`rounds\` (up to ${MAX_CONSENSUS_ROUNDS}) ` +
+              "until they do. 'off' (default): prompts ask for no position and no agreement is " +
+              "measured."
+          ),
+        consensusThreshold: z
+          .number()
+          .min(0)
+          .max(1)
+          .optional()
+          .describe(
+            "Optional: round agreement (0–1, mean pairwise similarity of the models' stated " +
+              `positions) that counts as consensus. Default: ${DEFAULT_CONSENSUS_THRESHOLD}.`
+          ),
+        roles: z
+          .record(z.string(), z.string())
+          .optional()
+          .describe(
+            "Optional: a role per participant, keyed by the model as given in `models`, e.g. " +
+              "{ \"openai:gpt-5.4\": \"security engineer\", \"gemini:gemini-2.5-flash\": \"a CFO " +
+              "wary of cloud bills\" }. A preset name (built in: " +
+              `${Object.keys(BUILTIN_ROLES).join(", ")}; more in the config's \`roles\`) or a ` +
+              "freeform persona. The model argues from it in every round; it is shown next to its name."
+          ),
+        participate: z
+          .boolean()
+          .default(true)
+          .describe(
+            "Whether Claude should actively participate as a debater in each round (default: true). " +
+              "Set to false for a non-interactive debate between external models only."
+          ),
+        background: z
+          .boolean()
+          .default(false)
+          .describe(
+            "Non-interactive API debates (participate=false) only: start the debate in the " +
+              "background and return a job id straight away, instead of holding this call open " +
+              "for the whole debate. Poll it with brainstorm_status (round progress, partial " +
+              "responses, and the result once done); stop it with brainstorm_cancel."
+          ),
+        mode: z
+          .enum(["api", "hosted"])
+          .optional()
+          .describe(
+            "Execution mode. Must be provided — if not, the tool will return options for the user to choose.\n" +
+              "'api' — MCP server calls model APIs directly using configured API keys.\n" +
+              "'hosted' — No API keys needed. Returns prompts for the HOST to execute using " +
+              "sub-agents with models available in the environment (opus/sonnet/haiku, GPT, Gemini, etc.)."
+          ),
+        output: outputArg,
+      },
+      outputSchema: debateOutputShape,
+      annotations: { readOnlyHint: true },
     },
-    { readOnlyHint: true },
-    async ({ topic, models, rounds, synthesizer, systemPrompt, context, style, participate, mode }) => {
+    async ({ topic, models, rounds, synthesizer, systemPrompt, context, style, maxCostUsd, fallbacks, generation, consensus, consensusThreshold, roles, participate, background, mode, output }, extra) => {
       try {
         // If mode not provided, ask the user to choose
         if (!mode) {
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text:
-                  "**Which brainstorm mode would you like to use?**\n\n" +
-                  "1. **API mode** — I'll call external model APIs directly (OpenAI, Gemini, DeepSeek). " +
-                  "Requires API keys to be configured.\n" +
-                  "2. **Hosted mode** — No API keys needed! You execute prompts using models available " +
-                  "in your environment (e.g., Claude Opus/Sonnet/Haiku, GPT, Gemini). " +
-                  "Same model can be used multiple times for diverse perspectives.\n\n" +
-                  "Please ask the user to choose **api** or **hosted**, then call this tool again with the `mode` parameter set.",
-              },
-            ],
-          };
+          return toolResult(
+            "**Which brainstorm mode would you like to use?**\n\n" +
+              "1. **API mode** — I'll call external model APIs directly (OpenAI, Gemini, DeepSeek). " +
+              "Requires API keys to be configured.\n" +
+              "2. **Hosted mode** — No API keys needed! You execute prompts using models available " +
+              "in your environment (e.g., Claude Opus/Sonnet/Haiku, GPT, Gemini). " +
+              "Same model can be used multiple times for diverse perspectives.\n\n" +
+              "Please ask the user to choose **api** or **hosted**, then call this tool again with the `mode` parameter set.",
+            { status: "needs_mode" },
+            output
+          );
         }
 
         const modelList =
           models && models.length > 0 ? models : getDefaultModels();
+        const participantRoles = resolveRoles(roles, modelList);
+        // Sessions can only track convergence; stopping on it needs participate=false.
+        const trackConvergence = consensus !== "off";
 
         // Auto-detect hosted mode: if user-provided models don't use "provider:model" format,
         // they're likely host model labels (e.g., "opus", "sonnet", "haiku", "gpt-4o")
@@ -120,6 +221,12 @@ export function registerBrainstormTool(server: McpServer): void {
             ? "hosted"
             : mode;
 
+        if (background && (effectiveMode === "hosted" || participate)) {
+          throw new Error(
+            "background runs a non-interactive API debate — set participate=false and mode='api'"
+          );
+        }
+
         // Hosted mode: return prompts for host to execute
         if (effectiveMode === "hosted") {
           if (modelList.length < 2) {
@@ -148,37 +255,50 @@ export function registerBrainstormTool(server: McpServer): void {
             hostedPhase: "round",
             context,
             style: style === "freeform" ? undefined : style,
+            roles: participantRoles,
+            ...(trackConvergence ? { trackConvergence } : {}),
+            output,
+            owner: extra.authInfo?.clientId,
           });
 
-          const round1System = getRound1System(style, systemPrompt);
+          const round1System = getRound1System(style, systemPrompt, trackConvergence);
           const effectiveTopic = buildEffectiveTopic(topic, context);
 
           const styleLabel = style !== "freeform" ? `**Style:** ${style}\n` : "";
 
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text:
-                  `# Brainstorm: ${topic}\n\n` +
-                  `**Session:** ${session.id}\n` +
-                  `**Mode:** hosted\n` +
-                  styleLabel +
-                  `**Models:** ${modelList.join(", ")}\n` +
-                  `**Synthesizer:** ${synthesizerLabel}\n` +
-                  `**Round 1 of ${rounds}**\n\n` +
-                  `## Prompt to Execute\n\n` +
-                  `**System message:**\n${round1System}\n\n` +
-                  `**User message:**\n${effectiveTopic}\n\n` +
-                  `---\n\n` +
-                  `Execute the above prompt separately with each model: **${modelList.join("**, **")}**\n` +
-                  `(e.g., use sub-agents with the specified model parameter)\n\n` +
-                  `Then call \`brainstorm_collect\` with:\n` +
-                  `- session_id: "${session.id}"\n` +
-                  `- responses: [${modelList.map((m) => `{ model: "${m}", content: "..." }`).join(", ")}]`,
+          return toolResult(
+            `# Brainstorm: ${topic}\n\n` +
+              `**Session:** ${session.id}\n` +
+              `**Mode:** hosted\n` +
+              styleLabel +
+              `**Models:** ${formatParticipants(modelList, participantRoles)}\n` +
+              `**Synthesizer:** ${synthesizerLabel}\n` +
+              `**Round 1 of ${rounds}**\n\n` +
+              `## Prompt to Execute\n\n` +
+              `**System message:**\n${round1System}\n\n` +
+              `**User message:**\n${effectiveTopic}\n\n` +
+              formatRolePrompts(participantRoles) +
+              `---\n\n` +
+              `Execute the above prompt separately with each model: **${modelList.join("**, **")}**\n` +
+              `(e.g., use sub-agents with the specified model parameter)\n\n` +
+              `Then call \`brainstorm_collect\` with:\n` +
+              `- session_id: "${session.id}"\n` +
+              `- responses: [${modelList.map((m) => `{ model: "${m}", content: "..." }`).join(", ")}]`,
+            {
+              status: "awaiting_collect",
+              sessionId: session.id,
+              round: 1,
+              totalRounds: rounds,
+              phase: "round",
+              prompt: {
+                system: round1System,
+                user: effectiveTopic,
+                models: modelList,
+                systems: systemsFor(round1System, participantRoles),
               },
-            ],
-          };
+            },
+            output
+          );
         }
 
         // Non-interactive mode: full debate without Claude
@@ -198,21 +318,80 @@ export function registerBrainstormTool(server: McpServer): void {
             };
           }
 
-          const onProgress = (msg: string) => {
-            console.error(`[brainstorm] ${msg}`);
-          };
-
-          const result = await runDebate(
-            topic,
-            modelList,
-            rounds,
+          // Every model in every round, plus synthesis. "until" may run to the cap.
+          const maxRounds =
+            consensus === "until" ? Math.max(rounds, MAX_CONSENSUS_ROUNDS) : rounds;
+          const debateOptions = {
             synthesizer,
             systemPrompt,
-            onProgress
-          );
-          return {
-            content: [{ type: "text" as const, text: formatResult(result) }],
+            style,
+            context,
+            maxCostUsd,
+            fallbacks,
+            generation,
+            consensus: consensus === "off" ? undefined : consensus,
+            consensusThreshold,
+            roles: participantRoles,
           };
+          const archive = (result: DebateResult) =>
+            archiveResult("debate", result, {
+              models: modelList,
+              style,
+              mode: "api",
+              owner: extra.authInfo?.clientId,
+            });
+
+          if (background) {
+            // Fail a bad id now rather than in a job nobody may poll.
+            for (const id of [...modelList, synthesizer ?? modelList[0]]) resolveModel(id);
+            const job = startJob(
+              {
+                topic,
+                modelIdentifiers: modelList,
+                totalRounds: maxRounds,
+                owner: extra.authInfo?.clientId,
+              },
+              async ({ signal, onProgress, onRound }) => {
+                const result = await runDebate(topic, modelList, rounds, {
+                  ...debateOptions,
+                  onProgress,
+                  onRound,
+                  signal,
+                });
+                return { result, archiveId: archive(result) };
+              }
+            );
+            return toolResult(
+              `# Brainstorm: ${topic}\n\n` +
+                `**Job:** ${job.id}\n` +
+                `**Models:** ${formatParticipants(modelList, participantRoles)}\n` +
+                `**Rounds:** ${rounds}\n\n` +
+                `The debate is running in the background. Call \`brainstorm_status\` with ` +
+                `job_id "${job.id}" to follow it and get the result, or \`brainstorm_cancel\` ` +
+                `to stop it.`,
+              { status: "running", jobId: job.id, round: 0, totalRounds: maxRounds },
+              output
+            );
+          }
+
+          const onProgress = createProgressReporter(
+            server,
+            extra,
+            "brainstorm",
+            modelList.length * maxRounds + 1
+          );
+
+          const result = await runDebate(topic, modelList, rounds, {
+            ...debateOptions,
+            onProgress,
+            signal: extra.signal,
+          });
+          const archiveId = archive(result);
+          return toolResult(
+            formatResult(result) + formatArchiveNote(archiveId),
+            { status: "complete", result, archiveId },
+            output
+          );
         }
 
         // Interactive mode: Claude participates (context injected into topic for API calls)
@@ -232,9 +411,33 @@ export function registerBrainstormTool(server: McpServer): void {
           };
         }
 
-        const onProgress = (msg: string) => {
-          console.error(`[brainstorm] ${msg}`);
-        };
+        const synthesizerLabel = synthesizer || modelList[0];
+        if (maxCostUsd !== undefined) {
+          const tooExpensive = checkBudget(
+            { maxCostUsd, spentUsd: 0 },
+            projectRoundCost(
+              effectiveTopicApi,
+              modelList,
+              1,
+              rounds,
+              [],
+              systemPrompt,
+              style,
+              trackConvergence
+            ) +
+              projectSynthesisCost(effectiveTopicApi, [], synthesizerLabel, style)
+          );
+          if (tooExpensive) {
+            throw overBudgetError(`Round 1 and synthesis: ${tooExpensive}`);
+          }
+        }
+
+        const onProgress = createProgressReporter(
+          server,
+          extra,
+          "brainstorm",
+          modelList.length
+        );
 
         // Run round 1 with external models
         const { responses, failedModels } = await runExternalRound(
@@ -243,8 +446,16 @@ export function registerBrainstormTool(server: McpServer): void {
           1,
           rounds,
           [],
-          getRound1System(style, systemPrompt),
-          onProgress
+          {
+            systemPrompt,
+            onProgress,
+            style,
+            fallbacks,
+            generation,
+            roles: participantRoles,
+            positions: trackConvergence,
+            signal: extra.signal,
+          }
         );
 
         // Create session
@@ -252,43 +463,57 @@ export function registerBrainstormTool(server: McpServer): void {
           topic,
           modelIdentifiers: modelList,
           totalRounds: rounds,
-          synthesizerIdentifier: synthesizer || modelList[0],
+          synthesizerIdentifier: synthesizerLabel,
           systemPrompt,
+          context,
+          style: style === "freeform" ? undefined : style,
+          maxCostUsd,
+          fallbacks,
+          generation,
+          roles: participantRoles,
+          ...(trackConvergence ? { trackConvergence } : {}),
+          output,
+          owner: extra.authInfo?.clientId,
         });
 
         // Store round 1 external responses
         session.rounds.push(responses);
         session.currentRound = 1;
-        for (const r of responses) session.totalCharsProcessed += r.content.length;
         for (const f of failedModels) session.failedModels.add(f);
+        saveSession(session);
 
         const roundText = formatRoundResponses(responses);
 
         const isLastRound = rounds === 1;
-        const turnInstruction = isLastRound
-          ? `**Your turn.** This is the only round. After your response, the debate will be synthesized.\n\n`
-          : `**Your turn.** Read the external models' responses above and form your own position. ` +
-            `You have ${rounds - 1} more round(s) after this to refine.\n\n`;
+        const turnInstruction =
+          (isLastRound
+            ? `**Your turn.** This is the only round. After your response, the debate will be synthesized.`
+            : `**Your turn.** Read the external models' responses above and form your own position. ` +
+              `You have ${rounds - 1} more round(s) after this to refine.`) +
+          (trackConvergence ? POSITION_INSTRUCTIONS : "") +
+          "\n\n";
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text:
-                `# Brainstorm: ${topic}\n\n` +
-                `**Session:** ${session.id}\n` +
-                `**Models:** ${modelList.join(", ")} + you (Claude)\n` +
-                `**Round 1 of ${rounds}**\n\n` +
-                `## External Model Responses\n\n${roundText}\n` +
-                `---\n\n` +
-                turnInstruction +
-                `Call \`brainstorm_respond\` with:\n` +
-                `- session_id: "${session.id}"\n` +
-                `- response: your substantive contribution to the debate\n\n` +
-                `Engage with the other models' specific points — agree, disagree, build upon, or challenge.`,
-            },
-          ],
-        };
+        return toolResult(
+          `# Brainstorm: ${topic}\n\n` +
+            `**Session:** ${session.id}\n` +
+            `**Models:** ${formatParticipants(modelList, participantRoles)} + you (Claude)\n` +
+            `**Round 1 of ${rounds}**\n\n` +
+            `## External Model Responses\n\n${roundText}\n` +
+            `---\n\n` +
+            turnInstruction +
+            `Call \`brainstorm_respond\` with:\n` +
+            `- session_id: "${session.id}"\n` +
+            `- response: your substantive contribution to the debate\n\n` +
+            `Engage with the other models' specific points — agree, disagree, build upon, or challenge.`,
+          {
+            status: "awaiting_response",
+            sessionId: session.id,
+            round: 1,
+            totalRounds: rounds,
+            responses,
+          },
+          output
+        );
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
         return {
@@ -1,75 +1,92 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { listProviders } from "../models.js";
 import { BUILTIN_CLIS, commandExists } from "../cli.js";
+import { outputArg, ProviderInfo, providersOutputShape, toolResult } from "../output.js";
+import { ProviderConfig } from "../types.js";
 
 export function registerListProvidersTool(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     "list_providers",
-    "List all configured AI providers and their default models for brainstorming. " +
-      "Includes locally installed agent CLIs (claude, codex, ...) which run on an " +
-      "existing subscription instead of metered API credits.",
-    {},
-    { readOnlyHint: true },
-    async () => {
-      const providers = listProviders();
-
-      if (!providers.length) {
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text:
-                "## Configured Providers\n\nNone. Set an API key (e.g. `OPENAI_API_KEY`), " +
-                "add a `brainstorm.config.json`, or install an agent CLI such as " +
-                "`claude` or `codex` to use a subscription instead of API credits.",
-            },
-          ],
-        };
-      }
+    {
+      description:
+        "List all configured AI providers and their default models for brainstorming. " +
+          "Includes locally installed agent CLIs (claude, codex, ...) which run on an " +
+          "existing subscription instead of metered API credits.",
+      inputSchema: { output: outputArg },
+      outputSchema: providersOutputShape,
+      annotations: { readOnlyHint: true },
+    },
+    async ({ output }) => {
+      const providers = listProviders().map(providerInfo);
+      return toolResult(formatProviderList(providers), { providers }, output);
+    }
+  );
+}
 
-      const lines = providers.map((p) => {
-        if (p.kind === "cli") {
-          const cmd = p.cli?.command || p.name;
-          const installed = commandExists(cmd);
-          const builtin = BUILTIN_CLIS[p.cli?.adapter || ""];
-          const note = builtin?.note;
-          const status = builtin
-            ? builtin.verified
-              ? " — verified"
-              : " — best-effort"
-            : "";
-          const backendURL = p.cli?.env?.ANTHROPIC_BASE_URL;
-          const tokenRef = p.cli?.env?.ANTHROPIC_AUTH_TOKEN;
-          const tokenSet =
-            !tokenRef ||
-            !tokenRef.startsWith("$") ||
-            !!process.env[tokenRef.slice(1)];
-          return (
-            `- **${p.name}** (CLI, subscription${status}) → default model: \`${p.defaultModel}\`\n` +
-            `  Command: \`${cmd}\` — ${installed ? "found on PATH" : "NOT FOUND on PATH"}` +
-            (backendURL
-              ? `\n  Backend: ${backendURL}` +
-                (tokenSet ? "" : ` — token MISSING (${tokenRef!.slice(1)})`)
-              : "") +
-            (note ? `\n  Note: ${note}` : "")
-          );
-        }
+/** A provider with its key and install status, as list_providers reports it. */
+export function providerInfo(p: ProviderConfig): ProviderInfo {
+  const base = { name: p.name, kind: p.kind, defaultModel: p.defaultModel };
+  if (p.kind === "cli") {
+    const command = p.cli?.command || p.name;
+    const builtin = BUILTIN_CLIS[p.cli?.adapter || ""];
+    const backendURL = p.cli?.env?.ANTHROPIC_BASE_URL;
+    const tokenRef = p.cli?.env?.ANTHROPIC_AUTH_TOKEN;
+    const tokenEnv = tokenRef?.startsWith("$") ? tokenRef.slice(1) : undefined;
+    return {
+      ...base,
+      ...(p.cli?.adapter ? { adapter: p.cli.adapter } : {}),
+      command,
+      installed: commandExists(command),
+      ...(builtin ? { support: builtin.verified ? "verified" : "best-effort" } : {}),
+      ...(backendURL
+        ? {
+            backendURL,
+            ...(tokenEnv ? { backendTokenEnv: tokenEnv } : {}),
+            backendTokenSet: !tokenEnv || !!process.env[tokenEnv],
+          }
+        : {}),
+      ...(builtin?.note ? { note: builtin.note } : {}),
+    };
+  }
+  return {
+    ...base,
+    baseURL: p.baseURL,
+    apiKeyEnvVar: p.apiKeyEnvVar,
+    apiKeySet: p.apiKeyEnvVar === "NONE" || !!process.env[p.apiKeyEnvVar],
+  };
+}
 
-        const keySet = p.apiKeyEnvVar === "NONE" || !!process.env[p.apiKeyEnvVar];
-        return (
-          `- **${p.name}** (API) → default model: \`${p.defaultModel}\`\n` +
-          `  API key: ${keySet ? "configured" : "MISSING (" + p.apiKeyEnvVar + ")"}`
-        );
-      });
+/** Configured providers with key and install status; also printed by the `providers` command. */
+export function formatProviderList(
+  providers: ProviderInfo[] = listProviders().map(providerInfo)
+): string {
+  if (!providers.length) {
+    return (
+      "## Configured Providers\n\nNone. Set an API key (e.g. `OPENAI_API_KEY`), " +
+      "add a `brainstorm.config.json`, or install an agent CLI such as " +
+      "`claude` or `codex` to use a subscription instead of API credits."
+    );
+  }
 
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: `## Configured Providers\n\n${lines.join("\n\n")}`,
-          },
-        ],
-      };
+  const lines = providers.map((p) => {
+    if (p.kind === "cli") {
+      const status = p.support ? ` — ${p.support}` : "";
+      return (
+        `- **${p.name}** (CLI, subscription${status}) → default model: \`${p.defaultModel}\`\n` +
+        `  Command: \`${p.command}\` — ${p.installed ? "found on PATH" : "NOT FOUND on PATH"}` +
+        (p.backendURL
+          ? `\n  Backend: ${p.backendURL}` +
+            (p.backendTokenSet ? "" : ` — token MISSING (${p.backendTokenEnv})`)
+          : "") +
+        (p.note ? `\n  Note: ${p.note}` : "")
+      );
     }
-  );
+
+    return (
+      `- **${p.name}** (${p.kind === "anthropic" ? "Anthropic API" : "API"}) → default model: \`${p.defaultModel}\`\n` +
+      `  API key: ${p.apiKeySet ? "configured" : "MISSING (" + p.apiKeyEnvVar + ")"}`
+    );
+  });
+
+  return `## Configured Providers\n\n${lines.join("\n\n")}`;
 }
@@ -1,9 +1,11 @@
 /**
  * "api" providers talk HTTP to an OpenAI-compatible endpoint (billed per token).
+ * "anthropic" providers talk HTTP to an Anthropic Messages endpoint — Anthropic
+ * itself, or a vendor's Anthropic-compatible one (billed per token).
  * "cli" providers shell out to a locally installed agent CLI (claude, codex, ...)
  * so an existing subscription is used instead of API credits.
  */
-export type ProviderKind = "api" | "cli";
+export type ProviderKind = "api" | "anthropic" | "cli";
 
 export interface CliSpec {
   /** Built-in adapter id ("claude", "codex", ...) or "custom" for template args. */
@@ -38,6 +40,16 @@ export interface ProviderConfig {
   apiKeyEnvVar: string;
   defaultModel: string;
   cli?: CliSpec;
+  /** Overrides the global retry policy for this provider's API calls. */
+  retry?: Partial<RetryPolicy>;
+  /** Stream completions; undefined follows BRAINSTORM_STREAM (on by default). */
+  stream?: boolean;
+  /** Request options for every model of this provider. */
+  generation?: GenerationOptions;
+  /** Per-model options, layered over `generation`. Keyed by bare model id. */
+  modelGeneration?: Record<string, GenerationOptions>;
+  /** Overrides the global call limits for this provider. */
+  limits?: ProviderLimits;
 }
 
 export interface ResolvedModel {
@@ -47,6 +59,96 @@ export interface ResolvedModel {
   baseURL: string;
   apiKeyEnvVar: string;
   cli?: CliSpec;
+  retry?: Partial<RetryPolicy>;
+  stream?: boolean;
+  /** Provider and per-model options merged for this model. */
+  generation?: GenerationOptions;
+  limits?: ProviderLimits;
+}
+
+/**
+ * Caps on one provider's calls, shared by every tool call in the process.
+ * Unset means unlimited.
+ */
+export interface ProviderLimits {
+  /** Calls in flight at once. */
+  concurrency?: number;
+  /** Calls started in any 60-second window. */
+  requestsPerMinute?: number;
+  /** Prompt + completion tokens in any 60-second window. */
+  tokensPerMinute?: number;
+}
+
+/**
+ * Request options for chat completions and Anthropic Messages calls. Anything
+ * unset falls back to defaults inferred from the model id.
+ */
+export interface GenerationOptions {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  /**
+   * Reasoning models reject a custom temperature and need a larger token
+   * budget. Inferred from the model id when unset (gpt-5, o-series,
+   * *-reasoner, *-thinking, ...).
+   */
+  reasoning?: boolean;
+  /**
+   * Field the token limit is sent as. OpenAI's reasoning models require
+   * max_completion_tokens; most other servers only know max_tokens.
+   */
+  tokenParam?: "max_tokens" | "max_completion_tokens";
+  /**
+   * Sent as `reasoning_effort`, e.g. "low" | "medium" | "high". Not sent to
+   * Anthropic Messages endpoints.
+   */
+  reasoningEffort?: string;
+  /** Merged into the request body verbatim, for provider-specific fields. */
+  extraBody?: Record<string, unknown>;
+  /** Extra HTTP headers for every request. */
+  headers?: Record<string, string>;
+}
+
+/** How failed API calls are retried before a participant counts as failed. */
+export interface RetryPolicy {
+  /** Total attempts including the first; 1 disables retrying. */
+  maxAttempts: number;
+  /** Delay before the second attempt; doubles on each attempt after that. */
+  baseDelayMs: number;
+  /**
+   * Ceiling for any single wait. A Retry-After longer than this gives up
+   * straight away, so a fallback model can step in instead.
+   */
+  maxDelayMs: number;
+  /** HTTP statuses worth retrying. Connection errors are always retried. */
+  retryOn: number[];
+}
+
+/** Substitute models per participant, tried in order once retries run out. */
+export type FallbackMap = Record<string, string[]>;
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /** Part of completionTokens spent on hidden reasoning, when the provider reports it. */
+  reasoningTokens?: number;
+  /** Part of promptTokens served from the provider's prompt cache. */
+  cachedTokens?: number;
+  /**
+   * Counted from characters rather than reported by the provider — CLI
+   * providers and host-written responses have no usage block.
+   */
+  estimated?: boolean;
+}
+
+/** What one model call produced. */
+export interface ModelReply {
+  content: string;
+  usage: TokenUsage;
+  /** The call timed out mid-stream; `content` is what arrived before that. */
+  truncated?: boolean;
+  /** Time spent waiting on the provider's limits before the call could start. */
+  queuedMs?: number;
 }
 
 export interface RoundResponse {
@@ -54,6 +156,202 @@ export interface RoundResponse {
   round: number;
   content: string;
   error?: string;
+  usage?: TokenUsage;
+  /** Cut off by the timeout; `content` is partial. */
+  truncated?: boolean;
+  /** Time spent queued behind the provider's limits. */
+  queuedMs?: number;
+  /**
+   * Set when `modelId` stood in for this participant after it failed; the
+   * reason is the participant's last error.
+   */
+  fallbackFor?: string;
+  fallbackReason?: string;
+  /** Review only: findings parsed from `content`. */
+  findings?: ReviewFinding[];
+  /**
+   * Review only: why some or all of `content` could not be read as findings
+   * (or, in cross-examination rounds, as assessments).
+   */
+  findingsError?: string;
+  /** Review only: the part of a chunked diff this response covers. */
+  chunk?: ReviewChunk;
+  /** Review cross-examination rounds: this reviewer's take on the merged findings. */
+  assessments?: FindingAssessment[];
+  /** Vote only: this model's scores, best first. */
+  ballot?: OptionScore[];
+  /** Vote only: why some or all of `content` could not be read as a ballot. */
+  ballotError?: string;
+  /** Name of the role this participant argued from, if it was given one. */
+  role?: string;
+}
+
+/** A persona a participant argues from: a preset, or freeform text. */
+export interface ParticipantRole {
+  /** Shown next to the participant's name. */
+  name: string;
+  /** What the participant is told about its role. */
+  persona: string;
+}
+
+/** One part of a diff too large to review in a single prompt. */
+export interface ReviewChunk {
+  /** 1-based. */
+  index: number;
+  total: number;
+  files: string[];
+}
+
+/** Which reviewers covered a file of a chunked review. */
+export interface ReviewCoverage {
+  file: string;
+  /** Models that answered for every chunk holding part of the file. */
+  models: string[];
+  /** Models that failed on at least one of those chunks. */
+  missing: string[];
+}
+
+/** Standing review instructions from the repository or the config file. */
+export interface ReviewRule {
+  /** Where it came from: ".brainstorm/review.md" or "brainstorm.config.json". */
+  source: string;
+  /** Globs of files it applies to; absent = every file. */
+  files?: string[];
+  instructions: string;
+}
+
+/** A rule that was sent to reviewers, and the files of the diff that matched it. */
+export interface AppliedReviewRule extends ReviewRule {
+  /** Matching files; absent for rules without `files`. */
+  matched?: string[];
+}
+
+export type FindingSeverity = "critical" | "high" | "medium" | "low";
+
+export type FindingCategory =
+  | "correctness"
+  | "security"
+  | "performance"
+  | "maintainability"
+  | "tests";
+
+/** One issue as a single reviewer reported it. */
+export interface ReviewFinding {
+  severity: FindingSeverity;
+  category: FindingCategory;
+  /** Path in the new tree, when the reviewer could tell. */
+  file?: string;
+  startLine?: number;
+  endLine?: number;
+  title: string;
+  explanation: string;
+  suggestion?: string;
+  /** Set when the reported location did not match the diff and was corrected or removed. */
+  locationNote?: string;
+}
+
+/** A finding after duplicates across reviewers were merged. */
+export interface MergedFinding extends ReviewFinding {
+  /** Reviewers that reported it, sorted. */
+  models: string[];
+  /** Set when reviewers cross-examined the findings. */
+  agreement?: FindingAgreement;
+}
+
+export type FindingStance = "confirm" | "dispute" | "downgrade";
+
+/** One reviewer's verdict on a merged finding in a cross-examination round. */
+export interface FindingAssessment {
+  /** "F1", "F2", … in the order the findings were listed. */
+  id: string;
+  stance: FindingStance;
+  /** For "downgrade": the severity the reviewer would give it. */
+  severity?: FindingSeverity;
+  reason?: string;
+}
+
+/**
+ * Where reviewers ended up on a finding after cross-examination. Reporters
+ * count as confirming unless they said otherwise; a later round's stance
+ * replaces an earlier one.
+ */
+export interface FindingAgreement {
+  confirmed: string[];
+  disputed: string[];
+  downgraded: string[];
+  /** Confirmations and downgrades outnumber disputes. */
+  survived: boolean;
+  /** The reported severity, when downgrades outvoted confirmations. */
+  reportedSeverity?: FindingSeverity;
+}
+
+/** One model's score for one option in a vote round. */
+export interface OptionScore {
+  /** Option id: "A", "B", … */
+  option: string;
+  /** 0–10 overall. */
+  score: number;
+  /** 0–10 per criterion, keyed by the criterion as given. */
+  criteria?: Record<string, number>;
+  reason?: string;
+}
+
+/** An option's standing in one vote round, summed over the models. */
+export interface OptionTally {
+  option: string;
+  /** Borda points: options − 1 for a model's first choice down to 0 for its last. */
+  points: number;
+  /** Mean overall score from the models that scored it. */
+  meanScore: number;
+  /** Mean per-criterion scores. */
+  criteria?: Record<string, number>;
+  /** Models that ranked it first (alone or tied). */
+  firstChoices: number;
+}
+
+/** How settled a vote's outcome was. */
+export interface VoteStability {
+  /** Kendall's tau between each round's ranking and the one before, from round 2; −1 to 1. */
+  roundAgreement: { round: number; tau: number }[];
+  /** Rounds in which the final winner was ranked first. */
+  winnerLedRounds: number[];
+  /** Models whose first choice changed between rounds. */
+  switchedModels: string[];
+  /** Mean Kendall's tau between every pair of models' final ballots; −1 to 1. */
+  modelAgreement?: number;
+}
+
+/** A candidate in a vote, as listed to the models. */
+export interface VoteOption {
+  /** "A", "B", … */
+  id: string;
+  text: string;
+}
+
+export interface VoteOutcome {
+  options: VoteOption[];
+  criteria: string[];
+  /** Per round, options best first. */
+  rounds: { round: number; tallies: OptionTally[] }[];
+  /** Option ids, best first, from the last round with ballots. */
+  ranking: string[];
+  /** Absent when no model's ballot could be read. */
+  winner?: string;
+  /** Set when the winner tied on points and won on a tie-break. */
+  tieBreak?: string;
+  stability: VoteStability;
+}
+
+export type ReviewVerdict = "approve" | "approve with warnings" | "needs changes";
+
+export interface SynthesisResult {
+  content: string;
+  /** Model that actually produced the synthesis — may be a fallback. */
+  modelId?: string;
+  usage?: TokenUsage;
+  queuedMs?: number;
+  /** Set instead of running the synthesis when it would exceed maxCostUsd. */
+  budgetNote?: string;
 }
 
 export interface DebateResult {
@@ -62,15 +360,103 @@ export interface DebateResult {
   synthesis: string;
   modelsFailed: string[];
   stats: DebateStats;
+  /** Review only: merged findings, most severe first. */
+  findings?: MergedFinding[];
+  /** Review only, for chunked diffs: who reviewed which file. */
+  coverage?: ReviewCoverage[];
+  /** Review only: repository and config rules the reviewers were given. */
+  appliedRules?: AppliedReviewRule[];
+  /** Vote only: tallies, ranking and stability. */
+  vote?: VoteOutcome;
+  verdict?: ReviewVerdict;
+}
+
+export interface ModelUsageStats extends TokenUsage {
+  calls: number;
+  costUsd?: number;
+  /** Total time this model's calls spent queued behind provider limits. */
+  queueWaitMs?: number;
+}
+
+/** How closely two participants' positions agreed in a round, 0–1. */
+export interface PairAgreement {
+  models: [string, string];
+  agreement: number;
+}
+
+/** Agreement between participants in one round, and how far each moved since the last. */
+export interface RoundConvergence {
+  round: number;
+  /** Mean of `pairs`, 0–1. */
+  agreement: number;
+  pairs: PairAgreement[];
+  /** Per participant, 0 (same position as last round) to 1 (nothing in common). */
+  shift?: Record<string, number>;
 }
 
 export interface DebateStats {
   totalDurationMs: number;
+  /** Total tokens (prompt + completion). Exact unless `usageEstimated`. */
   estimatedTokens: number;
   estimatedCost: string;
+  /** Sum of per-model spend; 0 for CLI and hosted models. */
+  costUsd?: number;
+  /** Set when maxCostUsd cut the run short. */
+  budgetNote?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  reasoningTokens?: number;
+  /** true when any part of the totals came from a chars/4 estimate. */
+  usageEstimated?: boolean;
+  /** Keyed by model id; synthesis calls count towards the model that ran them. */
+  perModel?: Record<string, ModelUsageStats>;
+  /** Index 0 is round 1. */
+  perRound?: TokenUsage[];
+  synthesisUsage?: TokenUsage;
+  /** Total time calls spent queued behind provider limits; unset when none waited. */
+  queueWaitMs?: number;
+  /** Debates only: per-round agreement between participants. */
+  convergence?: RoundConvergence[];
+  /** Set when a debate stopped because the participants converged. */
+  consensusNote?: string;
 }
 
-export type ProgressCallback = (message: string) => void;
+export type ProgressEventType =
+  | "round_start"
+  | "model_start"
+  | "model_done"
+  | "model_failed"
+  | "model_delta"
+  | "model_queued"
+  | "model_retry"
+  | "model_fallback"
+  | "synthesis_start"
+  | "synthesis_done"
+  | "cli_spawn"
+  | "cli_exit";
+
+/** Structured companion to a progress message, for transports that want more than text. */
+export interface ProgressEvent {
+  type: ProgressEventType;
+  modelId?: string;
+  round?: number;
+  totalRounds?: number;
+  /** Length of the response text, on model_done / synthesis_done / model_delta. */
+  chars?: number;
+  /** model_delta: text streamed since the previous delta event. */
+  delta?: string;
+  error?: string;
+  /** model_retry: the attempt about to start and the wait before it. */
+  attempt?: number;
+  delayMs?: number;
+  /** model_fallback: the model taking over. */
+  fallbackModelId?: string;
+}
+
+export type ProgressCallback = (message: string, event?: ProgressEvent) => void;
+
+/** How a tool renders its text content; the typed payload is always attached. */
+export type OutputMode = "markdown" | "json" | "both";
 
 export interface DebateSession {
   id: string;
@@ -84,10 +470,143 @@ export interface DebateSession {
   failedModels: Set<string>;
   startTime: number;
   createdAt: number;
-  totalCharsProcessed: number;
+  /** Last time the session was written — TTL is measured from here. */
+  updatedAt: number;
   status: "awaiting_host" | "complete";
   mode?: "hosted";
   hostedPhase?: "round" | "synthesis";
   context?: string;
   style?: "freeform" | "redteam" | "socratic";
+  maxCostUsd?: number;
+  fallbacks?: FallbackMap;
+  generation?: GenerationOptions;
+  /** Participant → role, stated in that participant's system message every round. */
+  roles?: Record<string, ParticipantRole>;
+  /**
+   * Participants are asked for a `## Position` section every round, and the
+   * result reports how their positions converged.
+   */
+  trackConvergence?: boolean;
+  /**
+   * Authenticated client that started the session over HTTP; only it can
+   * continue the session. Unset on stdio.
+   */
+  owner?: string;
+  /** Rendering picked when the session started; follow-up calls may override it. */
+  output?: OutputMode;
+}
+
+export type JobStatus = "running" | "complete" | "failed" | "cancelled";
+
+/** Where one model stands in the round a background debate is running. */
+export interface JobModelProgress {
+  modelId: string;
+  state: "thinking" | "done" | "failed";
+  /** Text streamed so far while thinking; the full response once done. */
+  partial?: string;
+  error?: string;
+}
+
+/** A non-interactive debate running in the background, polled with brainstorm_status. */
+export interface DebateJob {
+  id: string;
+  topic: string;
+  modelIdentifiers: string[];
+  totalRounds: number;
+  status: JobStatus;
+  startedAt: number;
+  finishedAt?: number;
+  /** Round in progress, or the last one run once the debate has finished. */
+  round: number;
+  phase: "round" | "synthesis";
+  /** Rounds completed so far. */
+  rounds: RoundResponse[][];
+  /** Models in the current round or synthesis, by the id that is actually answering. */
+  current: Record<string, JobModelProgress>;
+  result?: DebateResult;
+  archiveId?: string;
+  error?: string;
+  /** Authenticated client that started the job over HTTP; only it can see or cancel it. */
+  owner?: string;
+}
+
+/** USD per million tokens. */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Rate for prompt tokens served from cache; defaults to `input`. */
+  cachedInput?: number;
+}
+
+/** Spend ceiling threaded through a run; `spentUsd` grows as calls complete. */
+export interface CostBudget {
+  maxCostUsd: number;
+  spentUsd: number;
+}
+
+/** `sessions` section of brainstorm.config.json. */
+export interface SessionStoreConfig {
+  /** "memory" (default) keeps sessions in-process; "file" writes them to disk. */
+  store?: "memory" | "file";
+  /** file store only: directory holding one JSON file per session. */
+  dir?: string;
+  /** Minutes of inactivity before a session expires. */
+  ttlMinutes?: number;
+  /** Oldest-idle sessions are evicted beyond this count. */
+  maxSessions?: number;
+}
+
+/** `http` section of brainstorm.config.json. */
+export interface HttpServerConfig {
+  /** Interface to listen on. Default "127.0.0.1". */
+  host?: string;
+  /** Default 3100. */
+  port?: number;
+  /**
+   * Client name → bearer token ("$VAR" reads it from the environment). The
+   * name is who owns the debate sessions that client starts.
+   */
+  tokens?: Record<string, string>;
+  /**
+   * Directories HTTP clients may review with `brainstorm_review`'s
+   * `repoPath`. None by default.
+   */
+  repoRoots?: string[];
+}
+
+export type ArchiveKind = "debate" | "quick" | "review" | "vote";
+
+/** A completed run as written to the local transcript archive. */
+export interface ArchiveEntry {
+  /** Sortable, citeable id: "YYYYMMDD-HHMMSS-xxxxxx". */
+  id: string;
+  kind: ArchiveKind;
+  createdAt: number;
+  topic: string;
+  models: string[];
+  style?: string;
+  mode?: "api" | "interactive" | "hosted";
+  /**
+   * Authenticated client whose call produced the run over HTTP; only it can
+   * list or open the entry. Unset on stdio and the command line.
+   */
+  owner?: string;
+  result: DebateResult;
+}
+
+/** `review` section of brainstorm.config.json. */
+export interface ReviewRulesConfig {
+  /** Instructions for every review, on top of the repository's rules file. */
+  instructions?: string;
+  /** Instructions for files matching `files` only. */
+  rules?: { files: string | string[]; instructions: string }[];
+  /** Rules file relative to the repository root, or false to ignore it. Default ".brainstorm/review.md". */
+  rulesFile?: string | false;
+}
+
+/** `archive` section of brainstorm.config.json. */
+export interface ArchiveConfig {
+  /** Defaults to true; set false to keep nothing on disk. */
+  enabled?: boolean;
+  dir?: string;
 }
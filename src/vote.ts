@@ -0,0 +1,548 @@
+import { z } from "zod";
+import {
+  buildDebateStats,
+  buildEffectiveTopic,
+  checkBudget,
+  overBudgetError,
+  projectRoundCost,
+  runExternalRound,
+  runSynthesis,
+} from "./debate.js";
+import { extractJson } from "./findings.js";
+import { costOfResponses } from "./pricing.js";
+import {
+  CostBudget,
+  DebateResult,
+  FallbackMap,
+  OptionScore,
+  OptionTally,
+  ProgressCallback,
+  RoundResponse,
+  VoteOption,
+  VoteOutcome,
+  VoteStability,
+} from "./types.js";
+
+export const MAX_VOTE_OPTIONS = 10;
+export const MAX_VOTE_CRITERIA = 8;
+export const DEFAULT_VOTE_ROUNDS = 2;
+
+const VOTE_SYSTEM_PROMPT =
+  "You are one of several models choosing between options for a decision. Judge every " +
+  "option on its merits against the criteria given, regardless of how it is worded or " +
+  "where it appears in the list. Score honestly: a clearly better option should score " +
+  "clearly higher, and options you consider equivalent may share a score.";
+
+const VOTE_SYNTHESIS_PROMPT =
+  "You are summarising a multi-model vote between options. The standings are final and " +
+  "listed as JSON in the input, followed by each model's last scores; do not re-rank the " +
+  "options. Produce:\n\n" +
+  "## Decision\n" +
+  "The winning option and, in two sentences, why it won.\n\n" +
+  "## Runner-up\n" +
+  "What the runner-up offers and why it lost.\n\n" +
+  "## Dissent\n" +
+  "Models that preferred another option, and their strongest argument. Say so if there was none.\n\n" +
+  "Be concise.";
+
+export interface VoteRequest {
+  question: string;
+  /** Candidate options, in the order given; listed as A, B, … */
+  options: string[];
+  criteria?: string[];
+  context?: string;
+}
+
+export interface VoteOptions {
+  /** Rounds of voting; every round after the first shows the last round's ballots. Default 2. */
+  rounds?: number;
+  /** Defaults to the first model. */
+  synthesizer?: string;
+  onProgress?: ProgressCallback;
+  fallbacks?: FallbackMap;
+  /** Refuse the vote if round 1 alone would exceed this; stop early or skip the summary if it would. */
+  maxCostUsd?: number;
+  /** Calls off the vote; see DebateOptions.signal. */
+  signal?: AbortSignal;
+}
+
+function optionId(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+/** The JSON block every voter is asked to answer with. */
+function ballotInstructions(criteria: string[]): string {
+  const example = criteria.length
+    ? `, "criteria": {${criteria
+        .slice(0, 2)
+        .map((c, i) => `${JSON.stringify(c)}: ${8 - i * 2}`)
+        .join(", ")}}`
+    : "";
+  return (
+    "Answer with a JSON object in a ```json fenced block, shaped like:\n" +
+    `{"scores": [{"option": "A", "score": 7${example}, "reason": "One or two sentences"}]}\n\n` +
+    "- Score every option, from 0 (unacceptable) to 10 (ideal). Your ranking is the order of " +
+    "your scores, so give different scores to options you would rank differently.\n" +
+    (criteria.length
+      ? `- criteria: a 0–10 score for each of ${criteria.map((c) => JSON.stringify(c)).join(", ")}.\n`
+      : "") +
+    "You may add a short note after the block."
+  );
+}
+
+function votePrompt(request: VoteRequest, options: VoteOption[]): string {
+  const criteria = request.criteria ?? [];
+  return [
+    buildEffectiveTopic(request.question, request.context),
+    `\n## Options\n\n${options.map((o) => `${o.id}. ${o.text}`).join("\n")}`,
+    ...(criteria.length ? [`\n## Criteria\n\n${criteria.map((c) => `- ${c}`).join("\n")}`] : []),
+  ].join("\n");
+}
+
+const ballotEntrySchema = z.object({
+  option: z.union([z.string(), z.number()]).transform((v) => String(v).trim()),
+  score: z.coerce.number().min(0).max(10),
+  criteria: z.record(z.string(), z.coerce.number().min(0).max(10)).nullish(),
+  reason: z.string().nullish(),
+});
+
+/** "B", "option b", "2" or the option's own text → "B". */
+function resolveOption(raw: string, options: VoteOption[]): string | undefined {
+  const letter = raw.match(/^(?:option\s+)?([a-z])(?:[.):]|\s*$)/i);
+  if (letter) {
+    const id = letter[1].toUpperCase();
+    if (options.some((o) => o.id === id)) return id;
+  }
+  if (/^\d+$/.test(raw)) return options[Number(raw) - 1]?.id;
+  const text = raw.toLowerCase();
+  return options.find((o) => o.text.trim().toLowerCase() === text)?.id;
+}
+
+/**
+ * Read a voter's answer into a ballot, best first. Entries naming an unknown
+ * option, repeating one, or failing validation are dropped and counted in
+ * `error`; options left unscored are noted too.
+ */
+export function parseBallot(
+  text: string,
+  options: VoteOption[],
+  criteria: string[] = []
+): { ballot: OptionScore[]; error?: string } {
+  const json = extractJson(text);
+  if (!json) return { ballot: [], error: "no JSON scores block in the answer" };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (err) {
+    return {
+      ballot: [],
+      error: `scores block is not valid JSON (${err instanceof Error ? err.message : String(err)})`,
+    };
+  }
+
+  const raw = Array.isArray(parsed) ? parsed : (parsed as { scores?: unknown })?.scores;
+  if (!Array.isArray(raw)) return { ballot: [], error: 'scores block has no "scores" array' };
+
+  const ballot: OptionScore[] = [];
+  let invalid = 0;
+  for (const entry of raw) {
+    const result = ballotEntrySchema.safeParse(entry);
+    const option = result.success ? resolveOption(result.data.option, options) : undefined;
+    if (!result.success || !option || ballot.some((b) => b.option === option)) {
+      invalid++;
+      continue;
+    }
+    const scores: Record<string, number> = {};
+    for (const [key, value] of Object.entries(result.data.criteria ?? {})) {
+      const name = criteria.find((c) => c.toLowerCase() === key.trim().toLowerCase());
+      if (name) scores[name] = value;
+    }
+    const reason = result.data.reason?.trim();
+    ballot.push({
+      option,
+      score: result.data.score,
+      ...(Object.keys(scores).length ? { criteria: scores } : {}),
+      ...(reason ? { reason } : {}),
+    });
+  }
+  // Best first; equal scores keep the options' listed order.
+  const order = (id: string) => options.findIndex((o) => o.id === id);
+  ballot.sort((a, b) => b.score - a.score || order(a.option) - order(b.option));
+
+  const missing = options.length - ballot.length;
+  const problems = [
+    ...(invalid ? [`${invalid} of ${raw.length} score(s) were unreadable and were dropped`] : []),
+    ...(ballot.length && missing ? [`${missing} option(s) were not scored`] : []),
+  ];
+  return { ballot, ...(problems.length ? { error: problems.join("; ") } : {}) };
+}
+
+/**
+ * Borda points for one ballot: options − 1 for the first choice down to 0
+ * for the last. Options sharing a score share the points of the places they
+ * span, and unscored options share the last places.
+ */
+function bordaPoints(ballot: OptionScore[], optionIds: string[]): Map<string, number> {
+  const groups: string[][] = [];
+  for (const entry of ballot) {
+    const last = groups.at(-1);
+    const prev = ballot.find((b) => b.option === last?.[0]);
+    if (last && prev?.score === entry.score) last.push(entry.option);
+    else groups.push([entry.option]);
+  }
+  const unscored = optionIds.filter((id) => !ballot.some((b) => b.option === id));
+  if (unscored.length) groups.push(unscored);
+
+  const points = new Map<string, number>();
+  let place = 0;
+  for (const group of groups) {
+    const share = optionIds.length - 1 - place - (group.length - 1) / 2;
+    for (const id of group) points.set(id, share);
+    place += group.length;
+  }
+  return points;
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** One round's standings, best first: Borda points, then mean score, then listed order. */
+export function tallyRound(
+  responses: RoundResponse[],
+  optionIds: string[],
+  criteria: string[] = []
+): OptionTally[] {
+  const ballots = responses.filter((r) => !r.error && r.ballot?.length).map((r) => r.ballot!);
+  const points = ballots.map((b) => bordaPoints(b, optionIds));
+  const tallies = optionIds.map((option): OptionTally => {
+    const scored = ballots.flatMap((b) => b.filter((s) => s.option === option));
+    const perCriterion: Record<string, number> = {};
+    for (const c of criteria) {
+      const values = scored.flatMap((s) =>
+        s.criteria?.[c] !== undefined ? [s.criteria[c]] : []
+      );
+      if (values.length) perCriterion[c] = round2(mean(values));
+    }
+    return {
+      option,
+      points: points.reduce((sum, p) => sum + (p.get(option) ?? 0), 0),
+      meanScore: round2(mean(scored.map((s) => s.score))),
+      ...(Object.keys(perCriterion).length ? { criteria: perCriterion } : {}),
+      firstChoices: ballots.filter(
+        (b) => b.find((s) => s.option === option)?.score === b[0].score
+      ).length,
+    };
+  });
+  return tallies.sort(
+    (a, b) =>
+      b.points - a.points ||
+      b.meanScore - a.meanScore ||
+      optionIds.indexOf(a.option) - optionIds.indexOf(b.option)
+  );
+}
+
+/**
+ * Kendall's tau-a between two orderings of the same options, given as a
+ * value per option where higher is better. Ties count as neither
+ * concordant nor discordant.
+ */
+function kendallTau(a: Map<string, number>, b: Map<string, number>, ids: string[]): number {
+  let concordant = 0;
+  let discordant = 0;
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      const sign =
+        Math.sign((a.get(ids[i]) ?? -1) - (a.get(ids[j]) ?? -1)) *
+        Math.sign((b.get(ids[i]) ?? -1) - (b.get(ids[j]) ?? -1));
+      if (sign > 0) concordant++;
+      else if (sign < 0) discordant++;
+    }
+  }
+  const pairs = (ids.length * (ids.length - 1)) / 2;
+  return pairs ? round2((concordant - discordant) / pairs) : 1;
+}
+
+function rankValues(tallies: OptionTally[]): Map<string, number> {
+  return new Map(tallies.map((t, i) => [t.option, -i]));
+}
+
+function scoreValues(ballot: OptionScore[]): Map<string, number> {
+  return new Map(ballot.map((s) => [s.option, s.score]));
+}
+
+/** A ballot's first choices, as a key that compares equal across rounds. */
+function topChoice(ballot: OptionScore[]): string {
+  return ballot
+    .filter((s) => s.score === ballot[0].score)
+    .map((s) => s.option)
+    .sort()
+    .join("+");
+}
+
+/**
+ * Standings per round, the final ranking and how stable it was. The last
+ * round with any readable ballot decides; a tie on points there goes to the
+ * option with more points over all rounds, then the higher mean score.
+ */
+export function tallyVote(
+  rounds: RoundResponse[][],
+  options: VoteOption[],
+  criteria: string[] = []
+): VoteOutcome {
+  const ids = options.map((o) => o.id);
+  const tallied = rounds
+    .map((responses, i) => ({
+      round: responses[0]?.round ?? i + 1,
+      responses,
+      tallies: tallyRound(responses, ids, criteria),
+    }))
+    .filter((r) => r.responses.some((resp) => !resp.error && resp.ballot?.length));
+
+  const cumulative = new Map<string, number>();
+  for (const { tallies } of tallied) {
+    for (const t of tallies) cumulative.set(t.option, (cumulative.get(t.option) ?? 0) + t.points);
+  }
+
+  const final = tallied.at(-1);
+  const ranking = final
+    ? [...final.tallies].sort(
+        (a, b) =>
+          b.points - a.points ||
+          (cumulative.get(b.option) ?? 0) - (cumulative.get(a.option) ?? 0) ||
+          b.meanScore - a.meanScore ||
+          ids.indexOf(a.option) - ids.indexOf(b.option)
+      )
+    : [];
+  const winner = ranking[0]?.option;
+
+  let tieBreak: string | undefined;
+  if (ranking.length > 1 && ranking[0].points === ranking[1].points) {
+    const [w, r] = ranking;
+    const by =
+      cumulative.get(w.option) !== cumulative.get(r.option)
+        ? "more points over all rounds"
+        : w.meanScore !== r.meanScore
+          ? "a higher mean score"
+          : "coming first in the list";
+    tieBreak = `${w.option} tied with ${r.option} on ${w.points} points and won on ${by}`;
+  }
+
+  const stability: VoteStability = {
+    roundAgreement: tallied.slice(1).map((r, i) => ({
+      round: r.round,
+      tau: kendallTau(rankValues(tallied[i].tallies), rankValues(r.tallies), ids),
+    })),
+    winnerLedRounds: winner
+      ? tallied.filter((r) => r.tallies[0].option === winner).map((r) => r.round)
+      : [],
+    switchedModels: [],
+  };
+
+  const tops = new Map<string, Set<string>>();
+  for (const { responses } of tallied) {
+    for (const resp of responses) {
+      if (resp.error || !resp.ballot?.length) continue;
+      const label = resp.fallbackFor ?? resp.modelId;
+      if (!tops.has(label)) tops.set(label, new Set());
+      tops.get(label)!.add(topChoice(resp.ballot));
+    }
+  }
+  stability.switchedModels = [...tops].filter(([, t]) => t.size > 1).map(([m]) => m);
+
+  const finalBallots = (final?.responses ?? []).filter((r) => !r.error && r.ballot?.length);
+  if (finalBallots.length > 1) {
+    const taus: number[] = [];
+    for (let i = 0; i < finalBallots.length; i++) {
+      for (let j = i + 1; j < finalBallots.length; j++) {
+        taus.push(
+          kendallTau(scoreValues(finalBallots[i].ballot!), scoreValues(finalBallots[j].ballot!), ids)
+        );
+      }
+    }
+    stability.modelAgreement = round2(mean(taus));
+  }
+
+  return {
+    options,
+    criteria,
+    rounds: tallied.map(({ round, tallies }) => ({ round, tallies })),
+    ranking: ranking.map((t) => t.option),
+    ...(winner ? { winner } : {}),
+    ...(tieBreak ? { tieBreak } : {}),
+    stability,
+  };
+}
+
+function ballotLines(resp: RoundResponse): string[] {
+  if (resp.error) return [`Failed: ${resp.error}`];
+  const lines = (resp.ballot ?? []).map((s) => {
+    const criteria = Object.entries(s.criteria ?? {})
+      .map(([c, v]) => `${c} ${v}`)
+      .join(", ");
+    return (
+      `- ${s.option}: ${s.score}` +
+      (criteria ? ` (${criteria})` : "") +
+      (s.reason ? ` — ${s.reason}` : "")
+    );
+  });
+  if (resp.ballotError) lines.unshift(`Unreadable ballot: ${resp.ballotError}`);
+  return lines;
+}
+
+function standingsLines(tallies: OptionTally[]): string[] {
+  return tallies.map(
+    (t, i) =>
+      `${i + 1}. ${t.option} — ${t.points} point(s), mean score ${t.meanScore}, ` +
+      `first choice of ${t.firstChoices}`
+  );
+}
+
+/** What the voters see of the round before: every ballot with its reasons, and the standings. */
+function previousRoundSection(previous: RoundResponse[], tallies: OptionTally[]): string {
+  const ballots = previous.map(
+    (resp) => `### ${resp.fallbackFor ?? resp.modelId}\n\n${ballotLines(resp).join("\n")}`
+  );
+  return (
+    `\n## Last Round\n\n${ballots.join("\n\n")}\n\n` +
+    `### Standings (Borda count)\n\n${standingsLines(tallies).join("\n")}`
+  );
+}
+
+/**
+ * Multi-model vote between options: every model scores every option
+ * against the criteria, scores become rankings, and rankings are combined
+ * by Borda count. Each round after the first shows every model the last
+ * round's ballots and reasons to revise against. The first model (or
+ * `synthesizer`) then writes up the decision. `result.topic` holds the
+ * question and `result.vote` the standings.
+ */
+export async function runVote(
+  request: VoteRequest,
+  modelList: string[],
+  options: VoteOptions = {}
+): Promise<DebateResult> {
+  const { fallbacks, maxCostUsd } = options;
+  const onProgress = options.onProgress || (() => {});
+  const startTime = Date.now();
+  const totalRounds = Math.max(1, options.rounds ?? DEFAULT_VOTE_ROUNDS);
+  const criteria = request.criteria ?? [];
+  const voteOptions = request.options.map((text, i) => ({ id: optionId(i), text }));
+  const ids = voteOptions.map((o) => o.id);
+  const instructions = ballotInstructions(criteria);
+  const prompt = votePrompt(request, voteOptions);
+
+  const budget: CostBudget | undefined =
+    maxCostUsd !== undefined ? { maxCostUsd, spentUsd: 0 } : undefined;
+  const tooExpensive = checkBudget(
+    budget,
+    projectRoundCost(prompt, modelList, 1, 1, [], `${VOTE_SYSTEM_PROMPT}\n\n${instructions}`)
+  );
+  if (tooExpensive) throw overBudgetError(tooExpensive);
+
+  onProgress(
+    `Starting vote on ${voteOptions.length} options with ${modelList.length} model(s), ` +
+      `${totalRounds} round(s)...`
+  );
+
+  const rounds: RoundResponse[][] = [];
+  const failedSet = new Set<string>();
+  let roundsNote: string | undefined;
+  for (let r = 1; r <= totalRounds; r++) {
+    const previous = rounds.at(-1);
+    const messages = {
+      system:
+        (r === 1
+          ? VOTE_SYSTEM_PROMPT
+          : `${VOTE_SYSTEM_PROMPT} This is round ${r} of ${totalRounds}: you can see every ` +
+            "model's scores and reasons from the round before. Revise your scores where " +
+            "another model's argument convinces you and keep them where it does not — do not " +
+            "move toward the majority just because it is the majority.") +
+        `\n\n${instructions}`,
+      user: previous
+        ? prompt + previousRoundSection(previous, tallyRound(previous, ids, criteria))
+        : prompt,
+    };
+    if (r > 1) {
+      const overBudget = checkBudget(
+        budget,
+        projectRoundCost(messages.user, modelList, 1, 1, [], messages.system)
+      );
+      if (overBudget) {
+        roundsNote = `Stopped after round ${r - 1} of ${totalRounds}: ${overBudget}.`;
+        onProgress(roundsNote);
+        break;
+      }
+    }
+
+    const round = await runExternalRound(messages.user, modelList, r, totalRounds, [], {
+      onProgress,
+      fallbacks,
+      messages,
+      signal: options.signal,
+    });
+    for (const resp of round.responses) {
+      if (resp.error) continue;
+      const { ballot, error } = parseBallot(resp.content, voteOptions, criteria);
+      resp.ballot = ballot;
+      if (error) {
+        resp.ballotError = error;
+        onProgress(`${resp.modelId}: ${error}`);
+      }
+    }
+    rounds.push(round.responses);
+    for (const f of round.failedModels) failedSet.add(f);
+    if (budget) budget.spentUsd += costOfResponses([round.responses]);
+  }
+
+  const vote = tallyVote(rounds, voteOptions, criteria);
+  onProgress(
+    vote.winner
+      ? `Tallied: ${vote.winner} leads. Summarizing...`
+      : "No ballot could be read. Summarizing..."
+  );
+
+  const finalStandings = vote.rounds.at(-1)?.tallies ?? [];
+  const synthesis = await runSynthesis(
+    [
+      prompt,
+      `\n## Final Standings\n\n\`\`\`json\n${JSON.stringify(
+        { ranking: vote.ranking, tieBreak: vote.tieBreak, standings: finalStandings },
+        null,
+        2
+      )}\n\`\`\``,
+    ].join("\n"),
+    [
+      (rounds.at(-1) ?? []).map((resp) => ({
+        modelId: resp.fallbackFor ?? resp.modelId,
+        round: resp.round,
+        content: ballotLines(resp).join("\n") || "No scores.",
+      })),
+    ],
+    options.synthesizer || modelList[0],
+    modelList,
+    {
+      onProgress,
+      customSynthesisPrompt: VOTE_SYNTHESIS_PROMPT,
+      budget,
+      signal: options.signal,
+    }
+  );
+
+  const result: DebateResult = {
+    topic: request.question,
+    rounds,
+    synthesis: synthesis.content,
+    modelsFailed: Array.from(failedSet),
+    stats: buildDebateStats(rounds, synthesis, modelList, Date.now() - startTime),
+    vote,
+  };
+  const budgetNote = [roundsNote, synthesis.budgetNote].filter(Boolean).join(" ");
+  if (budgetNote) result.stats.budgetNote = budgetNote;
+  return result;
+}
@@ -0,0 +1,254 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from "node:http";
+import { AddressInfo } from "node:net";
+import { AnthropicAPIError, createMessage } from "../src/anthropic.js";
+import { withRetry } from "../src/retry.js";
+import { ResolvedModel, RetryPolicy } from "../src/types.js";
+
+interface Received {
+  headers: IncomingMessage["headers"];
+  body: Record<string, any>;
+}
+
+type Handler = (req: Received, res: ServerResponse) => void;
+
+let server: Server;
+let model: ResolvedModel;
+let handler: Handler;
+let received: Received[] = [];
+
+function json(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+) {
+  res.writeHead(status, { "content-type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sse(res: ServerResponse, events: Record<string, unknown>[]) {
+  res.writeHead(200, { "content-type": "text/event-stream" });
+  for (const event of events) {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  }
+  res.end();
+}
+
+const call = (stream: boolean, onText?: (text: string) => void) =>
+  createMessage(
+    model,
+    { model: model.modelId, max_tokens: 256, messages: [{ role: "user", content: "Hi" }] },
+    { signal: new AbortController().signal, stream, onText }
+  );
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const entry = { headers: req.headers, body: JSON.parse(body) };
+      received.push(entry);
+      handler(entry, res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  process.env.FAKE_ANTHROPIC_KEY = "sk-test";
+  model = {
+    provider: "fake",
+    modelId: "claude-test",
+    kind: "anthropic",
+    baseURL: `http://127.0.0.1:${(server.address() as AddressInfo).port}/`,
+    apiKeyEnvVar: "FAKE_ANTHROPIC_KEY",
+  };
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  received = [];
+});
+
+describe("createMessage", () => {
+  it("posts to /v1/messages and reads a plain JSON reply", async () => {
+    handler = (_req, res) =>
+      json(res, 200, {
+        content: [
+          { type: "thinking", thinking: "hmm" },
+          { type: "text", text: "Hello" },
+          { type: "text", text: " there" },
+        ],
+        stop_reason: "end_turn",
+        usage: {
+          input_tokens: 10,
+          output_tokens: 4,
+          cache_read_input_tokens: 6,
+          cache_creation_input_tokens: 2,
+        },
+      });
+
+    const reply = await call(false);
+    assert.deepEqual(reply, {
+      content: "Hello there",
+      stopReason: "end_turn",
+      usage: { promptTokens: 18, completionTokens: 4, cachedTokens: 6 },
+    });
+
+    const [req] = received;
+    assert.equal(req.headers["x-api-key"], "sk-test");
+    assert.equal(req.headers["anthropic-version"], "2023-06-01");
+    assert.equal(req.body.stream, undefined);
+    assert.equal(req.body.model, "claude-test");
+  });
+
+  it("streams text deltas and takes usage from message_start and message_delta", async () => {
+    handler = (_req, res) =>
+      sse(res, [
+        {
+          type: "message_start",
+          message: { usage: { input_tokens: 25, output_tokens: 1, cache_read_input_tokens: 5 } },
+        },
+        { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+        { type: "ping" },
+        { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Shard " } },
+        {
+          type: "content_block_delta",
+          index: 0,
+          delta: { type: "thinking_delta", thinking: "x" },
+        },
+        { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "later." } },
+        { type: "content_block_stop", index: 0 },
+        {
+          type: "message_delta",
+          delta: { stop_reason: "max_tokens" },
+          usage: { output_tokens: 42 },
+        },
+        { type: "message_stop" },
+      ]);
+
+    const chunks: string[] = [];
+    const reply = await call(true, (text) => chunks.push(text));
+    assert.deepEqual(chunks, ["Shard ", "later."]);
+    assert.deepEqual(reply, {
+      content: "Shard later.",
+      stopReason: "max_tokens",
+      usage: { promptTokens: 30, completionTokens: 42, cachedTokens: 5 },
+    });
+    assert.equal(received[0].body.stream, true);
+  });
+
+  it("falls back to JSON when a server ignores stream", async () => {
+    handler = (_req, res) =>
+      json(res, 200, { content: [{ type: "text", text: "ok" }], stop_reason: "end_turn" });
+    const reply = await call(true);
+    assert.equal(reply.content, "ok");
+    assert.equal(reply.usage, undefined);
+  });
+
+  it("throws an error event inside a stream with its closest HTTP status", async () => {
+    handler = (_req, res) =>
+      sse(res, [
+        { type: "message_start", message: { usage: { input_tokens: 1 } } },
+        { type: "error", error: { type: "overloaded_error", message: "Overloaded" } },
+      ]);
+    await assert.rejects(call(true), (err: unknown) => {
+      assert.ok(err instanceof AnthropicAPIError);
+      assert.equal(err.status, 529);
+      assert.equal(err.message, "Overloaded");
+      return true;
+    });
+  });
+
+  it("turns non-2xx replies into AnthropicAPIError with the server's message", async () => {
+    handler = (_req, res) =>
+      json(res, 400, {
+        type: "error",
+        error: { type: "invalid_request_error", message: "max_tokens: required" },
+      });
+    await assert.rejects(call(false), (err: unknown) => {
+      assert.ok(err instanceof AnthropicAPIError);
+      assert.equal(err.status, 400);
+      assert.equal(err.message, "400 max_tokens: required");
+      return true;
+    });
+
+    handler = (_req, res) => {
+      res.writeHead(502, { "content-type": "text/plain" });
+      res.end("Bad gateway");
+    };
+    await assert.rejects(call(true), {
+      name: "AnthropicAPIError",
+      status: 502,
+      message: "502 Bad gateway",
+    });
+  });
+
+  it("reports an unreachable server as a connection error without a status", async () => {
+    const down = { ...model, baseURL: "http://127.0.0.1:1" };
+    await assert.rejects(
+      createMessage(down, {}, { signal: new AbortController().signal, stream: false }),
+      (err: unknown) => {
+        assert.ok(err instanceof AnthropicAPIError);
+        assert.equal(err.status, undefined);
+        assert.match(err.message, /^Connection error: /);
+        return true;
+      }
+    );
+  });
+});
+
+describe("retrying Anthropic errors", () => {
+  const policy: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 1,
+    maxDelayMs: 2_000,
+    retryOn: [429, 529],
+  };
+
+  it("waits out a 429 for as long as retry-after says, then succeeds", async () => {
+    let calls = 0;
+    handler = (_req, res) => {
+      if (++calls === 1) {
+        json(res, 429, { error: { type: "rate_limit_error", message: "Slow down" } }, {
+          "retry-after": "1",
+        });
+      } else {
+        json(res, 200, { content: [{ type: "text", text: "done" }] });
+      }
+    };
+
+    const retries: { attempt: number; delayMs: number; reason: string; status?: number }[] = [];
+    const reply = await withRetry(policy, () => call(false), (info) => retries.push(info));
+    assert.equal(reply.content, "done");
+    assert.deepEqual(retries, [
+      { attempt: 2, delayMs: 1000, reason: "rate limited (429)", status: 429 },
+    ]);
+  });
+
+  it("gives up at once when retry-after is longer than the policy allows", async () => {
+    handler = (_req, res) =>
+      json(res, 429, { error: { type: "rate_limit_error", message: "Slow down" } }, {
+        "retry-after": "60",
+      });
+    await assert.rejects(withRetry(policy, () => call(false)), { status: 429 });
+    assert.equal(received.length, 1);
+  });
+
+  it("does not retry a status outside the policy", async () => {
+    handler = (_req, res) =>
+      json(res, 401, { error: { type: "authentication_error", message: "bad key" } });
+    await assert.rejects(withRetry(policy, () => call(false)), {
+      status: 401,
+      message: "401 bad key",
+    });
+    assert.equal(received.length, 1);
+  });
+});
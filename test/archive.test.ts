@@ -0,0 +1,53 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { archiveResult, getArchiveEntry, listArchive } from "../src/archive.js";
+import { DebateResult } from "../src/types.js";
+
+function result(topic: string): DebateResult {
+  return {
+    topic,
+    rounds: [[{ model: "fake:a", content: `On ${topic}: yes.` }]],
+    synthesis: "Yes.",
+    modelsFailed: [],
+    stats: {},
+  } as unknown as DebateResult;
+}
+
+describe("archive ownership", () => {
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), "brainstorm-archive-"));
+    process.env.BRAINSTORM_ARCHIVE = "on";
+    process.env.BRAINSTORM_ARCHIVE_DIR = dir;
+  });
+
+  after(() => {
+    delete process.env.BRAINSTORM_ARCHIVE_DIR;
+    process.env.BRAINSTORM_ARCHIVE = "off";
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("shows each client only the runs it produced", () => {
+    const alice = archiveResult("debate", result("alice's topic"), {
+      models: ["fake:a"],
+      owner: "alice",
+    });
+    const bob = archiveResult("review", result("bob's diff"), { models: ["fake:a"], owner: "bob" });
+    const local = archiveResult("quick", result("local topic"), { models: ["fake:a"] });
+    assert.ok(alice && bob && local);
+
+    assert.deepEqual(listArchive({}, "alice").map((e) => e.id), [alice]);
+    assert.deepEqual(listArchive({}, "bob").map((e) => e.id), [bob]);
+    assert.deepEqual(listArchive().map((e) => e.id), [local]);
+
+    assert.equal(getArchiveEntry(alice, "alice")?.topic, "alice's topic");
+    assert.equal(getArchiveEntry(alice, "bob"), undefined);
+    assert.equal(getArchiveEntry(alice), undefined);
+    assert.equal(getArchiveEntry(local, "alice"), undefined);
+    assert.equal(getArchiveEntry(local)?.owner, undefined);
+  });
+});
@@ -0,0 +1,310 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  anchorFinding,
+  annotateDiff,
+  chunkDiff,
+  DiffFile,
+  parseDiff,
+} from "../src/diff.js";
+import { ReviewFinding } from "../src/types.js";
+
+const GIT_DIFF = [
+  "commit 1234567",
+  "Author: someone",
+  "",
+  "diff --git a/src/list.ts b/src/list.ts",
+  "index 1111111..2222222 100644",
+  "--- a/src/list.ts",
+  "+++ b/src/list.ts",
+  "@@ -10,4 +10,5 @@ export function page(items: Item[]) {",
+  "   const out = [];",
+  "-  for (let i = 0; i < n - 1; i++) {",
+  "+  for (let i = 0; i < n; i++) {",
+  "+    if (!items[i]) continue;",
+  "     out.push(items[i]);",
+  "   }",
+  "@@ -40 +41 @@",
+  "-export default page",
+  "+export default page;",
+  "\\ No newline at end of file",
+  "diff --git a/old/name.ts b/new/name.ts",
+  "similarity index 90%",
+  "rename from old/name.ts",
+  "rename to new/name.ts",
+  "--- a/old/name.ts",
+  "+++ b/new/name.ts",
+  "@@ -1,2 +1,2 @@",
+  "-import { a } from './a';",
+  "+import { a } from '../a';",
+  " a();",
+  "diff --git a/docs/moved.md b/docs/moved-too.md",
+  "similarity index 100%",
+  "rename from docs/moved.md",
+  "rename to docs/moved-too.md",
+  "diff --git a/src/new.ts b/src/new.ts",
+  "new file mode 100644",
+  "--- /dev/null",
+  "+++ b/src/new.ts",
+  "@@ -0,0 +1,2 @@",
+  "+export const x = 1;",
+  "+export const y = 2;",
+  "diff --git a/src/gone.ts b/src/gone.ts",
+  "deleted file mode 100644",
+  "--- a/src/gone.ts",
+  "+++ /dev/null",
+  "@@ -1 +0,0 @@",
+  "-export const z = 3;",
+  "diff --git a/logo.png b/logo.png",
+  "Binary files a/logo.png and b/logo.png differ",
+  "",
+].join("\n");
+
+describe("parseDiff", () => {
+  const files = parseDiff(GIT_DIFF);
+
+  it("finds every file with its status, skipping commit headers", () => {
+    assert.deepEqual(
+      files.map((f) => [f.path, f.status, f.oldPath, f.binary ?? false]),
+      [
+        ["src/list.ts", "modified", undefined, false],
+        ["new/name.ts", "renamed", "old/name.ts", false],
+        ["docs/moved-too.md", "renamed", "docs/moved.md", false],
+        ["src/new.ts", "added", undefined, false],
+        ["src/gone.ts", "deleted", undefined, false],
+        ["logo.png", "modified", undefined, true],
+      ]
+    );
+  });
+
+  it("numbers old and new lines through each hunk", () => {
+    const [first, second] = files[0].hunks;
+    assert.equal(first.section, "export function page(items: Item[]) {");
+    assert.deepEqual(
+      first.lines.map((l) => [l.kind, l.oldLine, l.newLine]),
+      [
+        ["context", 10, 10],
+        ["del", 11, undefined],
+        ["add", undefined, 11],
+        ["add", undefined, 12],
+        ["context", 12, 13],
+        ["context", 13, 14],
+      ]
+    );
+    assert.deepEqual(
+      { oldStart: second.oldStart, oldLines: second.oldLines, newLines: second.newLines },
+      { oldStart: 40, oldLines: 1, newLines: 1 }
+    );
+  });
+
+  it("skips the no-newline marker without ending the file", () => {
+    const [, second] = files[0].hunks;
+    assert.deepEqual(
+      second.lines.map((l) => [l.kind, l.text]),
+      [
+        ["del", "export default page"],
+        ["add", "export default page;"],
+      ]
+    );
+    assert.equal(files[1].hunks.length, 1);
+  });
+
+  it("keeps pure renames and additions and deletions with their hunks", () => {
+    assert.equal(files[2].hunks.length, 0);
+    assert.deepEqual(files[3].hunks[0].lines.map((l) => l.newLine), [1, 2]);
+    assert.equal(files[4].hunks[0].newLines, 0);
+    assert.deepEqual(files[4].hunks[0].lines.map((l) => l.oldLine), [1]);
+  });
+
+  it("reads plain diff -u output, CRLF line endings and quoted paths", () => {
+    const plain = parseDiff(
+      [
+        "--- src/app.ts\t2024-01-01 10:00:00",
+        "+++ src/app.ts\t2024-01-02 10:00:00",
+        "@@ -3,2 +3,2 @@",
+        " keep",
+        "-old",
+        "+new",
+        "--- /dev/null",
+        "+++ src/added.ts",
+        "@@ -0,0 +1 @@",
+        "+hello",
+      ].join("\r\n")
+    );
+    assert.deepEqual(
+      plain.map((f) => [f.path, f.status, f.hunks[0].lines.length]),
+      [
+        ["src/app.ts", "modified", 3],
+        ["src/added.ts", "added", 1],
+      ]
+    );
+
+    const quoted = parseDiff(
+      'diff --git "a/odd name.ts" "b/odd name.ts"\n--- "a/odd name.ts"\n+++ "b/odd name.ts"\n' +
+        "@@ -1 +1 @@\n-a\n+b\n"
+    );
+    assert.equal(quoted[0].path, "odd name.ts");
+  });
+
+  it("treats a blank line inside a hunk as empty context", () => {
+    const [file] = parseDiff("--- a/x.ts\n+++ b/x.ts\n@@ -1,3 +1,3 @@\n a\n\n-b\n+c\n");
+    assert.deepEqual(
+      file.hunks[0].lines.map((l) => [l.kind, l.text, l.newLine]),
+      [
+        ["context", "a", 1],
+        ["context", "", 2],
+        ["del", "b", undefined],
+        ["add", "c", 3],
+      ]
+    );
+  });
+
+  it("stops a hunk that is shorter than its header claims", () => {
+    const files = parseDiff(
+      "diff --git a/x.ts b/x.ts\n--- a/x.ts\n+++ b/x.ts\n@@ -1,5 +1,5 @@\n-a\n+b\n" +
+        "diff --git a/y.ts b/y.ts\n--- a/y.ts\n+++ b/y.ts\n@@ -1 +1 @@\n-c\n+d\n"
+    );
+    assert.deepEqual(
+      files.map((f) => [f.path, f.hunks[0].lines.length]),
+      [
+        ["x.ts", 2],
+        ["y.ts", 2],
+      ]
+    );
+  });
+});
+
+describe("annotateDiff", () => {
+  it("puts new-file line numbers in a gutter and notes renames", () => {
+    const text = annotateDiff(parseDiff(GIT_DIFF).slice(0, 2));
+    assert.match(text, /^=== src\/list\.ts\n@@ -10,4 \+10,5 @@ export function page/);
+    assert.match(text, /\n11 \+  for \(let i = 0; i < n; i\+\+\) \{\n/);
+    assert.match(text, /\n   -  for \(let i = 0; i < n - 1; i\+\+\) \{\n/);
+    assert.match(text, /\n=== new\/name\.ts \(renamed from old\/name\.ts\)\n/);
+  });
+});
+
+describe("anchorFinding", () => {
+  const files = parseDiff(GIT_DIFF);
+  const finding = (overrides: Partial<ReviewFinding>): ReviewFinding => ({
+    severity: "medium",
+    category: "correctness",
+    title: "Issue",
+    explanation: "Why",
+    ...overrides,
+  });
+
+  it("keeps a location inside a hunk as it is", () => {
+    const f = finding({ file: "src/list.ts", startLine: 11, endLine: 12 });
+    assert.deepEqual(anchorFinding(f, files), { finding: f, valid: true });
+  });
+
+  it("clamps a range that runs past its hunk", () => {
+    const { finding: anchored, valid } = anchorFinding(
+      finding({ file: "src/list.ts", startLine: 8, endLine: 20 }),
+      files
+    );
+    assert.equal(valid, true);
+    assert.equal(anchored.startLine, 10);
+    assert.equal(anchored.endLine, 14);
+    assert.equal(
+      anchored.locationNote,
+      "src/list.ts:8–20 clamped to the hunk at src/list.ts:10–14"
+    );
+  });
+
+  it("drops lines outside every hunk, and pure deletions have none", () => {
+    const { finding: anchored, valid } = anchorFinding(
+      finding({ file: "src/list.ts", startLine: 30 }),
+      files
+    );
+    assert.equal(valid, false);
+    assert.equal(anchored.file, "src/list.ts");
+    assert.equal(anchored.startLine, undefined);
+    assert.equal(anchored.locationNote, "src/list.ts:30 is outside the changed hunks");
+
+    const deleted = anchorFinding(finding({ file: "src/gone.ts", startLine: 1 }), files);
+    assert.equal(deleted.valid, false);
+  });
+
+  it("resolves renamed, prefixed and suffixed paths to the diff's path", () => {
+    const resolved = (file: string) =>
+      anchorFinding(finding({ file, startLine: 1 }), files).finding.file;
+    assert.equal(resolved("old/name.ts"), "new/name.ts");
+    assert.equal(resolved("repo/src/new.ts"), "src/new.ts");
+    assert.equal(resolved("name.ts"), "new/name.ts");
+  });
+
+  it("removes a file that is not in the diff", () => {
+    const { finding: anchored, valid } = anchorFinding(
+      finding({ file: "src/other.ts", startLine: 3 }),
+      files
+    );
+    assert.equal(valid, false);
+    assert.equal(anchored.file, undefined);
+    assert.equal(anchored.startLine, undefined);
+    assert.equal(anchored.locationNote, "src/other.ts is not part of the diff");
+  });
+
+  it("leaves findings without a file alone", () => {
+    const f = finding({});
+    assert.deepEqual(anchorFinding(f, files), { finding: f, valid: true });
+  });
+});
+
+describe("chunkDiff", () => {
+  /** A file with `hunks` hunks of `size` added lines each, 100 lines apart. */
+  const file = (path: string, hunks: number, size = 5): DiffFile => {
+    const text = [`diff --git a/${path} b/${path}`, `--- a/${path}`, `+++ b/${path}`];
+    for (let h = 0; h < hunks; h++) {
+      text.push(`@@ -${h * 100 + 1},0 +${h * 100 + 1},${size} @@`);
+      for (let l = 0; l < size; l++) text.push(`+${path} hunk ${h} line ${l}`);
+    }
+    return parseDiff(text.join("\n"))[0];
+  };
+  const shape = (chunks: DiffFile[][]) =>
+    chunks.map((chunk) =>
+      chunk.map((f) => `${f.path}#${f.hunks.map((h) => h.newStart).join(",")}`)
+    );
+  const sizeOf = (f: DiffFile) => annotateDiff([f]).length;
+
+  it("keeps everything in one chunk when it fits", () => {
+    const files = [file("a.ts", 2), file("b.ts", 1)];
+    assert.deepEqual(chunkDiff(files, 100_000), [files]);
+  });
+
+  it("packs whole files in diff order, starting a chunk when the next would overflow", () => {
+    const files = [file("a.ts", 1), file("b.ts", 1), file("c.ts", 1)];
+    const limit = sizeOf(files[0]) + sizeOf(files[1]) + 1;
+    assert.deepEqual(shape(chunkDiff(files, limit)), [["a.ts#1", "b.ts#1"], ["c.ts#1"]]);
+  });
+
+  it("splits a file too big for one chunk between hunks, never inside one", () => {
+    const big = file("big.ts", 4);
+    // The last two hunks have the longest headers.
+    const twoHunks = sizeOf({ ...big, hunks: big.hunks.slice(2) });
+    const chunks = chunkDiff([file("a.ts", 1), big], twoHunks);
+    assert.deepEqual(shape(chunks), [["a.ts#1"], ["big.ts#1,101"], ["big.ts#201,301"]]);
+
+    const parts = chunks.flat().filter((f) => f.path === "big.ts");
+    assert.deepEqual(parts.flatMap((f) => f.hunks), big.hunks);
+    for (const part of parts) assert.ok(sizeOf(part) <= twoHunks);
+  });
+
+  it("sends a hunk bigger than the limit whole, on its own", () => {
+    const files = [file("a.ts", 1), file("huge.ts", 1, 200), file("b.ts", 1)];
+    const limit = sizeOf(files[0]) + 10;
+    const chunks = chunkDiff(files, limit);
+    assert.deepEqual(shape(chunks), [["a.ts#1"], ["huge.ts#1"], ["b.ts#1"]]);
+    assert.equal(chunks[1][0].hunks[0].lines.length, 200);
+  });
+
+  it("keeps hunk-less files such as pure renames", () => {
+    const rename = parseDiff(
+      "diff --git a/old.ts b/new.ts\nsimilarity index 100%\nrename from old.ts\nrename to new.ts\n"
+    );
+    assert.deepEqual(shape(chunkDiff([...rename, file("a.ts", 1)], 100_000)), [
+      ["new.ts#", "a.ts#1"],
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  exportReview,
+  toGithubAnnotations,
+  toGithubReviewComments,
+  toSarif,
+} from "../src/export.js";
+import { CATEGORIES } from "../src/findings.js";
+import { DebateResult, MergedFinding } from "../src/types.js";
+
+function finding(overrides: Partial<MergedFinding> = {}): MergedFinding {
+  return {
+    severity: "medium",
+    category: "correctness",
+    file: "src/a.ts",
+    startLine: 10,
+    endLine: 12,
+    title: "Off-by-one in loop",
+    explanation: "The loop skips the last item.",
+    models: ["a", "b"],
+    ...overrides,
+  };
+}
+
+function review(findings: MergedFinding[]): DebateResult {
+  return {
+    topic: "Fix pagination",
+    rounds: [
+      [
+        { modelId: "a", round: 1, content: "" },
+        { modelId: "b", round: 1, content: "" },
+      ],
+    ],
+    synthesis: "## Verdict\n**needs changes**",
+    modelsFailed: [],
+    stats: {} as DebateResult["stats"],
+    findings,
+    verdict: "needs changes",
+  };
+}
+
+const sarifResults = (result: DebateResult) =>
+  ((toSarif(result).runs as Record<string, any>[])[0].results as Record<string, any>[]);
+
+describe("toSarif", () => {
+  it("maps severities to SARIF levels and categories to rules", () => {
+    const results = sarifResults(
+      review([
+        finding({ severity: "critical", category: "security", title: "C" }),
+        finding({ severity: "high", title: "H" }),
+        finding({ severity: "medium", category: "performance", title: "M" }),
+        finding({ severity: "low", category: "tests", title: "L" }),
+      ])
+    );
+    assert.deepEqual(
+      results.map((r) => [r.level, r.ruleId, r.ruleIndex]),
+      [
+        ["error", "security", CATEGORIES.indexOf("security")],
+        ["error", "correctness", CATEGORIES.indexOf("correctness")],
+        ["warning", "performance", CATEGORIES.indexOf("performance")],
+        ["note", "tests", CATEGORIES.indexOf("tests")],
+      ]
+    );
+  });
+
+  it("describes the run, every rule and each finding's location", () => {
+    const log = toSarif(review([finding({ suggestion: "Use <=", locationNote: "clamped" })]));
+    assert.equal(log.version, "2.1.0");
+    const [run] = log.runs as Record<string, any>[];
+    assert.deepEqual(
+      run.tool.driver.rules.map((r: { id: string }) => r.id),
+      [...CATEGORIES]
+    );
+    assert.deepEqual(run.properties, {
+      title: "Fix pagination",
+      verdict: "needs changes",
+      reviewers: ["a", "b"],
+    });
+
+    const [result] = run.results;
+    assert.deepEqual(result.locations, [
+      {
+        physicalLocation: {
+          artifactLocation: { uri: "src/a.ts" },
+          region: { startLine: 10, endLine: 12 },
+        },
+      },
+    ]);
+    assert.equal(
+      result.message.text,
+      "Off-by-one in loop\n\nThe loop skips the last item.\n\nSuggestion: Use <=\n\n" +
+        "Reported by: a, b"
+    );
+    assert.deepEqual(result.properties, {
+      severity: "medium",
+      models: ["a", "b"],
+      locationNote: "clamped",
+    });
+  });
+
+  it("omits regions and locations the finding does not have", () => {
+    const [noLines, noFile] = sarifResults(
+      review([
+        finding({ startLine: undefined, endLine: undefined }),
+        finding({ file: undefined, startLine: undefined, endLine: undefined, title: "General" }),
+      ])
+    );
+    assert.deepEqual(noLines.locations, [
+      { physicalLocation: { artifactLocation: { uri: "src/a.ts" } } },
+    ]);
+    assert.equal(noFile.locations, undefined);
+  });
+
+  it("fingerprints by category, file and title only", () => {
+    const [a, b, c] = sarifResults(
+      review([
+        finding(),
+        finding({ startLine: 40, endLine: 41, title: "OFF-BY-ONE IN LOOP", severity: "low" }),
+        finding({ file: "src/b.ts" }),
+      ])
+    );
+    const print = (r: Record<string, any>) => r.partialFingerprints["brainstormFinding/v1"];
+    assert.equal(print(a), print(b));
+    assert.notEqual(print(a), print(c));
+  });
+
+  it("leaves out findings that lost cross-examination", () => {
+    const results = sarifResults(
+      review([
+        finding({
+          title: "Kept",
+          agreement: { confirmed: ["a"], disputed: [], downgraded: ["b"], survived: true },
+        }),
+        finding({
+          title: "Dropped",
+          agreement: { confirmed: [], disputed: ["a", "b"], downgraded: [], survived: false },
+        }),
+      ])
+    );
+    assert.equal(results.length, 1);
+    assert.match(results[0].message.text, /^Kept/);
+    assert.equal(results[0].properties.agreement.survived, true);
+  });
+});
+
+describe("GitHub exports", () => {
+  const result = review([
+    finding({ severity: "high" }),
+    finding({ file: "src/b.ts", startLine: 5, endLine: 5, severity: "low", title: "Nit" }),
+    finding({ file: "README.md", startLine: undefined, endLine: undefined, title: "Docs" }),
+    finding({ file: undefined, startLine: undefined, endLine: undefined, title: "General" }),
+  ]);
+
+  it("annotates every finding with a file, pinning ones without lines to line 1", () => {
+    assert.deepEqual(
+      toGithubAnnotations(result).map((a) => [
+        a.path,
+        a.start_line,
+        a.end_line,
+        a.annotation_level,
+      ]),
+      [
+        ["src/a.ts", 10, 12, "failure"],
+        ["src/b.ts", 5, 5, "notice"],
+        ["README.md", 1, 1, "warning"],
+      ]
+    );
+  });
+
+  it("comments only on findings with lines, as multi-line comments where they span", () => {
+    const comments = toGithubReviewComments(result);
+    assert.deepEqual(
+      comments.map(({ body, ...where }) => where),
+      [
+        { path: "src/a.ts", line: 12, start_line: 10, start_side: "RIGHT", side: "RIGHT" },
+        { path: "src/b.ts", line: 5, side: "RIGHT" },
+      ]
+    );
+    assert.match(comments[0].body, /^\*\*\[high\] Off-by-one in loop\*\*\n\n/);
+  });
+
+  it("returns only the formats asked for", () => {
+    assert.deepEqual(Object.keys(exportReview(result, ["github"])), ["githubAnnotations"]);
+    assert.deepEqual(Object.keys(exportReview(result, ["sarif", "github-review"])), [
+      "sarif",
+      "githubReviewComments",
+    ]);
+  });
+});
@@ -0,0 +1,236 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  extractJson,
+  mergeFindings,
+  parseFindings,
+  parseVerdict,
+  verdictFor,
+} from "../src/findings.js";
+import { MergedFinding, ReviewFinding, RoundResponse } from "../src/types.js";
+
+function finding(overrides: Partial<ReviewFinding> = {}): ReviewFinding {
+  return {
+    severity: "medium",
+    category: "correctness",
+    file: "src/a.ts",
+    startLine: 10,
+    endLine: 12,
+    title: "Off-by-one in loop",
+    explanation: "The loop skips the last item.",
+    ...overrides,
+  };
+}
+
+function reviewer(modelId: string, findings: ReviewFinding[], error?: string): RoundResponse {
+  return { modelId, round: 1, content: "", findings, ...(error ? { error } : {}) };
+}
+
+describe("parseFindings", () => {
+  it("reads the last fenced JSON block and normalizes what models get wrong", () => {
+    const answer =
+      "Here is a draft:\n```json\n{\"findings\": []}\n```\n" +
+      "Final answer:\n```json\n" +
+      JSON.stringify({
+        findings: [
+          {
+            severity: " HIGH ",
+            category: "Security",
+            file: "b/src/auth.ts",
+            startLine: "45",
+            endLine: 42,
+            title: "  Token compared with ==  ",
+            explanation: null,
+            suggestion: "",
+          },
+          { severity: "low", category: "tests", file: "", startLine: null, title: "No test" },
+        ],
+      }) +
+      "\n```\nThanks!";
+
+    assert.deepEqual(parseFindings(answer), {
+      findings: [
+        {
+          severity: "high",
+          category: "security",
+          file: "src/auth.ts",
+          startLine: 45,
+          endLine: 45,
+          title: "Token compared with ==",
+          explanation: "",
+        },
+        { severity: "low", category: "tests", title: "No test", explanation: "" },
+      ],
+    });
+  });
+
+  it("turns a one-sided range into a single line", () => {
+    const { findings } = parseFindings(
+      JSON.stringify({ findings: [finding({ startLine: undefined, endLine: 7 })] })
+    );
+    assert.equal(findings[0].startLine, 7);
+    assert.equal(findings[0].endLine, 7);
+  });
+
+  it("accepts a fenced bare array and unfenced JSON in prose", () => {
+    assert.equal(
+      parseFindings("```json\n[" + JSON.stringify(finding()) + "]\n```").findings.length,
+      1
+    );
+    assert.equal(
+      parseFindings(`I found one: {"findings": [${JSON.stringify(finding())}]} — that's all.`)
+        .findings.length,
+      1
+    );
+  });
+
+  it("drops entries that fail the schema and counts them", () => {
+    const result = parseFindings(
+      JSON.stringify({
+        findings: [
+          finding(),
+          finding({ severity: "blocker" as ReviewFinding["severity"] }),
+          { ...finding(), title: " " },
+          "not an object",
+        ],
+      })
+    );
+    assert.equal(result.findings.length, 1);
+    assert.equal(result.error, "3 of 4 finding(s) did not match the schema and were dropped");
+  });
+
+  it("reports malformed answers without throwing", () => {
+    assert.deepEqual(parseFindings("Looks good to me."), {
+      findings: [],
+      error: "no JSON findings block in the answer",
+    });
+    const broken = parseFindings('```json\n{"findings": [{"severity": "high",}]}\n```');
+    assert.equal(broken.findings.length, 0);
+    assert.match(broken.error!, /^findings block is not valid JSON/);
+    assert.deepEqual(parseFindings('```json\n{"issues": []}\n```'), {
+      findings: [],
+      error: 'findings block has no "findings" array',
+    });
+  });
+
+  it("ignores fenced blocks that are not JSON", () => {
+    assert.equal(
+      extractJson('```json\n{"findings": []}\n```\n```ts\nconst x = 1;\n```'),
+      '{"findings": []}'
+    );
+  });
+});
+
+describe("mergeFindings", () => {
+  it("merges overlapping reports into the most severe wording and the widest span", () => {
+    const merged = mergeFindings([
+      reviewer("openai:gpt", [finding({ startLine: 11, endLine: 14, suggestion: "Use <=" })]),
+      reviewer("anthropic:claude", [
+        finding({ severity: "high", title: "Last item skipped", startLine: 9, endLine: 11 }),
+      ]),
+    ]);
+    assert.deepEqual(merged, [
+      {
+        severity: "high",
+        category: "correctness",
+        file: "src/a.ts",
+        startLine: 9,
+        endLine: 14,
+        title: "Last item skipped",
+        explanation: "The loop skips the last item.",
+        suggestion: "Use <=",
+        models: ["anthropic:claude", "openai:gpt"],
+      },
+    ]);
+  });
+
+  it("matches by normalized title when lines are missing, and keeps categories apart", () => {
+    const merged = mergeFindings([
+      reviewer("a", [finding({ startLine: undefined, endLine: undefined })]),
+      reviewer("b", [
+        finding({ title: "off by one in loop!", startLine: 40, endLine: 40 }),
+        finding({ category: "performance" }),
+      ]),
+    ]);
+    assert.equal(merged.length, 2);
+    assert.deepEqual(merged[0].models, ["a", "b"]);
+    assert.equal(merged[0].startLine, 40);
+    assert.deepEqual(merged[1].models, ["b"]);
+    assert.equal(merged[1].category, "performance");
+  });
+
+  it("skips failed reviewers and sorts by severity, agreement, then location", () => {
+    const merged = mergeFindings([
+      reviewer("c", [
+        finding({ file: "src/z.ts", title: "Z" }),
+        finding({ severity: "low", title: "L" }),
+      ]),
+      reviewer("a", [
+        finding({ file: "src/b.ts", title: "B" }),
+        finding({ severity: "low", title: "L" }),
+      ]),
+      reviewer("b", [finding({ severity: "critical", title: "Ignored" })], "timeout"),
+    ]);
+    assert.deepEqual(
+      merged.map((f) => [f.severity, f.file, f.title, f.models.length]),
+      [
+        ["medium", "src/b.ts", "B", 1],
+        ["medium", "src/z.ts", "Z", 1],
+        ["low", "src/a.ts", "L", 2],
+      ]
+    );
+  });
+
+  it("merges the same answers the same way whatever order reviewers finished in", () => {
+    const a = reviewer("a", [finding({ severity: "high", title: "A wording" })]);
+    const b = reviewer("b", [finding({ severity: "high", title: "B wording" })]);
+    assert.deepEqual(mergeFindings([a, b]), mergeFindings([b, a]));
+    assert.equal(mergeFindings([b, a])[0].title, "A wording");
+  });
+});
+
+describe("parseVerdict", () => {
+  it("reads the verdict under the ## Verdict heading", () => {
+    const synthesis =
+      "## Verdict\n**needs changes**\nThe token check is bypassable.\n\n" +
+      "## Summary\nOne reviewer said **approve**, but the others disagreed.";
+    assert.equal(parseVerdict(synthesis), "needs changes");
+  });
+
+  it("reads a Verdict: label, bolded or not", () => {
+    assert.equal(
+      parseVerdict("**Verdict:** Approve with warnings — minor nits."),
+      "approve with warnings"
+    );
+    assert.equal(parseVerdict("Verdict: approve"), "approve");
+    assert.equal(parseVerdict("### Verdict\n\nApprove\n"), "approve");
+  });
+
+  it("ignores verdict words outside the verdict section", () => {
+    assert.equal(
+      parseVerdict("## Summary\nclaude said **approve**; gpt said **needs changes**."),
+      undefined
+    );
+    assert.equal(parseVerdict("## Verdict\n\n## Summary\n**approve**"), undefined);
+    assert.equal(parseVerdict("## Verdict\nI would not **approve** this."), undefined);
+  });
+});
+
+describe("verdictFor", () => {
+  const merged = (overrides: Partial<MergedFinding>): MergedFinding => ({
+    ...finding(),
+    models: ["a"],
+    ...overrides,
+  });
+
+  it("follows the most severe surviving finding", () => {
+    assert.equal(verdictFor([]), "approve");
+    assert.equal(verdictFor([merged({ severity: "low" })]), "approve with warnings");
+    assert.equal(verdictFor([merged({ severity: "high" })]), "needs changes");
+    const disputed = merged({
+      severity: "critical",
+      agreement: { confirmed: [], disputed: ["a", "b"], downgraded: [], survived: false },
+    });
+    assert.equal(verdictFor([disputed]), "approve");
+  });
+});
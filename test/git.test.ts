@@ -0,0 +1,46 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, unlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { gitDiff, WORKING_TREE } from "../src/git.js";
+
+describe("gitDiff with includeFileContents", () => {
+  let dir: string;
+  let repo: string;
+
+  const git = (...args: string[]) =>
+    execFileSync("git", ["-c", "user.name=t", "-c", "user.email=t@t", ...args], { cwd: repo });
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), "brainstorm-git-"));
+    repo = join(dir, "repo");
+    mkdirSync(repo);
+    writeFileSync(join(dir, "secret.txt"), "host secret\n");
+    writeFileSync(join(repo, "a.txt"), "one\n");
+    writeFileSync(join(repo, "b.txt"), "two\n");
+    symlinkSync("a.txt", join(repo, "inside"));
+    symlinkSync("b.txt", join(repo, "escape"));
+    git("init", "-q");
+    git("add", ".");
+    git("commit", "-q", "-m", "init");
+
+    writeFileSync(join(repo, "a.txt"), "one\nmore\n");
+    unlinkSync(join(repo, "inside"));
+    symlinkSync("b.txt", join(repo, "inside"));
+    unlinkSync(join(repo, "escape"));
+    symlinkSync(join(dir, "secret.txt"), join(repo, "escape"));
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("attaches working-tree files but not symlinks that leave the repository", async () => {
+    const change = await gitDiff({ repoPath: repo, head: WORKING_TREE, includeFileContents: true });
+    assert.deepEqual(change.fileContents, { "a.txt": "one\nmore\n", inside: "two\n" });
+    assert.deepEqual(change.skippedFiles, ["escape (links outside the repository)"]);
+    assert.ok(!JSON.stringify(change).includes("host secret"));
+  });
+});
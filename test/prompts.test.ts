@@ -0,0 +1,264 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer as createHttpServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+// models.js first, as in src/index.ts: cli.js and models.js import each other.
+import { addProvider } from "../src/models.js";
+import { createServer } from "../src/server.js";
+import {
+  buildEffectiveTopic,
+  getRound1System,
+  getRoundNSystem,
+  getSynthesisSystem,
+} from "../src/debate.js";
+import { POSITION_INSTRUCTIONS } from "../src/consensus.js";
+
+// Style and context must reach the models the same way whichever path runs
+// the debate: API (participate=false), interactive (the host takes part) or
+// hosted (the host runs every prompt).
+
+process.env.BRAINSTORM_ARCHIVE = "off";
+process.env.BRAINSTORM_STREAM = "off";
+
+const TOPIC = "Should we shard the orders database?";
+const CONTEXT = "Orders table: 2 TB, 40k writes/s at peak, one Postgres primary.";
+const MODELS = ["fake:a", "fake:b"];
+const ROUNDS = 2;
+
+interface Prompt {
+  system: string;
+  user: string;
+}
+
+/** What each step of a two-round debate sent: round 1, round 2, synthesis. */
+interface DebatePrompts {
+  round1: Prompt[];
+  round2: Prompt[];
+  synthesis: Prompt[];
+}
+
+let calls: Prompt[] = [];
+let fake: Server;
+let client: Client;
+
+/** An OpenAI-compatible endpoint that records each prompt and answers with a position. */
+function startFakeProvider(): Promise<number> {
+  fake = createHttpServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const { model, messages } = JSON.parse(body) as {
+        model: string;
+        messages: { role: string; content: string }[];
+      };
+      calls.push({
+        system: messages.find((m) => m.role === "system" || m.role === "developer")?.content ?? "",
+        user: messages.find((m) => m.role === "user")?.content ?? "",
+      });
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(
+        JSON.stringify({
+          id: "x",
+          object: "chat.completion",
+          created: 0,
+          model,
+          choices: [
+            {
+              index: 0,
+              message: { role: "assistant", content: `${model} says: shard by customer id.` },
+              finish_reason: "stop",
+            },
+          ],
+          usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+        })
+      );
+    });
+  });
+  return new Promise((resolve) =>
+    fake.listen(0, "127.0.0.1", () => resolve((fake.address() as AddressInfo).port))
+  );
+}
+
+async function callTool(name: string, args: Record<string, unknown>) {
+  const res = await client.callTool({ name, arguments: args });
+  assert.ok(!res.isError, JSON.stringify(res.content));
+  return res.structuredContent as Record<string, any>;
+}
+
+/** Take the calls recorded since the last step. */
+function drain(): Prompt[] {
+  const taken = calls;
+  calls = [];
+  return taken;
+}
+
+async function viaApi(style: string): Promise<DebatePrompts> {
+  drain();
+  await callTool("brainstorm", {
+    topic: TOPIC,
+    context: CONTEXT,
+    style,
+    models: MODELS,
+    rounds: ROUNDS,
+    mode: "api",
+    participate: false,
+  });
+  // Rounds run one after another, every participant once each.
+  const sent = drain();
+  return {
+    round1: sent.slice(0, MODELS.length),
+    round2: sent.slice(MODELS.length, 2 * MODELS.length),
+    synthesis: sent.slice(2 * MODELS.length),
+  };
+}
+
+async function viaInteractive(style: string): Promise<DebatePrompts> {
+  drain();
+  const started = await callTool("brainstorm", {
+    topic: TOPIC,
+    context: CONTEXT,
+    style,
+    models: MODELS,
+    rounds: ROUNDS,
+    mode: "api",
+    participate: true,
+  });
+  const round1 = drain();
+  const response = "The host thinks sharding is premature: add read replicas and partition first.";
+  await callTool("brainstorm_respond", { session_id: started.sessionId, response });
+  const round2 = drain();
+  const done = await callTool("brainstorm_respond", { session_id: started.sessionId, response });
+  assert.equal(done.status, "complete");
+  return { round1, round2, synthesis: drain() };
+}
+
+async function viaHosted(style: string): Promise<DebatePrompts> {
+  const hostModels = ["opus", "sonnet"];
+  const answer = (models: string[]) =>
+    models.map((model) => ({ model, content: `${model} says: shard by customer id.` }));
+
+  const started = await callTool("brainstorm", {
+    topic: TOPIC,
+    context: CONTEXT,
+    style,
+    models: hostModels,
+    rounds: ROUNDS,
+    mode: "hosted",
+  });
+  const round2 = await callTool("brainstorm_collect", {
+    session_id: started.sessionId,
+    responses: answer(hostModels),
+  });
+  const synthesis = await callTool("brainstorm_collect", {
+    session_id: started.sessionId,
+    responses: answer(hostModels),
+  });
+  assert.equal(synthesis.phase, "synthesis");
+  const done = await callTool("brainstorm_collect", {
+    session_id: started.sessionId,
+    responses: answer(["opus"]),
+  });
+  assert.equal(done.status, "complete");
+
+  const prompt = (out: Record<string, any>): Prompt[] => [
+    { system: out.prompt.system, user: out.prompt.user },
+  ];
+  return { round1: prompt(started), round2: prompt(round2), synthesis: prompt(synthesis) };
+}
+
+function assertPrompts(style: string, prompts: DebatePrompts): void {
+  const effectiveTopic = buildEffectiveTopic(TOPIC, CONTEXT);
+  assert.ok(prompts.round1.length > 0 && prompts.round2.length > 0);
+  assert.equal(prompts.synthesis.length, 1);
+
+  for (const p of prompts.round1) {
+    assert.equal(p.system, getRound1System(style));
+    assert.equal(p.user, effectiveTopic);
+  }
+  for (const p of prompts.round2) {
+    assert.equal(p.system, getRoundNSystem(2, ROUNDS, style));
+    assert.ok(p.user.startsWith(`Original topic: ${effectiveTopic}\n\n`), p.user);
+    assert.ok(p.user.includes("Now provide your refined response for round 2."));
+  }
+  const [synthesis] = prompts.synthesis;
+  assert.equal(synthesis.system, getSynthesisSystem(style));
+  assert.ok(synthesis.user.startsWith(`Original topic: ${effectiveTopic}\n\n`), synthesis.user);
+
+  // Consensus is off, so no one is asked to state a position.
+  for (const p of [...prompts.round1, ...prompts.round2]) {
+    assert.ok(!p.system.includes(POSITION_INSTRUCTIONS.trim()));
+  }
+}
+
+before(async () => {
+  const port = await startFakeProvider();
+  addProvider({
+    name: "fake",
+    kind: "api",
+    baseURL: `http://127.0.0.1:${port}/v1`,
+    apiKeyEnvVar: "NONE",
+    defaultModel: "a",
+  });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer().connect(serverTransport);
+  client = new Client({ name: "prompts-test", version: "1.0.0" });
+  await client.connect(clientTransport);
+});
+
+after(async () => {
+  await client.close();
+  await new Promise((resolve) => fake.close(resolve));
+});
+
+describe("style prompts", () => {
+  it("differ between styles", () => {
+    assert.match(getRound1System("redteam"), /red-team/);
+    assert.match(getRound1System("socratic"), /Socratic/);
+    assert.match(getRoundNSystem(2, 3, "redteam"), /adversarial analysis/);
+    assert.match(getRoundNSystem(2, 3, "socratic"), /Socratic dialogue/);
+    assert.notEqual(getSynthesisSystem("redteam"), getSynthesisSystem("socratic"));
+  });
+
+  it("ask for a position only when convergence is tracked, after a custom prompt too", () => {
+    assert.equal(getRound1System("redteam", "Be terse."), "Be terse.");
+    assert.equal(getRound1System("redteam", "Be terse.", true), "Be terse." + POSITION_INSTRUCTIONS);
+    assert.ok(getRoundNSystem(2, 3, "socratic", true).endsWith(POSITION_INSTRUCTIONS));
+  });
+});
+
+for (const style of ["redteam", "socratic"]) {
+  describe(`${style} debates`, () => {
+    let api: DebatePrompts;
+    let interactive: DebatePrompts;
+    let hosted: DebatePrompts;
+
+    before(async () => {
+      api = await viaApi(style);
+      interactive = await viaInteractive(style);
+      hosted = await viaHosted(style);
+    });
+
+    it("send the style's prompts and the context on the API path", () => {
+      assertPrompts(style, api);
+    });
+
+    it("send the style's prompts and the context on the interactive path", () => {
+      assertPrompts(style, interactive);
+    });
+
+    it("hand the host the style's prompts and the context on the hosted path", () => {
+      assertPrompts(style, hosted);
+    });
+
+    it("use the same system messages whichever path runs the debate", () => {
+      for (const step of ["round1", "round2", "synthesis"] as const) {
+        const systems = [api, interactive, hosted].map((p) => p[step][0].system);
+        assert.deepEqual(new Set(systems).size, 1, `${step} system messages differ`);
+      }
+      assert.deepEqual(api.round1[0], hosted.round1[0]);
+      assert.deepEqual(api.round1[0], interactive.round1[0]);
+    });
+  });
+}
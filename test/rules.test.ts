@@ -0,0 +1,101 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { matchesGlob, parseRulesFile, rulesFor } from "../src/rules.js";
+
+describe("matchesGlob", () => {
+  it("keeps * and ? within one directory", () => {
+    assert.ok(matchesGlob("src/a.ts", "src/*.ts"));
+    assert.ok(!matchesGlob("src/api/a.ts", "src/*.ts"));
+    assert.ok(matchesGlob("src/a1.ts", "src/a?.ts"));
+    assert.ok(!matchesGlob("src/a12.ts", "src/a?.ts"));
+    assert.ok(!matchesGlob("src/a/.ts", "src/a?.ts"));
+  });
+
+  it("lets ** span directories, including none", () => {
+    assert.ok(matchesGlob("src/api/v1/users.ts", "src/**/*.ts"));
+    assert.ok(matchesGlob("src/users.ts", "src/**/*.ts"));
+    assert.ok(matchesGlob("src/api/v1/users.ts", "src/**"));
+    assert.ok(!matchesGlob("lib/users.ts", "src/**/*.ts"));
+  });
+
+  it("matches a slashless pattern by file name at any depth", () => {
+    assert.ok(matchesGlob("db/migrations/001.sql", "*.sql"));
+    assert.ok(matchesGlob("001.sql", "*.sql"));
+    assert.ok(!matchesGlob("db/001.sql.bak", "*.sql"));
+  });
+
+  it("matches everything below a named directory", () => {
+    assert.ok(matchesGlob("src/api/users.ts", "src/api"));
+    assert.ok(matchesGlob("src/api/users.ts", "./src/api/"));
+    assert.ok(!matchesGlob("src/apis/users.ts", "src/api"));
+  });
+
+  it("treats brace alternatives as globs", () => {
+    assert.ok(matchesGlob("src/a.ts", "src/{*.ts,*.md}"));
+    assert.ok(matchesGlob("src/README.md", "src/{*.ts,*.md}"));
+    assert.ok(!matchesGlob("src/a.js", "src/{*.ts,*.md}"));
+    assert.ok(!matchesGlob("src/x/a.ts", "src/{*.ts,*.md}"));
+
+    assert.ok(matchesGlob("src/abc", "src/{a*,b}"));
+    assert.ok(matchesGlob("src/b", "src/{a*,b}"));
+    assert.ok(!matchesGlob("src/aaa.b", "src/{a,b}"));
+    assert.ok(matchesGlob("web/App.tsx", "*.{ts,tsx}"));
+    assert.ok(matchesGlob("src/x1.ts", "src/{x?,y}.ts"));
+  });
+
+  it("matches regex metacharacters literally", () => {
+    assert.ok(matchesGlob("src/a+b.ts", "src/a+b.ts"));
+    assert.ok(!matchesGlob("src/aab.ts", "src/a+b.ts"));
+    assert.ok(!matchesGlob("srcXa.ts", "src.a.ts"));
+    assert.ok(matchesGlob("src/(x).ts", "src/{(x),y}.ts"));
+  });
+});
+
+describe("parseRulesFile", () => {
+  it("scopes sections under ## Files: headings and applies the rest everywhere", () => {
+    const rules = parseRulesFile(
+      [
+        "Prefer small functions.",
+        "",
+        "## Files: `src/api/**`, *.{ts,tsx}",
+        "Validate every request body.",
+        "",
+        "## Style",
+        "No default exports.",
+        "## files: db/{*.sql,migrations/**}",
+        "Migrations must be reversible.",
+      ].join("\n"),
+      ".brainstorm/review.md"
+    );
+    assert.deepEqual(rules, [
+      { source: ".brainstorm/review.md", instructions: "Prefer small functions." },
+      {
+        source: ".brainstorm/review.md",
+        files: ["src/api/**", "*.{ts,tsx}"],
+        instructions: "Validate every request body.",
+      },
+      { source: ".brainstorm/review.md", instructions: "## Style\nNo default exports." },
+      {
+        source: ".brainstorm/review.md",
+        files: ["db/{*.sql,migrations/**}"],
+        instructions: "Migrations must be reversible.",
+      },
+    ]);
+  });
+
+  it("drops empty sections and treats an empty glob list as unscoped", () => {
+    const rules = parseRulesFile("## Files: src/**\n\n## Files:\nCheck everything.\r\n", "r.md");
+    assert.deepEqual(rules, [{ source: "r.md", instructions: "Check everything." }]);
+  });
+
+  it("yields rules that rulesFor matches against changed files", () => {
+    const rules = parseRulesFile(
+      "## Files: src/{*.ts,*.md}\nDocument exports.\n## Files: src/a?.js\nNo var.",
+      "r.md"
+    );
+    assert.deepEqual(rulesFor(rules, ["src/index.ts", "src/ab.js", "lib/x.ts"]), [
+      { ...rules[0], matched: ["src/index.ts"] },
+      { ...rules[1], matched: ["src/ab.js"] },
+    ]);
+  });
+});
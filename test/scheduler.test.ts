@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { acquireSlot, pauseProvider, Slot } from "../src/scheduler.js";
+import { CancelledError } from "../src/retry.js";
+import { ProviderLimits, ResolvedModel } from "../src/types.js";
+
+// Queues live for the whole process, so every test gets its own provider.
+let providerCount = 0;
+
+function model(limits: ProviderLimits, provider = `p${++providerCount}`): ResolvedModel {
+  return {
+    provider,
+    modelId: "m",
+    kind: "api",
+    baseURL: "http://127.0.0.1:1/v1",
+    apiKeyEnvVar: "NONE",
+    limits,
+  };
+}
+
+/** Acquire in the background and record when the slot is granted. */
+function enqueue(
+  m: ResolvedModel,
+  tokens: number,
+  started: string[],
+  name: string,
+  signal?: AbortSignal
+) {
+  const positions: number[] = [];
+  const slot = acquireSlot(m, tokens, signal, (p) => positions.push(p)).then((s) => {
+    started.push(name);
+    return s;
+  });
+  return { slot, positions };
+}
+
+/** Let resolved slots run their `.then` callbacks. */
+const settle = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+beforeEach(() => {
+  delete process.env.BRAINSTORM_MAX_CONCURRENCY;
+  mock.timers.enable({ apis: ["setTimeout", "Date"], now: 1_000_000 });
+});
+
+afterEach(() => {
+  mock.timers.reset();
+});
+
+describe("acquireSlot", () => {
+  it("caps calls in flight and starts waiting calls in arrival order", async () => {
+    const m = model({ concurrency: 2 });
+    const started: string[] = [];
+    const calls = ["a", "b", "c", "d", "e"].map((name) => enqueue(m, 10, started, name));
+    await settle();
+    assert.deepEqual(started, ["a", "b"]);
+    assert.deepEqual(
+      calls.map((c) => c.positions),
+      [[], [], [1], [2], [3]]
+    );
+
+    mock.timers.tick(1_500);
+    (await calls[1].slot).release();
+    await settle();
+    assert.deepEqual(started, ["a", "b", "c"]);
+    assert.equal((await calls[2].slot).queuedMs, 1_500);
+
+    (await calls[0].slot).release();
+    (await calls[2].slot).release();
+    await settle();
+    assert.deepEqual(started, ["a", "b", "c", "d", "e"]);
+  });
+
+  it("ignores a second release of the same slot", async () => {
+    const m = model({ concurrency: 1 });
+    const started: string[] = [];
+    const first = await acquireSlot(m, 10);
+    const second = enqueue(m, 10, started, "second");
+    const third = enqueue(m, 10, started, "third");
+    first.release();
+    first.release();
+    await settle();
+    assert.deepEqual(started, ["second"]);
+    (await second.slot).release();
+    await third.slot;
+  });
+
+  it("holds calls past the requests-per-minute limit until the window moves on", async () => {
+    const m = model({ requestsPerMinute: 2 });
+    const started: string[] = [];
+    (await acquireSlot(m, 1)).release();
+    mock.timers.tick(10_000);
+    (await acquireSlot(m, 1)).release();
+
+    const third = enqueue(m, 1, started, "third");
+    await settle();
+    assert.deepEqual(started, []);
+    mock.timers.tick(49_999);
+    await settle();
+    assert.deepEqual(started, []);
+    mock.timers.tick(1);
+    await settle();
+    assert.deepEqual(started, ["third"]);
+    assert.equal((await third.slot).queuedMs, 50_000);
+  });
+
+  it("throttles on tokens per minute and frees budget from reported usage", async () => {
+    const m = model({ tokensPerMinute: 1_000 });
+    const started: string[] = [];
+    const first = await acquireSlot(m, 600);
+    const second = enqueue(m, 600, started, "second");
+    await settle();
+    assert.deepEqual(started, []);
+
+    // The call used less than estimated; the rest of the budget is free again.
+    first.release(300);
+    await settle();
+    assert.deepEqual(started, ["second"]);
+    (await second.slot).release();
+
+    // 900 booked: this one waits for the oldest booking to leave the window.
+    const third = enqueue(m, 400, started, "third");
+    await settle();
+    assert.deepEqual(started, ["second"]);
+    mock.timers.tick(60_000);
+    await settle();
+    assert.deepEqual(started, ["second", "third"]);
+    (await third.slot).release();
+  });
+
+  it("runs a call bigger than the whole token budget once the window is empty", async () => {
+    const m = model({ tokensPerMinute: 1_000 });
+    const started: string[] = [];
+    (await acquireSlot(m, 200)).release();
+    const big = enqueue(m, 5_000, started, "big");
+    const small = enqueue(m, 10, started, "small");
+    await settle();
+    assert.deepEqual(started, []);
+    mock.timers.tick(60_000);
+    await settle();
+    // FIFO: the small call does not overtake the big one at the head.
+    assert.deepEqual(started, ["big"]);
+    (await big.slot).release();
+    mock.timers.tick(60_000);
+    await settle();
+    assert.deepEqual(started, ["big", "small"]);
+  });
+
+  it("holds every call to a provider paused after a 429", async () => {
+    const m = model({});
+    const other = model({});
+    const started: string[] = [];
+    pauseProvider(m, 5_000);
+    const held = enqueue(m, 1, started, "held");
+    enqueue(other, 1, started, "other");
+    await settle();
+    assert.deepEqual(started, ["other"]);
+    mock.timers.tick(4_999);
+    await settle();
+    assert.deepEqual(started, ["other"]);
+    mock.timers.tick(1);
+    await settle();
+    assert.deepEqual(started, ["other", "held"]);
+    assert.equal((await held.slot).queuedMs, 5_000);
+  });
+
+  it("drops a cancelled call from the queue and starts the one behind it", async () => {
+    const m = model({ concurrency: 1 });
+    const started: string[] = [];
+    const first = await acquireSlot(m, 1);
+    const controller = new AbortController();
+    const cancelled = enqueue(m, 1, started, "cancelled", controller.signal);
+    const next = enqueue(m, 1, started, "next");
+    controller.abort();
+    await assert.rejects(cancelled.slot, CancelledError);
+    first.release();
+    await settle();
+    assert.deepEqual(started, ["next"]);
+    (await next.slot).release();
+  });
+
+  it("picks up changed limits on the next call", async () => {
+    const name = `p${++providerCount}`;
+    const started: string[] = [];
+    const slots: Slot[] = [await acquireSlot(model({ concurrency: 1 }, name), 1)];
+    const queued = enqueue(model({ concurrency: 1 }, name), 1, started, "queued");
+    await settle();
+    assert.deepEqual(started, []);
+
+    // e.g. the config was reloaded with a higher cap.
+    const late = enqueue(model({ concurrency: 3 }, name), 1, started, "late");
+    await settle();
+    assert.deepEqual(started, ["queued", "late"]);
+    slots.push(await queued.slot, await late.slot);
+
+    process.env.BRAINSTORM_MAX_CONCURRENCY = "1";
+    const capped = enqueue(model({ concurrency: 3 }, name), 1, started, "capped");
+    slots[0].release();
+    slots[1].release();
+    await settle();
+    assert.deepEqual(started, ["queued", "late"]);
+    slots[2].release();
+    await settle();
+    assert.deepEqual(started, ["queued", "late", "capped"]);
+    (await capped.slot).release();
+  });
+});